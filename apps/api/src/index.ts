@@ -92,6 +92,9 @@ fastify.register(async function (fastify) {
   await fastify.register(import('./routes/composer'))
   await fastify.register(import('./routes/personas'))
   await fastify.register(import('./routes/jobs'))
+  await fastify.register(import('./routes/runners'))
+  await fastify.register(import('./routes/analyze'))
+  await fastify.register(import('./routes/replies'))
 })
 
 // Start server
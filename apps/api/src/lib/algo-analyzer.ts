@@ -0,0 +1,276 @@
+import { AlgoAnalysis, ContentVariant } from './types'
+import { applyOutputLimits } from './token-utils'
+
+export type AnalyzerPlatform = 'twitter' | 'linkedin' | 'instagram'
+
+type Suggestion = AlgoAnalysis['suggestions'][number]
+
+interface PlatformProfile {
+  maxLength: number
+  // Length range that tends to get the most reach
+  idealLength: [number, number]
+  maxHashtags: number
+  // Platforms that push posts with outbound links down the feed
+  penalizesLinks: boolean
+}
+
+const PLATFORM_PROFILES: Record<AnalyzerPlatform, PlatformProfile> = {
+  twitter: { maxLength: 280, idealLength: [70, 240], maxHashtags: 2, penalizesLinks: true },
+  linkedin: { maxLength: 3000, idealLength: [600, 1800], maxHashtags: 5, penalizesLinks: true },
+  instagram: { maxLength: 2200, idealLength: [125, 1000], maxHashtags: 15, penalizesLinks: false },
+}
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi
+const HASHTAG_PATTERN = /#[^\s#]+/g
+
+const ENGAGEMENT_BAIT = [
+  /\b(like|retweet|rt|repost|share) (this )?if\b/i,
+  /\bcomment ["']?\w+["']? (below|if|to)\b/i,
+  /\btag (a|your) friend\b/i,
+  /\bfollow (me )?for follow\b/i,
+  /\bsmash (that|the) like\b/i,
+]
+
+const POSITIVE_WORDS = /\b(great|love|win|best|easy|growth|success|excited|happy|proud|better|powerful|simple|learned)\b/gi
+const NEGATIVE_WORDS = /\b(fail|failed|hate|worst|hard|problem|mistake|wrong|bad|pain|broken|lost|never)\b/gi
+
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (!cleaned) return 0
+  if (cleaned.length <= 3) return 1
+
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g)
+  return Math.max(1, groups?.length ?? 1)
+}
+
+/**
+ * Flesch reading ease, clamped to 0-100 (higher is easier to read).
+ */
+export function readabilityScore(text: string): number {
+  const words = text.replace(URL_PATTERN, '').replace(HASHTAG_PATTERN, '').match(/[A-Za-z']+/g) ?? []
+  if (words.length === 0) return 0
+
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) ?? []).length)
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0)
+  const score = 206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length)
+
+  return Math.round(Math.min(100, Math.max(0, score)))
+}
+
+function lengthFitScore(length: number, profile: PlatformProfile, maxLength: number): number {
+  const [min, max] = profile.idealLength
+  if (length > maxLength) return 0
+  if (length >= min && length <= Math.min(max, maxLength)) return 100
+  if (length < min) return Math.round((length / min) * 100)
+
+  // Between the ideal range and the hard limit the score tapers off
+  const span = Math.max(1, maxLength - max)
+  return Math.round(100 - ((length - max) / span) * 50)
+}
+
+function detectSentiment(text: string): string {
+  const positive = (text.match(POSITIVE_WORDS) ?? []).length
+  const negative = (text.match(NEGATIVE_WORDS) ?? []).length
+  if (positive > negative) return 'positive'
+  if (negative > positive) return 'negative'
+  return 'neutral'
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function clamp(score: number): number {
+  return Math.round(Math.min(100, Math.max(0, score)))
+}
+
+/**
+ * Score a draft for reach: `riskScore` counts patterns feeds are known to
+ * down-rank, `boostScore` rewards readable, well-sized posts that invite
+ * replies. Every suggestion carries the full edited draft in `edit`; it equals
+ * the draft when the change needs the author (e.g. adding a detail).
+ */
+export function analyzeAlgo(
+  content: string,
+  platform: AnalyzerPlatform,
+  options: { maxLength?: number } = {}
+): AlgoAnalysis {
+  const profile = PLATFORM_PROFILES[platform] ?? PLATFORM_PROFILES.twitter
+  const maxLength = options.maxLength ?? profile.maxLength
+  const text = content.trim()
+
+  const words = text.split(/\s+/).filter((word) => word.length > 0)
+  const links = text.match(URL_PATTERN) ?? []
+  const hashtags = text.match(HASHTAG_PATTERN) ?? []
+  const wordCount = Math.max(1, words.length)
+
+  const readability = readabilityScore(text)
+  const lengthFit = lengthFitScore(text.length, profile, maxLength)
+  const sentiment = detectSentiment(text)
+  const opener = text.match(/^[^.!?\n]*[.!?]*/)?.[0] ?? ''
+  const asksQuestion = text.slice(-140).includes('?')
+
+  const suggestions: Suggestion[] = []
+  let risk = 0
+  let boost = 0
+
+  if (links.length > 0 && profile.penalizesLinks) {
+    risk += 25 + (links.length - 1) * 10
+    suggestions.push({
+      type: 'move_link',
+      description: `${platform === 'twitter' ? 'X' : 'LinkedIn'} shows posts with outbound links to fewer people. Post the link as a reply instead.`,
+      impact: 'high',
+      edit: tidy(text.replace(URL_PATTERN, '')),
+    })
+  }
+
+  if (hashtags.length > profile.maxHashtags) {
+    risk += Math.min(30, (hashtags.length - profile.maxHashtags) * 8)
+    const keep = new Set(hashtags.slice(0, profile.maxHashtags))
+    const kept = new Set<string>()
+    suggestions.push({
+      type: 'trim_hashtags',
+      description: `Use at most ${profile.maxHashtags} hashtag${profile.maxHashtags === 1 ? '' : 's'} on ${platform}; ${hashtags.length} reads as spam.`,
+      impact: 'medium',
+      edit: tidy(
+        text.replace(HASHTAG_PATTERN, (tag) => {
+          if (keep.has(tag) && !kept.has(tag)) {
+            kept.add(tag)
+            return tag
+          }
+          return ''
+        })
+      ),
+    })
+  }
+
+  const bait = ENGAGEMENT_BAIT.find((pattern) => pattern.test(text))
+  if (bait) {
+    risk += 25
+    suggestions.push({
+      type: 'remove_engagement_bait',
+      description: 'Explicitly asking for likes, reposts or tags is down-ranked as engagement bait.',
+      impact: 'high',
+      edit: tidy(
+        text
+          .split(/(?<=[.!?])\s+/)
+          .filter((sentence) => !bait.test(sentence))
+          .join(' ')
+      ),
+    })
+  }
+
+  if (text.length > maxLength) {
+    risk += 40
+    suggestions.push({
+      type: 'shorten',
+      description: `The draft is ${text.length - maxLength} characters over the ${maxLength} character limit.`,
+      impact: 'high',
+      edit: applyOutputLimits(text, { maxLength }).text,
+    })
+  } else if (lengthFit < 60 && text.length < profile.idealLength[0]) {
+    suggestions.push({
+      type: 'expand',
+      description: `Posts of ${profile.idealLength[0]}-${profile.idealLength[1]} characters tend to travel further on ${platform}. Add a concrete detail or example.`,
+      impact: 'low',
+      edit: text,
+    })
+  }
+
+  const shouting = words.filter((word) => /^[A-Z]{4,}[!?.,]*$/.test(word)).length
+  if (shouting > 1) {
+    risk += 10
+    suggestions.push({
+      type: 'reduce_caps',
+      description: 'Several all-caps words read as shouting.',
+      impact: 'low',
+      edit: text.replace(/\b[A-Z]{4,}\b/g, (word) => word.charAt(0) + word.slice(1).toLowerCase()),
+    })
+  }
+
+  boost += readability * 0.3
+  boost += lengthFit * 0.3
+
+  if (opener.length > 0 && opener.length <= 100) {
+    boost += 15
+  } else {
+    suggestions.push({
+      type: 'sharpen_hook',
+      description: 'Open with a short first sentence (under 100 characters) so the hook survives the "see more" cut.',
+      impact: 'medium',
+      edit: text.replace(/^([^.!?\n]+[.!?])\s+/, '$1\n\n'),
+    })
+  }
+
+  if (asksQuestion) {
+    boost += 15
+  } else {
+    suggestions.push({
+      type: 'invite_replies',
+      description: 'End with a question; replies are weighted heavily in ranking.',
+      impact: 'medium',
+      edit: `${text}\n\nWhat would you add?`,
+    })
+  }
+
+  if (text.length > 400 && !text.includes('\n')) {
+    suggestions.push({
+      type: 'add_line_breaks',
+      description: 'Break long posts into short paragraphs so they can be skimmed.',
+      impact: 'low',
+      edit: text.replace(/([.!?])\s+(?=[A-Z])/g, '$1\n\n'),
+    })
+  } else {
+    boost += 10
+  }
+
+  if (readability < 50) {
+    suggestions.push({
+      type: 'simplify',
+      description: `Readability is ${readability}/100. Use shorter sentences and plainer words.`,
+      impact: 'medium',
+      edit: text,
+    })
+  }
+
+  if (links.length === 0) boost += 10
+  boost -= risk * 0.25
+
+  const riskScore = clamp(risk)
+  const boostScore = clamp(boost)
+  const band = riskScore >= 60 || boostScore < 30 ? 'red' : riskScore >= 30 || boostScore < 60 ? 'yellow' : 'green'
+
+  return {
+    content: text,
+    riskScore,
+    boostScore,
+    band,
+    suggestions,
+    factors: {
+      linkDensity: Number((links.length / wordCount).toFixed(3)),
+      hashtagCount: hashtags.length,
+      hashtagDensity: Number((hashtags.length / wordCount).toFixed(3)),
+      length: text.length,
+      lengthFit,
+      sentiment,
+      readability,
+    },
+  }
+}
+
+/**
+ * Attach an analysis to a generated variant. Threads are scored on their hook
+ * tweet, which is what the feed ranks.
+ */
+export function attachAlgoAnalysis(variant: ContentVariant, platform: AnalyzerPlatform, maxLength?: number): ContentVariant {
+  const text = variant.thread?.length ? variant.thread[0].text : variant.content
+  const { content: _content, ...analysis } = analyzeAlgo(text, platform, { maxLength })
+
+  variant.metadata.algo = analysis
+  variant.metadata.readability = analysis.factors.readability
+  return variant
+}
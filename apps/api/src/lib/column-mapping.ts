@@ -0,0 +1,133 @@
+import { createHash } from 'crypto'
+import { ColumnMapping } from './types'
+
+export type MappingField = keyof ColumnMapping
+
+export const MAPPING_FIELDS: MappingField[] = [
+  'content', 'date', 'likes', 'retweets', 'replies', 'quotes', 'views', 'bookmarks', 'url', 'type',
+]
+
+const METRIC_FIELDS: MappingField[] = ['likes', 'retweets', 'replies', 'quotes', 'views', 'bookmarks']
+
+// Column names the upload pipeline recognizes (lowercased), most specific first
+export const COLUMN_CANDIDATES: Record<MappingField, string[]> = {
+  content: ['text', 'content', 'full_text', 'tweet', 'post', 'message', 'body'],
+  date: ['created at', 'created_at', 'date', 'timestamp', 'posted_at'],
+  likes: ['favorite count', 'likes', 'favorites', 'favorite_count', 'like count', 'reactions'],
+  retweets: ['retweet count', 'retweets', 'shares', 'reposts'],
+  replies: ['reply count', 'replies', 'comments'],
+  quotes: ['quote count', 'quotes', 'quote tweets'],
+  views: ['view count', 'views', 'impressions', 'impression count'],
+  bookmarks: ['bookmark count', 'bookmarks'],
+  url: ['tweet url', 'url', 'permalink', 'post url', 'link'],
+  type: ['type', 'post type', 'tweet type'],
+}
+
+// Looser matches for headers like "Post Text" or "Likes (total)", tried in this order
+// so that e.g. "ShareLink" is claimed as the URL before anything else sees it
+const KEYWORDS: Array<[MappingField, string[]]> = [
+  ['content', ['text', 'content', 'caption', 'commentary', 'message', 'body']],
+  ['date', ['date', 'time', 'created', 'posted', 'when']],
+  ['url', ['url', 'link']],
+  ['type', ['type']],
+  ['views', ['view', 'impression']],
+  ['quotes', ['quote']],
+  ['bookmarks', ['bookmark', 'save']],
+  ['likes', ['like', 'favorite', 'reaction']],
+  ['replies', ['repl', 'comment']],
+  ['retweets', ['retweet', 'repost', 'shares']],
+]
+
+// Content guessed from sample lengths must average at least this many characters
+const MIN_CONTENT_LENGTH = 20
+
+/**
+ * Identifies a header row regardless of column order, case and padding
+ */
+export function headerSignature(headers: string[]): string {
+  const normalized = headers.map((header) => header.trim().toLowerCase()).sort()
+  return createHash('sha1').update(normalized.join('\n')).digest('hex')
+}
+
+function looksNumeric(samples: string[]) {
+  return samples.every((sample) => /^-?[\d,.\s]+[kKmM]?$/.test(sample.trim()))
+}
+
+function looksLikeDate(samples: string[]) {
+  return samples.every((sample) => /\d/.test(sample) && !isNaN(new Date(sample).getTime()))
+}
+
+function fits(field: MappingField, samples: string[]) {
+  if (samples.length === 0) return true
+  if (METRIC_FIELDS.includes(field)) return looksNumeric(samples)
+  if (field === 'date') return looksLikeDate(samples)
+  return true
+}
+
+/**
+ * Guess which column holds each upload field: known column names first, then
+ * headers containing a familiar word, and for content the column with the
+ * longest text. Sample values rule out non-numeric metrics and unparseable dates.
+ */
+export function guessColumnMapping(headers: string[], samples: Record<string, string[]> = {}): Partial<ColumnMapping> {
+  const mapping: Partial<ColumnMapping> = {}
+  const normalized = headers.map((header) => header.trim().toLowerCase())
+  const used = new Set<number>()
+
+  const claim = (field: MappingField, index: number) => {
+    mapping[field] = headers[index]
+    used.add(index)
+  }
+  const usable = (field: MappingField, index: number) =>
+    !used.has(index) && fits(field, samples[headers[index]] ?? [])
+
+  for (const field of MAPPING_FIELDS) {
+    for (const candidate of COLUMN_CANDIDATES[field]) {
+      const index = normalized.findIndex((header, position) => header === candidate && usable(field, position))
+      if (index >= 0) {
+        claim(field, index)
+        break
+      }
+    }
+  }
+
+  for (const [field, keywords] of KEYWORDS) {
+    if (mapping[field]) continue
+    const index = normalized.findIndex(
+      (header, position) => keywords.some((keyword) => header.includes(keyword)) && usable(field, position)
+    )
+    if (index >= 0) claim(field, index)
+  }
+
+  if (!mapping.content) {
+    let best = -1
+    let bestLength = MIN_CONTENT_LENGTH
+    headers.forEach((header, index) => {
+      const values = samples[header] ?? []
+      if (used.has(index) || values.length === 0 || looksNumeric(values)) return
+      const average = values.reduce((sum, value) => sum + value.length, 0) / values.length
+      if (average >= bestLength) {
+        best = index
+        bestLength = average
+      }
+    })
+    if (best >= 0) claim('content', best)
+  }
+
+  return mapping
+}
+
+/**
+ * The lowercased column names to read each field from: the user's mapping
+ * when there is one, otherwise every known name
+ */
+export function mappingColumns(mapping?: ColumnMapping): Record<MappingField, string[]> {
+  if (!mapping) return COLUMN_CANDIDATES
+
+  const columns = {} as Record<MappingField, string[]>
+  for (const field of MAPPING_FIELDS) {
+    const column = mapping[field]
+    columns[field] = column ? [column.trim().toLowerCase()] : []
+  }
+  return columns
+}
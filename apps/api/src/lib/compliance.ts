@@ -0,0 +1,249 @@
+import { ComplianceReport, ComplianceViolation, Persona } from './types'
+import { LlmProvider } from './llm'
+import { extractJson } from './structured-output'
+
+type VoiceProfile = Pick<Persona, 'tone' | 'cadence' | 'donts'>
+
+const BUZZWORDS = [
+  'synergy',
+  'synergize',
+  'leverage',
+  'circle back',
+  'paradigm shift',
+  'move the needle',
+  'low-hanging fruit',
+  'best-in-class',
+  'game-changer',
+  'game changer',
+  'thought leader',
+  'deep dive',
+  'bandwidth',
+  'value-add',
+  'holistic',
+  'seamless',
+  'cutting-edge',
+  'world-class',
+  'ecosystem',
+  'streamline',
+  'empower',
+  'unlock',
+  'actionable insights',
+  'touch base',
+  'going forward',
+  'at the end of the day',
+  'mission-critical',
+  'disruptive',
+  'next-gen',
+  'scalable solution',
+]
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu
+
+// Maximum average words per sentence for each cadence (minimum for "detailed")
+const CADENCE_LIMITS: Record<Persona['cadence'], { min?: number; max?: number }> = {
+  concise: { max: 18 },
+  conversational: { max: 25 },
+  detailed: { min: 10 },
+}
+
+const FORMAL_TONES = /professional|formal|authoritative|analytical|serious/i
+
+interface TextStats {
+  words: number
+  sentences: string[]
+  exclamations: number
+  emojis: number
+  links: number
+  hashtags: number
+  shouting: number
+}
+
+function measure(content: string): TextStats {
+  const words = content.split(/\s+/).filter((word) => word.length > 0)
+  const sentences = (content.match(/[^.!?\n]+[.!?]*/g) ?? []).map((s) => s.trim()).filter((s) => s.length > 0)
+
+  return {
+    words: words.length,
+    sentences,
+    exclamations: (content.match(/!/g) ?? []).length,
+    emojis: (content.match(EMOJI_PATTERN) ?? []).length,
+    links: (content.match(URL_PATTERN) ?? []).length,
+    hashtags: (content.match(/#[^\s#]+/g) ?? []).length,
+    shouting: words.filter((word) => /^[A-Z]{4,}[!?.,]*$/.test(word)).length,
+  }
+}
+
+function findBuzzwords(content: string): string[] {
+  const lower = content.toLowerCase()
+  return BUZZWORDS.filter((word) => new RegExp(`\\b${word.replace(/[-\s]/g, '[-\\s]')}`, 'i').test(lower))
+}
+
+/**
+ * Map a free-text "don't" onto the detector that can check it and describe the
+ * breach. Returns null when it holds or only the LLM judge can evaluate it.
+ */
+function checkDont(dont: string, content: string, stats: TextStats): string | null {
+  const rule = dont.toLowerCase()
+
+  if (/jargon|corporate|buzzword|business.?speak|clich/.test(rule)) {
+    const found = findBuzzwords(content)
+    return found.length ? `uses ${found.map((word) => `"${word}"`).join(', ')}` : null
+  }
+
+  if (/link|url|spam/.test(rule)) {
+    if (stats.links === 0) return null
+    // A link needs a few sentences of context around it to not read as spam
+    const wordsPerLink = (stats.words - stats.links) / stats.links
+    return stats.links > 1 || wordsPerLink < 15 ? `${stats.links} link(s) with little context` : null
+  }
+
+  if (/exclamation|shout|hype|salesy|over.?excite/.test(rule)) {
+    if (stats.shouting > 1) return `${stats.shouting} all-caps words`
+    return stats.exclamations > 1 ? `${stats.exclamations} exclamation marks` : null
+  }
+
+  if (/emoji/.test(rule)) {
+    return stats.emojis > 0 ? `${stats.emojis} emoji(s)` : null
+  }
+
+  if (/hashtag/.test(rule)) {
+    return stats.hashtags > 2 ? `${stats.hashtags} hashtags` : null
+  }
+
+  if (/caps|capital/.test(rule)) {
+    return stats.shouting > 1 ? `${stats.shouting} all-caps words` : null
+  }
+
+  return null
+}
+
+/**
+ * Rule-based compliance check against a persona's donts, tone and cadence.
+ * Broken donts are errors (the variant should be regenerated); voice drift is
+ * reported as a warning.
+ */
+export function checkCompliance(content: string, persona: VoiceProfile): ComplianceReport {
+  const stats = measure(content)
+  const violations: ComplianceViolation[] = []
+
+  for (const dont of persona.donts) {
+    const detail = checkDont(dont, content, stats)
+    if (detail) {
+      violations.push({ rule: dont, source: 'rule', severity: 'error', message: `Breaks "${dont}": ${detail}` })
+    }
+  }
+
+  const sentenceCount = Math.max(1, stats.sentences.length)
+
+  if (stats.exclamations / sentenceCount > 0.5 && stats.exclamations > 1) {
+    violations.push({
+      rule: 'exclamation-rate',
+      source: 'rule',
+      severity: 'warning',
+      message: `${stats.exclamations} exclamation marks in ${sentenceCount} sentence(s)`,
+    })
+  }
+
+  if (stats.words > 0 && stats.emojis / stats.words > 0.1) {
+    violations.push({
+      rule: 'emoji-rate',
+      source: 'rule',
+      severity: 'warning',
+      message: `${stats.emojis} emojis in ${stats.words} words`,
+    })
+  }
+
+  if (persona.tone.some((tone) => FORMAL_TONES.test(tone)) && (stats.exclamations > 1 || stats.shouting > 0)) {
+    violations.push({
+      rule: 'tone',
+      source: 'rule',
+      severity: 'warning',
+      message: `Reads more excitable than a ${persona.tone.join(', ')} tone`,
+    })
+  }
+
+  const limits = CADENCE_LIMITS[persona.cadence]
+  if (limits && stats.sentences.length > 1) {
+    const averageWords = Math.round(stats.words / sentenceCount)
+    if ((limits.max && averageWords > limits.max) || (limits.min && averageWords < limits.min)) {
+      violations.push({
+        rule: 'cadence',
+        source: 'rule',
+        severity: 'warning',
+        message: `Average sentence is ${averageWords} words, which doesn't fit a ${persona.cadence} cadence`,
+      })
+    }
+  }
+
+  return buildReport(violations)
+}
+
+export function buildReport(violations: ComplianceViolation[]): ComplianceReport {
+  const errors = violations.filter((violation) => violation.severity === 'error').length
+  const warnings = violations.length - errors
+
+  return {
+    score: Math.max(0, 100 - errors * 25 - warnings * 10),
+    passed: errors === 0,
+    violations,
+  }
+}
+
+export function isComplianceJudgeEnabled(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.COMPLIANCE_LLM_JUDGE || '').toLowerCase())
+}
+
+/**
+ * Ask the model to review a post against the persona. The judge is advisory:
+ * unreadable answers or provider errors yield no violations.
+ */
+export async function judgeCompliance(
+  provider: LlmProvider,
+  model: string,
+  persona: VoiceProfile,
+  content: string,
+  signal?: AbortSignal
+): Promise<ComplianceViolation[]> {
+  if (persona.donts.length === 0) return []
+
+  const prompt = `Review this social media post against the author's rules.
+
+TONE: ${persona.tone.join(', ')}
+CADENCE: ${persona.cadence}
+RULES (the post must NOT):
+${persona.donts.map((dont) => `- ${dont}`).join('\n')}
+
+POST:
+"""
+${content}
+"""
+
+Return ONLY JSON: {"violations": [{"rule": "<rule text>", "message": "<why it breaks the rule>"}]}
+Use an empty array when the post follows every rule.`
+
+  try {
+    const result = await provider.generate({
+      prompt,
+      model,
+      options: { temperature: 0, maxTokens: 300 },
+      signal,
+    })
+
+    const parsed = extractJson(result.text) as { violations?: Array<{ rule?: unknown; message?: unknown }> } | undefined
+    const items = Array.isArray(parsed?.violations) ? parsed.violations : []
+
+    return items
+      .filter((item) => typeof item?.rule === 'string' && item.rule.trim().length > 0)
+      .map((item) => ({
+        rule: String(item.rule).trim(),
+        source: 'judge' as const,
+        severity: 'error' as const,
+        message: typeof item.message === 'string' && item.message.trim() ? item.message.trim() : `Breaks "${item.rule}"`,
+      }))
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.warn('Compliance judge failed, keeping rule-based result:', error)
+    return []
+  }
+}
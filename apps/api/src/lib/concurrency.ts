@@ -0,0 +1,109 @@
+/**
+ * Counting semaphore with FIFO waiters. Waiters can be cancelled with an AbortSignal.
+ */
+export class Semaphore {
+  private active = 0
+  private readonly waiters: Array<() => void> = []
+
+  constructor(readonly limit: number) {}
+
+  get inUse(): number {
+    return this.active
+  }
+
+  get pending(): number {
+    return this.waiters.length
+  }
+
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    throwIfAborted(signal)
+
+    if (this.active < this.limit) {
+      this.active++
+      return this.createRelease()
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort)
+        this.active++
+        resolve(this.createRelease())
+      }
+
+      const onAbort = () => {
+        const index = this.waiters.indexOf(grant)
+        if (index >= 0) this.waiters.splice(index, 1)
+        reject(new AbortError())
+      }
+
+      this.waiters.push(grant)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private createRelease(): () => void {
+    let released = false
+
+    return () => {
+      if (released) return
+      released = true
+      this.active--
+      this.waiters.shift()?.()
+    }
+  }
+}
+
+export class AbortError extends Error {
+  constructor(message = 'Generation cancelled') {
+    super(message)
+    this.name = 'AbortError'
+  }
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AbortError()
+  }
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Shared across all requests in this process
+const GLOBAL_LLM_CONCURRENCY = readLimit(process.env.LLM_GLOBAL_CONCURRENCY, 4)
+const USER_LLM_CONCURRENCY = readLimit(process.env.LLM_USER_CONCURRENCY, 2)
+
+const globalLlmSlots = new Semaphore(GLOBAL_LLM_CONCURRENCY)
+const userLlmSlots = new Map<string, Semaphore>()
+
+/**
+ * Run `task` once both a per-user and a global LLM slot are free.
+ * Anonymous (demo) callers share a single user bucket.
+ */
+export async function withLlmSlot<T>(userKey: string | undefined, signal: AbortSignal | undefined, task: () => Promise<T>): Promise<T> {
+  const key = userKey || 'anonymous'
+  let userSlots = userLlmSlots.get(key)
+  if (!userSlots) {
+    userSlots = new Semaphore(USER_LLM_CONCURRENCY)
+    userLlmSlots.set(key, userSlots)
+  }
+
+  // Take the user slot first so one busy user can't hold global slots while queued
+  const releaseUser = await userSlots.acquire(signal)
+  try {
+    const releaseGlobal = await globalLlmSlots.acquire(signal)
+    try {
+      throwIfAborted(signal)
+      return await task()
+    } finally {
+      releaseGlobal()
+    }
+  } finally {
+    releaseUser()
+    if (userSlots.inUse === 0 && userSlots.pending === 0) {
+      userLlmSlots.delete(key)
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { ComplianceViolation, ConversationMessage } from './types'
+
+// "Jane Doe @jane · 2h" or "@jane · Mar 3"
+const INLINE_HEADER = /^(?:(.{1,50}?)\s+)?@(\w{1,15})(?:\s*·\s*(.+))?$/
+// "@jane: text" or "Jane (@jane): text"
+const HANDLE_PREFIX = /^(?:[^\s:()][^:()]{0,40}?\s*\()?@(\w{1,15})\)?:\s+(.+)$/
+// "Jane: text". Looks the same as a lead-in like "Update: ..." inside a post, so
+// it only starts a message when the paste has no handles or the line opens it
+const NAME_PREFIX = /^([A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,2}):\s+(.+)$/
+const HANDLE_LINE = /^@(\w{1,15})$/
+const TIMESTAMP_LINE =
+  /^(?:·\s*)?(?:\d{1,2}[smhd]|now|\d{1,2}:\d{2}\s?[AP]M(?:\s*·.*)?|[A-Z][a-z]{2} \d{1,2}(?:, \d{4})?)$/
+
+// UI chrome that comes along when a thread is copied from X
+const NOISE_LINES = [
+  /^·$/,
+  /^[\d.,]+[KkMm]?$/,
+  /^[\d.,]+[KkMm]?\s+(views?|reposts?|quotes?|likes?|bookmarks?|replies)$/i,
+  /^replying to\b/i,
+  /^(show (more( replies)?|replies|this thread|probable spam)|translate post|quote|repost(ed)?|views?|pinned|promoted|follow|following|more replies)$/i,
+  /^(post|conversation|relevant people)$/i,
+]
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'for', 'is', 'it', 'this', 'that',
+  'with', 'as', 'at', 'be', 'are', 'was', 'you', 'i', 'we', 'so', 'just', 'your', 'my',
+])
+
+type DraftMessage = ConversationMessage & { lines: string[] }
+
+function isNoise(line: string): boolean {
+  return NOISE_LINES.some((pattern) => pattern.test(line))
+}
+
+function matchInlineHeader(line: string): RegExpMatchArray | null {
+  const header = line.match(INLINE_HEADER)
+  return header && (header[3] === undefined || TIMESTAMP_LINE.test(header[3])) ? header : null
+}
+
+function unquote(text: string): string {
+  return text.replace(/^["“](.*)["”]$/s, '$1').trim()
+}
+
+/**
+ * Split a pasted conversation into messages, oldest first. Understands threads
+ * copied from X (name, @handle, timestamp and engagement counts on their own
+ * lines), "Name @handle · 2h" headers and "@handle: text" / "Name: text"
+ * lines, the last only in pastes without handles or on the opening line. Text
+ * without any author markers comes back as a single message with an empty
+ * author.
+ */
+export function parseConversation(raw: string): ConversationMessage[] {
+  const lines = raw.replace(/\r\n?/g, '\n').split('\n').map((line) => line.trim())
+  const messages: DraftMessage[] = []
+  const hasHandles = lines.some(
+    (line) => HANDLE_LINE.test(line) || HANDLE_PREFIX.test(line) || matchInlineHeader(line) !== null
+  )
+
+  const start = (author: string, timestamp?: string): DraftMessage => {
+    const message = { author, timestamp, content: '', lines: [] }
+    messages.push(message)
+    return message
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (!line || isNoise(line)) continue
+    const current: DraftMessage | undefined = messages[messages.length - 1]
+
+    const handle = line.match(HANDLE_LINE)
+    if (handle) {
+      // X puts the display name on the line before the handle
+      const name = current?.lines[current.lines.length - 1]
+      if (current && name && name.length <= 50 && !/[.!?]$/.test(name)) {
+        current.lines.pop()
+        if (current.lines.length === 0 && current.author === '') messages.pop()
+      }
+
+      const message = start(handle[1])
+      // Skip the "·" separator and pick up the timestamp
+      while (i + 1 < lines.length && (lines[i + 1] === '·' || lines[i + 1] === '')) i++
+      if (i + 1 < lines.length && TIMESTAMP_LINE.test(lines[i + 1])) {
+        message.timestamp = lines[++i].replace(/^·\s*/, '')
+      }
+      continue
+    }
+
+    const header = matchInlineHeader(line)
+    if (header) {
+      start(header[2], header[3]?.trim())
+      continue
+    }
+
+    const prefixed = line.match(HANDLE_PREFIX) ?? (!hasHandles || !current ? line.match(NAME_PREFIX) : null)
+    if (prefixed) {
+      start(prefixed[1]).lines.push(unquote(prefixed[2]))
+      continue
+    }
+
+    if (TIMESTAMP_LINE.test(line) && current && current.timestamp === undefined && current.lines.length === 0) {
+      current.timestamp = line.replace(/^·\s*/, '')
+      continue
+    }
+
+    const target = current ?? start('')
+    target.lines.push(line)
+  }
+
+  return messages
+    .map(({ lines: body, ...message }) => ({ ...message, content: unquote(body.join('\n').trim()) }))
+    .filter((message) => message.content.length > 0)
+}
+
+/**
+ * Numbered transcript for the reply prompt, with the message being replied to
+ * marked by ">>".
+ */
+export function formatConversation(messages: ConversationMessage[], replyToIndex: number): string {
+  return messages
+    .map((message, index) => {
+      const marker = index === replyToIndex ? '>> ' : ''
+      const author = message.author ? `@${message.author}` : 'unknown'
+      const time = message.timestamp ? ` (${message.timestamp})` : ''
+      return `${marker}${index + 1}. ${author}${time}: ${message.content.replace(/\s*\n\s*/g, ' ')}`
+    })
+    .join('\n')
+}
+
+function trigrams(text: string): Set<string> {
+  const words = (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter((word) => !STOPWORDS.has(word))
+  const grams = new Set<string>()
+  for (let i = 0; i + 2 < words.length; i++) {
+    grams.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`)
+  }
+  return grams
+}
+
+/**
+ * Flag a reply that mostly repeats a message already in the conversation.
+ */
+export function findRepeatedPoints(content: string, messages: ConversationMessage[]): ComplianceViolation[] {
+  const reply = trigrams(content)
+  if (reply.size < 3) return []
+
+  const violations: ComplianceViolation[] = []
+  messages.forEach((message, index) => {
+    const shared = Array.from(trigrams(message.content)).filter((gram) => reply.has(gram)).length
+    if (shared >= 3 && shared / reply.size >= 0.4) {
+      const author = message.author ? ` @${message.author}` : ''
+      violations.push({
+        rule: 'repetition',
+        source: 'rule',
+        severity: 'error',
+        message: `Repeats the point${author} already made in message ${index + 1}`,
+      })
+    }
+  })
+
+  return violations
+}
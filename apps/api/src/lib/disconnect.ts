@@ -0,0 +1,18 @@
+import { FastifyReply } from 'fastify'
+
+/**
+ * Returns a signal that aborts if the client disconnects before the response
+ * finishes. Listens on the response: the request stream emits 'close' as soon
+ * as its body has been read.
+ */
+export function createDisconnectSignal(reply: FastifyReply): AbortSignal {
+  const controller = new AbortController()
+
+  reply.raw.on('close', () => {
+    if (!reply.raw.writableFinished) {
+      controller.abort()
+    }
+  })
+
+  return controller.signal
+}
@@ -0,0 +1,48 @@
+import { LocalEmbeddingProvider } from './local-embeddings'
+import { OllamaEmbeddingProvider } from './ollama-embeddings'
+import { OpenAiCompatibleEmbeddingProvider } from './openai-compatible-embeddings'
+import { EMBEDDING_PROVIDER_NAMES, EmbeddingProvider, EmbeddingProviderName } from './types'
+
+export * from './types'
+export * from './vector-index'
+export { LocalEmbeddingProvider } from './local-embeddings'
+export { OllamaEmbeddingProvider } from './ollama-embeddings'
+export { OpenAiCompatibleEmbeddingProvider } from './openai-compatible-embeddings'
+
+let cachedProvider: EmbeddingProvider | null | undefined
+
+export function isEmbeddingProviderName(value: unknown): value is EmbeddingProviderName {
+  return typeof value === 'string' && (EMBEDDING_PROVIDER_NAMES as string[]).includes(value)
+}
+
+export function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider()
+    case 'openai-compatible':
+      return new OpenAiCompatibleEmbeddingProvider()
+    case 'local':
+      return new LocalEmbeddingProvider()
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`)
+  }
+}
+
+/**
+ * The provider chosen by `EMBEDDINGS_PROVIDER` (default `local`), or null when
+ * it is set to `off` and similarity features are disabled.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (cachedProvider === undefined) {
+    const name = process.env.EMBEDDINGS_PROVIDER || 'local'
+    if (name === 'off') {
+      cachedProvider = null
+    } else if (isEmbeddingProviderName(name)) {
+      cachedProvider = createEmbeddingProvider(name)
+    } else {
+      console.warn(`Unknown EMBEDDINGS_PROVIDER "${name}", falling back to local embeddings`)
+      cachedProvider = new LocalEmbeddingProvider()
+    }
+  }
+  return cachedProvider
+}
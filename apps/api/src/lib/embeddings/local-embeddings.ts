@@ -0,0 +1,57 @@
+import { createHash } from 'crypto'
+import { EmbeddingProvider } from './types'
+
+const DIMENSIONS = 512
+
+function bucket(feature: string): { index: number; sign: number } {
+  const digest = createHash('md5').update(feature).digest()
+  return { index: digest.readUInt32LE(0) % DIMENSIONS, sign: digest[4] & 1 ? 1 : -1 }
+}
+
+function features(text: string): string[] {
+  const normalized = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}#@'\s]+/gu, ' ')
+  const words = normalized.split(/\s+/).filter(Boolean)
+
+  const result: string[] = []
+  for (let index = 0; index < words.length; index++) {
+    result.push(`w:${words[index]}`)
+    if (index + 1 < words.length) result.push(`b:${words[index]} ${words[index + 1]}`)
+    // Character trigrams make inflections ("ship", "shipping") land close together
+    const padded = ` ${words[index]} `
+    for (let start = 0; start + 3 <= padded.length; start++) {
+      result.push(`c:${padded.slice(start, start + 3)}`)
+    }
+  }
+  return result
+}
+
+/**
+ * In-process hashed bag-of-words embeddings: no model download or server, but
+ * similarity only reflects shared words and word fragments, not meaning. Good
+ * enough for near-duplicate detection; use Ollama or a local embedding server
+ * for better exemplar retrieval.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const
+  readonly model = `local-hash-${DIMENSIONS}`
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const counts = new Map<string, number>()
+      for (const feature of features(text)) {
+        counts.set(feature, (counts.get(feature) ?? 0) + 1)
+      }
+
+      const vector = new Array<number>(DIMENSIONS).fill(0)
+      for (const [feature, count] of Array.from(counts)) {
+        const { index, sign } = bucket(feature)
+        // Sublinear term frequency so repeated words don't dominate
+        vector[index] += sign * (1 + Math.log(count))
+      }
+      return vector
+    })
+  }
+}
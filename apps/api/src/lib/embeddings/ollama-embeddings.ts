@@ -0,0 +1,44 @@
+import { ensureOk } from '../llm/http'
+import { EmbeddingProvider } from './types'
+
+export interface OllamaEmbeddingConfig {
+  baseUrl?: string
+  model?: string
+}
+
+/**
+ * Ollama's `/api/embed` endpoint, which accepts a batch of inputs. The model
+ * must be pulled first, e.g. `ollama pull nomic-embed-text`.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama' as const
+  readonly model: string
+  private readonly baseUrl: string
+
+  constructor(config: OllamaEmbeddingConfig = {}) {
+    this.baseUrl = (config.baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, '')
+    this.model = config.model || process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text'
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal,
+    })
+
+    await ensureOk(response, 'Ollama embeddings')
+
+    const result = (await response.json()) as { embeddings?: number[][] }
+    if (!Array.isArray(result.embeddings) || result.embeddings.length !== texts.length) {
+      throw new Error('Ollama embeddings API returned an unexpected number of vectors')
+    }
+
+    return result.embeddings
+  }
+}
@@ -0,0 +1,56 @@
+import { ensureOk } from '../llm/http'
+import { EmbeddingProvider } from './types'
+
+export interface OpenAiCompatibleEmbeddingConfig {
+  baseUrl?: string
+  apiKey?: string
+  model?: string
+}
+
+/**
+ * Any server exposing the OpenAI `/v1/embeddings` API, e.g. llama.cpp's
+ * `llama-server --embeddings` or LM Studio running a local embedding model.
+ */
+export class OpenAiCompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai-compatible' as const
+  readonly model: string
+  private readonly baseUrl: string
+  private readonly apiKey?: string
+
+  constructor(config: OpenAiCompatibleEmbeddingConfig = {}) {
+    this.baseUrl = (config.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8080/v1').replace(
+      /\/+$/,
+      ''
+    )
+    this.apiKey = config.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || undefined
+    this.model = config.model || process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL || 'default'
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal,
+    })
+
+    await ensureOk(response, 'OpenAI-compatible embeddings')
+
+    const result = (await response.json()) as { data?: Array<{ index?: number; embedding?: number[] }> }
+    const data = result.data ?? []
+    if (data.length !== texts.length) {
+      throw new Error('OpenAI-compatible embeddings API returned an unexpected number of vectors')
+    }
+
+    // Servers may return items out of order; `index` is authoritative
+    return data
+      .map((item, position) => ({ index: item.index ?? position, embedding: item.embedding ?? [] }))
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding)
+  }
+}
@@ -0,0 +1,14 @@
+export type EmbeddingProviderName = 'ollama' | 'openai-compatible' | 'local'
+
+export const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = ['ollama', 'openai-compatible', 'local']
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName
+  // Stored with every vector; vectors from different models are never compared
+  readonly model: string
+
+  /**
+   * One vector per input text, in the same order.
+   */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>
+}
@@ -0,0 +1,73 @@
+export interface VectorMatch<T> {
+  id: string
+  score: number
+  item: T
+}
+
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector)
+  let norm = 0
+  for (let index = 0; index < result.length; index++) norm += result[index] * result[index]
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    for (let index = 0; index < result.length; index++) result[index] /= norm
+  }
+  return result
+}
+
+// Vectors are persisted as raw little-endian float32 bytes
+export function encodeVector(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength)
+}
+
+export function decodeVector(bytes: Uint8Array): Float32Array {
+  const copy = new Uint8Array(bytes.byteLength)
+  copy.set(bytes)
+  return new Float32Array(copy.buffer)
+}
+
+/**
+ * Brute-force cosine similarity over normalized vectors. A persona has at most
+ * a few thousand posts, so a linear scan is fast and needs no extra index.
+ */
+export class VectorIndex<T> {
+  private readonly entries = new Map<string, { vector: Float32Array; item: T }>()
+
+  // Fixed by the first vector added unless given up front
+  constructor(private dimensions = 0) {}
+
+  get size() {
+    return this.entries.size
+  }
+
+  has(id: string) {
+    return this.entries.has(id)
+  }
+
+  add(id: string, vector: ArrayLike<number>, item: T) {
+    if (this.dimensions === 0) this.dimensions = vector.length
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`)
+    }
+    this.entries.set(id, { vector: normalize(vector), item })
+  }
+
+  remove(id: string) {
+    this.entries.delete(id)
+  }
+
+  search(query: ArrayLike<number>, limit: number, filter?: (item: T) => boolean): VectorMatch<T>[] {
+    if (query.length !== this.dimensions || limit <= 0) return []
+
+    const target = normalize(query)
+    const matches: VectorMatch<T>[] = []
+    for (const [id, { vector, item }] of Array.from(this.entries)) {
+      if (filter && !filter(item)) continue
+      let score = 0
+      for (let index = 0; index < vector.length; index++) score += vector[index] * target[index]
+      matches.push({ id, score, item })
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+}
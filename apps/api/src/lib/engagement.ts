@@ -0,0 +1,123 @@
+/**
+ * Engagement model for uploaded posts. Interactions are weighted by how much
+ * intent they show, divided by views where the export has them, and ranked
+ * within the upload so scores from different platforms and account sizes
+ * compare.
+ */
+
+export type InteractionType = 'likes' | 'retweets' | 'replies' | 'quotes' | 'bookmarks'
+
+export interface EngagementMetrics extends Record<InteractionType, number> {
+  // Null when the export has no view counts
+  views: number | null
+}
+
+export interface EngagementModel {
+  weights: Record<InteractionType, number>
+  // Every post's rate is pulled toward the upload average as if it had this
+  // many extra views, so 1 like on 3 views doesn't outrank 500 likes on 10k
+  priorViews: number
+}
+
+export interface EngagementScore {
+  // Weighted interaction count
+  interactions: number
+  // Weighted interactions per view; null without views
+  rate: number | null
+  // 0-100 within the upload, by smoothed rate (or interactions when there are no views)
+  percentile: number
+}
+
+export const INTERACTION_TYPES: InteractionType[] = ['likes', 'retweets', 'replies', 'quotes', 'bookmarks']
+
+export const DEFAULT_ENGAGEMENT_MODEL: EngagementModel = {
+  weights: { likes: 1, retweets: 2, replies: 3, quotes: 3, bookmarks: 2 },
+  priorViews: 200,
+}
+
+/**
+ * The model from the environment: ENGAGEMENT_WEIGHTS as "likes=1,replies=3,..."
+ * (unlisted interactions keep their defaults) and ENGAGEMENT_PRIOR_VIEWS
+ */
+export function getEngagementModel(): EngagementModel {
+  const weights = { ...DEFAULT_ENGAGEMENT_MODEL.weights }
+  for (const pair of (process.env.ENGAGEMENT_WEIGHTS ?? '').split(',')) {
+    const [name, value] = pair.split(/[=:]/).map((part) => part?.trim())
+    const weight = Number(value)
+    if (INTERACTION_TYPES.includes(name as InteractionType) && value && Number.isFinite(weight) && weight >= 0) {
+      weights[name as InteractionType] = weight
+    }
+  }
+
+  const priorViews = Number(process.env.ENGAGEMENT_PRIOR_VIEWS)
+  return {
+    weights,
+    priorViews: Number.isFinite(priorViews) && priorViews >= 0 ? priorViews : DEFAULT_ENGAGEMENT_MODEL.priorViews,
+  }
+}
+
+export function weightedInteractions(metrics: EngagementMetrics, model: EngagementModel): number {
+  return INTERACTION_TYPES.reduce((sum, type) => sum + (metrics[type] || 0) * model.weights[type], 0)
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Percentile rank of each value, 0 for the lowest and 100 for the highest; ties share the average rank
+function percentiles(values: number[]): number[] {
+  if (values.length === 1) return [100]
+
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const result = new Array<number>(values.length)
+  for (let start = 0; start < order.length; ) {
+    let end = start
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+    const rank = (start + end) / 2
+    for (let position = start; position <= end; position++) {
+      result[order[position].index] = Number(((rank / (values.length - 1)) * 100).toFixed(1))
+    }
+    start = end + 1
+  }
+  return result
+}
+
+/**
+ * Score every post of one upload. Posts without a view count are ranked as
+ * if they had the upload's median views.
+ */
+export function scoreEngagement(
+  posts: EngagementMetrics[],
+  model: EngagementModel = DEFAULT_ENGAGEMENT_MODEL
+): EngagementScore[] {
+  if (posts.length === 0) return []
+
+  const interactions = posts.map((metrics) => weightedInteractions(metrics, model))
+  const viewed = posts
+    .map((metrics, index) => ({ views: metrics.views ?? 0, interactions: interactions[index] }))
+    .filter((post) => post.views > 0)
+
+  // Without views there is nothing to normalize by, so rank on interactions alone
+  if (viewed.length === 0) {
+    const ranks = percentiles(interactions)
+    return interactions.map((value, index) => ({ interactions: value, rate: null, percentile: ranks[index] }))
+  }
+
+  const totalViews = viewed.reduce((sum, post) => sum + post.views, 0)
+  const averageRate = viewed.reduce((sum, post) => sum + post.interactions, 0) / totalViews
+  const typicalViews = median(viewed.map((post) => post.views))
+
+  const smoothed = posts.map((metrics, index) => {
+    const views = metrics.views && metrics.views > 0 ? metrics.views : typicalViews
+    return (interactions[index] + averageRate * model.priorViews) / (views + model.priorViews)
+  })
+  const ranks = percentiles(smoothed)
+
+  return posts.map((metrics, index) => ({
+    interactions: interactions[index],
+    rate: metrics.views && metrics.views > 0 ? interactions[index] / metrics.views : null,
+    percentile: ranks[index],
+  }))
+}
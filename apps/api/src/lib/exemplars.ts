@@ -0,0 +1,122 @@
+export interface ExemplarCandidate {
+  content: string
+  platform?: string
+  engagementScore?: number
+}
+
+export interface SimilarExemplar extends ExemplarCandidate {
+  // Cosine similarity to the input, from the persona's embedding index
+  similarity: number
+}
+
+// Anything this close to the input is the input itself (e.g. repurposing an old post)
+const SAME_TEXT_SIMILARITY = 0.98
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'this', 'that', 'with', 'have', 'has', 'was', 'were',
+  'will', 'just', 'from', 'they', 'them', 'what', 'when', 'about', 'into', 'than', 'then', 'there', 'their',
+  'our', 'out', 'all', 'can', 'more', 'how', 'why', 'its', "it's", 'been', 'being', 'also', 'some', 'very',
+])
+
+function keywords(text: string): Set<string> {
+  const words = text.toLowerCase().replace(/https?:\/\/\S+/g, ' ').match(/[a-z0-9][a-z0-9'-]+/g) ?? []
+  return new Set(words.filter((word) => word.length > 2 && !STOPWORDS.has(word)))
+}
+
+/**
+ * Pick the persona posts most relevant to the input by keyword overlap,
+ * weighting rare words higher. Exemplars on the target platform and ones that
+ * performed well break ties. When nothing overlaps, the best performers are
+ * used so the model still sees the persona's voice.
+ */
+export function selectExemplars(
+  input: string,
+  candidates: ExemplarCandidate[],
+  options: { platform?: string; limit?: number; maxChars?: number } = {}
+): string[] {
+  const limit = options.limit ?? 3
+  const maxChars = options.maxChars ?? 600
+  const usable = candidates.filter((candidate) => candidate.content.trim().length > 0)
+  if (usable.length === 0 || limit <= 0) return []
+
+  const inputWords = keywords(input)
+  const candidateWords = usable.map((candidate) => keywords(candidate.content))
+
+  // Inverse document frequency across the persona's exemplars
+  const documentFrequency = new Map<string, number>()
+  for (const words of candidateWords) {
+    for (const word of Array.from(words)) {
+      documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)
+    }
+  }
+
+  const maxEngagement = Math.max(1, ...usable.map((candidate) => candidate.engagementScore ?? 0))
+
+  const scored = usable.map((candidate, index) => {
+    let relevance = 0
+    for (const word of Array.from(inputWords)) {
+      if (candidateWords[index].has(word)) {
+        relevance += Math.log(1 + usable.length / (documentFrequency.get(word) ?? 1))
+      }
+    }
+
+    const platformBonus = options.platform && candidate.platform === options.platform ? 0.5 : 0
+    const engagementBonus = ((candidate.engagementScore ?? 0) / maxEngagement) * 0.5
+    return { candidate, relevance, score: relevance + platformBonus + engagementBonus }
+  })
+
+  const relevant = scored.filter((entry) => entry.relevance > 0).sort((a, b) => b.score - a.score)
+  const fallback = scored.filter((entry) => entry.relevance === 0).sort((a, b) => b.score - a.score)
+
+  return pickDistinct([...relevant, ...fallback].map((entry) => entry.candidate), limit, maxChars)
+}
+
+/**
+ * Order embedding matches for use as few-shot examples. Similarity dominates;
+ * engagement and a platform match only reorder posts that are about as close.
+ */
+export function rankSimilarExemplars(
+  matches: SimilarExemplar[],
+  options: { platform?: string; limit?: number; maxChars?: number } = {}
+): string[] {
+  const maxEngagement = Math.max(1, ...matches.map((match) => match.engagementScore ?? 0))
+
+  const ranked = matches
+    .filter((match) => match.content.trim() && match.similarity < SAME_TEXT_SIMILARITY)
+    .map((match) => ({
+      match,
+      score:
+        match.similarity +
+        ((match.engagementScore ?? 0) / maxEngagement) * 0.05 +
+        (options.platform && match.platform === options.platform ? 0.03 : 0),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.match)
+
+  return pickDistinct(ranked, options.limit ?? 3, options.maxChars ?? 600)
+}
+
+function pickDistinct(candidates: ExemplarCandidate[], limit: number, maxChars: number): string[] {
+  const seen = new Set<string>()
+  const picked: string[] = []
+  for (const candidate of candidates) {
+    if (picked.length >= limit) break
+    const text = candidate.content.trim()
+    const key = text.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    picked.push(text.length > maxChars ? `${text.slice(0, maxChars).trimEnd()}…` : text)
+  }
+  return picked
+}
+
+/**
+ * Prompt block showing the model how the persona actually writes.
+ */
+export function formatExemplars(exemplars: string[]): string {
+  if (exemplars.length === 0) return ''
+
+  return `VOICE EXAMPLES (real posts in this persona's voice; match their style, rhythm and vocabulary, not their topic, and never copy them):
+${exemplars.map((exemplar, index) => `Example ${index + 1}:\n${exemplar}`).join('\n\n')}
+`
+}
@@ -1,4 +1,13 @@
 // Export only what we need to avoid conflicts
 // export { prisma } from './database' // Temporarily disabled for quick setup
 export { PersonaEngine } from './persona-engine'
-export type { ContentRequest, ContentVariant, GenerationResult } from './types'
+export type {
+  ComplianceReport,
+  ComplianceViolation,
+  ContentRequest,
+  ConversationMessage,
+  ContentVariant,
+  GenerationResult,
+  ThreadOptions,
+  ThreadTweet,
+} from './types'
@@ -0,0 +1,84 @@
+import { ZipEntry, isZip, listZipEntries, readZipEntries } from './zip'
+import { repairMojibake } from './text-cleanup'
+
+/**
+ * Reader for Instagram's JSON data export. Posts are in
+ * `content/posts_1.json` (newer exports nest it under
+ * `your_instagram_activity/`). Single-image posts keep the caption on
+ * `media[0].title`; carousels put it on the post. Text is mojibake-encoded
+ * and the export carries no likes or comments.
+ */
+
+interface InstagramMedia {
+  uri?: string
+  creation_timestamp?: number
+  title?: string
+}
+
+interface InstagramPost {
+  media?: InstagramMedia[]
+  title?: string
+  creation_timestamp?: number
+}
+
+const POSTS_FILE = /(^|\/)content\/posts_\d+\.json$/i
+const HTML_POSTS_FILE = /(^|\/)content\/posts_\d+\.html$/i
+
+export function isInstagramExport(entries: ZipEntry[]): boolean {
+  return entries.some((entry) => POSTS_FILE.test(entry.name) || HTML_POSTS_FILE.test(entry.name))
+}
+
+// posts_1.json is a bare array; other content files wrap it, e.g. { "ig_reels_media": [...] }
+function postList(data: unknown): InstagramPost[] {
+  if (Array.isArray(data)) return data
+  if (data && typeof data === 'object') {
+    const list = Object.values(data).find(Array.isArray)
+    if (list) return list
+  }
+  throw new Error('Instagram export file does not contain a list of posts')
+}
+
+/**
+ * Map Instagram posts onto the columns the upload pipeline reads
+ */
+export function instagramPostsToRows(data: unknown): Record<string, string>[] {
+  return postList(data).map((post) => {
+    const media = post.media ?? []
+    const caption = post.title || media.find((item) => item.title)?.title || ''
+    const timestamp = post.creation_timestamp ?? media[0]?.creation_timestamp
+
+    return {
+      Text: repairMojibake(caption),
+      'Created At': timestamp ? new Date(timestamp * 1000).toISOString() : '',
+      Type: media.length > 1 ? 'Carousel' : 'Post',
+    }
+  })
+}
+
+function parsePostsJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new Error('Instagram export file is not valid JSON')
+  }
+}
+
+/**
+ * Read posts from the Instagram export ZIP or a bare posts_1.json
+ */
+export function readInstagramExport(buffer: Buffer): Record<string, string>[] {
+  if (!isZip(buffer)) {
+    return instagramPostsToRows(parsePostsJson(buffer.toString('utf8')))
+  }
+
+  const entries = listZipEntries(buffer)
+  const postFiles = entries.filter((entry) => POSTS_FILE.test(entry.name))
+  if (postFiles.length === 0) {
+    if (entries.some((entry) => HTML_POSTS_FILE.test(entry.name))) {
+      throw new Error('This Instagram export is in HTML format. Request the export again with the JSON format.')
+    }
+    throw new Error('No content/posts_1.json found in the Instagram export')
+  }
+
+  return readZipEntries(buffer, postFiles).flatMap((data) => instagramPostsToRows(parsePostsJson(data.toString('utf8'))))
+}
@@ -0,0 +1,89 @@
+import { parse } from 'csv-parse/sync'
+import { ZipEntry, isZip, listZipEntries, readZipEntry } from './zip'
+
+/**
+ * Reader for LinkedIn's data export. Posts are in `Shares.csv` with the
+ * columns Date, ShareLink, ShareCommentary, SharedUrl, MediaUrl and
+ * Visibility; the export carries no engagement numbers.
+ */
+
+const SHARES_FILE = /(^|\/)Shares\.csv$/i
+const SHARES_COLUMN = 'ShareCommentary'
+
+export function isLinkedInExport(entries: ZipEntry[]): boolean {
+  return entries.some((entry) => SHARES_FILE.test(entry.name))
+}
+
+/**
+ * Whether parsed CSV rows come from Shares.csv rather than a third-party tool
+ */
+export function isLinkedInShares(rows: Record<string, string>[]): boolean {
+  return rows.length > 0 && SHARES_COLUMN in rows[0]
+}
+
+/**
+ * Whether a CSV file is Shares.csv, judged by its header row alone
+ */
+export function isLinkedInSharesCsv(buffer: Buffer): boolean {
+  try {
+    const [header = []]: string[][] = parse(buffer, { bom: true, to_line: 1, relax_quotes: true })
+    return header.some((column) => column.trim() === SHARES_COLUMN)
+  } catch {
+    return false
+  }
+}
+
+// "2024-01-15 14:03:22" in UTC -> "2024-01-15T14:03:22Z"
+function parseShareDate(value?: string): string {
+  const trimmed = value?.trim() ?? ''
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed
+}
+
+/**
+ * Map Shares.csv rows onto the columns the upload pipeline reads. Reshares
+ * without commentary come through with empty text and are skipped later.
+ */
+export function linkedInSharesToRows(rows: Record<string, string>[]): Record<string, string>[] {
+  return rows.map((row) => {
+    const mapped: Record<string, string> = {
+      Text: row.ShareCommentary ?? '',
+      'Created At': parseShareDate(row.Date),
+      URL: row.ShareLink ?? '',
+      URLs: row.SharedUrl ?? '',
+      Type: row.SharedUrl ? 'Share' : 'Post',
+    }
+
+    // Kept when the CSV has been enriched with analytics columns
+    for (const column of ['Likes', 'Reactions', 'Comments', 'Reposts', 'Impressions']) {
+      if (row[column]) mapped[column] = row[column]
+    }
+
+    return mapped
+  })
+}
+
+function parseSharesCsv(text: string): Record<string, string>[] {
+  return parse(text, {
+    columns: true,
+    skip_empty_lines: true,
+    bom: true,
+    // Commentary often contains stray quotes and line breaks
+    relax_quotes: true,
+  })
+}
+
+/**
+ * Read posts from the LinkedIn export ZIP or a bare Shares.csv
+ */
+export function readLinkedInExport(buffer: Buffer): Record<string, string>[] {
+  if (!isZip(buffer)) {
+    return linkedInSharesToRows(parseSharesCsv(buffer.toString('utf8')))
+  }
+
+  const shares = listZipEntries(buffer).find((entry) => SHARES_FILE.test(entry.name))
+  if (!shares) {
+    throw new Error('No Shares.csv found in the LinkedIn export')
+  }
+
+  return linkedInSharesToRows(parseSharesCsv(readZipEntry(buffer, shares).toString('utf8')))
+}
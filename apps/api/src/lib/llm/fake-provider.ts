@@ -0,0 +1,77 @@
+import { countTokens } from '../token-utils'
+import { LlmGenerateRequest, LlmGenerateResult, LlmProvider } from './types'
+
+export type FakeResponder = (request: LlmGenerateRequest, callIndex: number) => string
+
+export interface FakeProviderConfig {
+  /**
+   * Canned responses returned in order (the last one repeats), or a function
+   * computing the response. Defaults to echoing the topic found in the prompt.
+   */
+  responses?: string[] | FakeResponder
+  defaultModel?: string
+}
+
+/**
+ * Deterministic provider for tests and offline demos. Never touches the network.
+ */
+export class FakeProvider implements LlmProvider {
+  readonly name = 'fake' as const
+  readonly defaultModel: string
+  private readonly responder: FakeResponder
+  private calls = 0
+
+  constructor(config: FakeProviderConfig = {}) {
+    this.defaultModel = config.defaultModel || 'fake-model'
+
+    const responses = config.responses
+    if (typeof responses === 'function') {
+      this.responder = responses
+    } else if (Array.isArray(responses) && responses.length > 0) {
+      this.responder = (_request, callIndex) => responses[Math.min(callIndex, responses.length - 1)]
+    } else {
+      this.responder = (request) => echoTopic(request.prompt)
+    }
+  }
+
+  async generate(request: LlmGenerateRequest): Promise<LlmGenerateResult> {
+    throwIfAborted(request.signal)
+    const text = this.responder(request, this.calls++)
+
+    return {
+      text,
+      model: request.model || this.defaultModel,
+      provider: this.name,
+      promptTokens: countTokens(`${request.system ?? ''}${request.prompt}`),
+      completionTokens: countTokens(text),
+    }
+  }
+
+  async *stream(request: LlmGenerateRequest): AsyncGenerator<string> {
+    const { text } = await this.generate(request)
+    const pieces = text.match(/\S+\s*/g) ?? []
+
+    for (const piece of pieces) {
+      throwIfAborted(request.signal)
+      yield piece
+    }
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text)
+  }
+}
+
+function echoTopic(prompt: string): string {
+  const topicMatch = prompt.match(/(?:Topic|INPUT):\s*"?([^"\n]+)"?/i)
+  const firstLine = prompt.split('\n').find((line) => line.trim().length > 0) ?? ''
+  const topic = (topicMatch?.[1] ?? firstLine).trim().slice(0, 120)
+
+  return `Here's what stood out about ${topic || 'this idea'}. Small, steady steps beat big plans. What would you try first?`
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error('Generation aborted')
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Splits a streaming fetch body into newline-delimited lines.
+ * Used by providers that stream NDJSON (Ollama) or SSE (OpenAI-compatible).
+ */
+export async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return
+
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffered += decoder.decode(value, { stream: true })
+
+      let newlineIndex = buffered.indexOf('\n')
+      while (newlineIndex >= 0) {
+        const line = buffered.slice(0, newlineIndex).replace(/\r$/, '')
+        buffered = buffered.slice(newlineIndex + 1)
+        if (line.trim()) {
+          yield line
+        }
+        newlineIndex = buffered.indexOf('\n')
+      }
+    }
+
+    buffered += decoder.decode()
+    if (buffered.trim()) {
+      yield buffered
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export async function ensureOk(response: Response, label: string): Promise<void> {
+  if (response.ok) return
+
+  let detail = ''
+  try {
+    detail = (await response.text()).slice(0, 300)
+  } catch {
+    // Body is optional context only
+  }
+
+  throw new Error(`${label} API error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`)
+}
@@ -0,0 +1,102 @@
+import { LlmSelectionSchema } from '../types'
+import { FakeProvider } from './fake-provider'
+import { OllamaProvider } from './ollama-provider'
+import { OpenAiCompatibleProvider } from './openai-compatible-provider'
+import { LLM_PROVIDER_NAMES, LlmGenerationOptions, LlmProvider, LlmProviderName, LlmSelection } from './types'
+
+export * from './types'
+export { OllamaProvider } from './ollama-provider'
+export { OpenAiCompatibleProvider } from './openai-compatible-provider'
+export { FakeProvider } from './fake-provider'
+
+const providerCache = new Map<LlmProviderName, LlmProvider>()
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value)
+}
+
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case 'ollama':
+      return new OllamaProvider()
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider()
+    case 'fake':
+      return new FakeProvider()
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+}
+
+/**
+ * Returns a shared provider instance configured from the environment.
+ */
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  let provider = providerCache.get(name)
+  if (!provider) {
+    provider = createLlmProvider(name)
+    providerCache.set(name, provider)
+  }
+  return provider
+}
+
+/**
+ * Parses a persisted or user-supplied selection, dropping anything invalid
+ * instead of failing the whole generation request.
+ */
+export function parseLlmSelection(value: unknown): LlmSelection {
+  const parsed = LlmSelectionSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : {}
+}
+
+export interface ResolvedLlmSelection {
+  provider: LlmProvider
+  model: string
+  options: LlmGenerationOptions
+}
+
+/**
+ * Layers selections from lowest to highest precedence (e.g. persona, then request)
+ * over the `LLM_*` environment defaults.
+ */
+export function resolveLlmSelection(
+  layers: Array<LlmSelection | undefined>,
+  fallbackOptions: LlmGenerationOptions = {}
+): ResolvedLlmSelection {
+  const envProvider = process.env.LLM_PROVIDER
+  const envTemperature = process.env.LLM_TEMPERATURE ? Number(process.env.LLM_TEMPERATURE) : undefined
+  const envMaxTokens = process.env.LLM_MAX_TOKENS ? Number(process.env.LLM_MAX_TOKENS) : undefined
+
+  const merged: LlmSelection = {
+    provider: isLlmProviderName(envProvider) ? envProvider : 'ollama',
+    temperature: Number.isFinite(envTemperature) ? envTemperature : undefined,
+    maxTokens: Number.isFinite(envMaxTokens) ? envMaxTokens : undefined,
+  }
+
+  const target = merged as Record<string, unknown>
+  for (const layer of layers) {
+    if (!layer) continue
+    // A model picked for one provider is meaningless for another
+    if (layer.provider && layer.provider !== merged.provider && !layer.model) {
+      merged.model = undefined
+    }
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && value !== null && value !== '') {
+        target[key] = value
+      }
+    }
+  }
+
+  const provider = getLlmProvider(merged.provider ?? 'ollama')
+
+  return {
+    provider,
+    model: merged.model || provider.defaultModel,
+    options: {
+      temperature: merged.temperature ?? fallbackOptions.temperature,
+      maxTokens: merged.maxTokens ?? fallbackOptions.maxTokens,
+      topP: merged.topP ?? fallbackOptions.topP,
+      stop: fallbackOptions.stop,
+    },
+  }
+}
@@ -0,0 +1,108 @@
+import { countTokens } from '../token-utils'
+import { ensureOk, readLines } from './http'
+import { LlmGenerateRequest, LlmGenerateResult, LlmProvider } from './types'
+
+export interface OllamaProviderConfig {
+  baseUrl?: string
+  defaultModel?: string
+}
+
+export class OllamaProvider implements LlmProvider {
+  readonly name = 'ollama' as const
+  readonly defaultModel: string
+  private readonly baseUrl: string
+
+  constructor(config: OllamaProviderConfig = {}) {
+    this.baseUrl = (config.baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, '')
+    this.defaultModel = config.defaultModel || process.env.OLLAMA_MODEL || 'gemma3:12b'
+  }
+
+  async generate(request: LlmGenerateRequest): Promise<LlmGenerateResult> {
+    const model = request.model || this.defaultModel
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildBody(request, model, false)),
+      signal: request.signal,
+    })
+
+    await ensureOk(response, 'Ollama')
+
+    const result = (await response.json()) as {
+      message?: { content?: string }
+      prompt_eval_count?: number
+      eval_count?: number
+    }
+
+    return {
+      text: result.message?.content ?? '',
+      model,
+      provider: this.name,
+      promptTokens: result.prompt_eval_count,
+      completionTokens: result.eval_count,
+    }
+  }
+
+  async *stream(request: LlmGenerateRequest): AsyncGenerator<string> {
+    const model = request.model || this.defaultModel
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildBody(request, model, true)),
+      signal: request.signal,
+    })
+
+    await ensureOk(response, 'Ollama')
+
+    for await (const line of readLines(response.body)) {
+      let chunk: { message?: { content?: string }; done?: boolean; error?: string }
+      try {
+        chunk = JSON.parse(line)
+      } catch {
+        continue
+      }
+
+      if (chunk.error) {
+        throw new Error(`Ollama stream error: ${chunk.error}`)
+      }
+
+      if (chunk.message?.content) {
+        yield chunk.message.content
+      }
+
+      if (chunk.done) {
+        return
+      }
+    }
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text)
+  }
+
+  private buildBody(request: LlmGenerateRequest, model: string, stream: boolean) {
+    const options: Record<string, unknown> = {}
+    if (request.options?.temperature !== undefined) options.temperature = request.options.temperature
+    if (request.options?.maxTokens !== undefined) options.num_predict = request.options.maxTokens
+    if (request.options?.topP !== undefined) options.top_p = request.options.topP
+    if (request.options?.stop?.length) options.stop = request.options.stop
+
+    // The chat endpoint applies the model's chat template, so the system message
+    // is honoured the same way as on OpenAI-compatible servers
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ]
+
+    return {
+      model,
+      messages,
+      stream,
+      options,
+    }
+  }
+}
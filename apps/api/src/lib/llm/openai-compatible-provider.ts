@@ -0,0 +1,114 @@
+import { countTokens } from '../token-utils'
+import { ensureOk, readLines } from './http'
+import { LlmGenerateRequest, LlmGenerateResult, LlmProvider } from './types'
+
+export interface OpenAiCompatibleProviderConfig {
+  baseUrl?: string
+  apiKey?: string
+  defaultModel?: string
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/v1/chat/completions` API,
+ * e.g. llama.cpp's `llama-server`, vLLM or LM Studio.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai-compatible' as const
+  readonly defaultModel: string
+  private readonly baseUrl: string
+  private readonly apiKey?: string
+
+  constructor(config: OpenAiCompatibleProviderConfig = {}) {
+    this.baseUrl = (config.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8080/v1').replace(
+      /\/+$/,
+      ''
+    )
+    this.apiKey = config.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || undefined
+    this.defaultModel = config.defaultModel || process.env.OPENAI_COMPATIBLE_MODEL || 'default'
+  }
+
+  async generate(request: LlmGenerateRequest): Promise<LlmGenerateResult> {
+    const model = request.model || this.defaultModel
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildBody(request, model, false)),
+      signal: request.signal,
+    })
+
+    await ensureOk(response, 'OpenAI-compatible')
+
+    const result = (await response.json()) as {
+      model?: string
+      choices?: Array<{ message?: { content?: string | null } }>
+      usage?: { prompt_tokens?: number; completion_tokens?: number }
+    }
+
+    return {
+      text: result.choices?.[0]?.message?.content ?? '',
+      model: result.model || model,
+      provider: this.name,
+      promptTokens: result.usage?.prompt_tokens,
+      completionTokens: result.usage?.completion_tokens,
+    }
+  }
+
+  async *stream(request: LlmGenerateRequest): AsyncGenerator<string> {
+    const model = request.model || this.defaultModel
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildBody(request, model, true)),
+      signal: request.signal,
+    })
+
+    await ensureOk(response, 'OpenAI-compatible')
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue
+
+      const data = line.slice(5).trim()
+      if (data === '[DONE]') return
+
+      let chunk: { choices?: Array<{ delta?: { content?: string | null } }> }
+      try {
+        chunk = JSON.parse(data)
+      } catch {
+        continue
+      }
+
+      const delta = chunk.choices?.[0]?.delta?.content
+      if (delta) {
+        yield delta
+      }
+    }
+  }
+
+  countTokens(text: string): number {
+    return countTokens(text)
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+    }
+  }
+
+  private buildBody(request: LlmGenerateRequest, model: string, stream: boolean) {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ]
+
+    return {
+      model,
+      messages,
+      stream,
+      ...(request.options?.temperature !== undefined ? { temperature: request.options.temperature } : {}),
+      ...(request.options?.maxTokens !== undefined ? { max_tokens: request.options.maxTokens } : {}),
+      ...(request.options?.topP !== undefined ? { top_p: request.options.topP } : {}),
+      ...(request.options?.stop?.length ? { stop: request.options.stop } : {}),
+    }
+  }
+}
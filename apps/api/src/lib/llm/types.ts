@@ -0,0 +1,46 @@
+export type LlmProviderName = 'ollama' | 'openai-compatible' | 'fake'
+
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['ollama', 'openai-compatible', 'fake']
+
+/**
+ * Sampling options understood by every provider. Providers translate these into
+ * their own wire format (e.g. `maxTokens` becomes `num_predict` for Ollama).
+ */
+export interface LlmGenerationOptions {
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  stop?: string[]
+}
+
+export interface LlmGenerateRequest {
+  prompt: string
+  system?: string
+  model?: string
+  options?: LlmGenerationOptions
+  signal?: AbortSignal
+}
+
+export interface LlmGenerateResult {
+  text: string
+  model: string
+  provider: LlmProviderName
+  promptTokens?: number
+  completionTokens?: number
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName
+  readonly defaultModel: string
+
+  generate(request: LlmGenerateRequest): Promise<LlmGenerateResult>
+
+  /**
+   * Yields text deltas as the model produces them.
+   */
+  stream(request: LlmGenerateRequest): AsyncIterable<string>
+
+  countTokens(text: string): number
+}
+
+export type { LlmSelection } from '../types'
@@ -1,5 +1,19 @@
-import { Persona, ContentRequest, ContentVariant, GenerationResult } from './types'
+import { Persona, ContentRequest, ContentVariant, GenerationResult, ComplianceReport, ReplyContext, PlatformSettings } from './types'
 import { approxCharsPerToken, applyOutputLimits, countTokens } from './token-utils'
+import { clampThread } from './thread-composer'
+import { checkCompliance } from './compliance'
+import { attachAlgoAnalysis } from './algo-analyzer'
+import { formatConversation } from './conversation'
+import { getPlatformSettings } from './platform-settings'
+import { formatExemplars } from './exemplars'
+
+const REPLY_GOALS: Record<ReplyContext['replyGoal'], string> = {
+  engage: 'Start a conversation with the author and invite a response',
+  add_value: 'Add a useful insight, example or resource the post is missing',
+  question: 'Ask a thoughtful question that deepens the discussion',
+  support: 'Back the author up with genuine agreement and a reason why',
+  correct: 'Respectfully correct or nuance a claim, with evidence',
+}
 
 export class PersonaEngine {
   private persona: Persona
@@ -19,9 +33,12 @@ PERSONA PROFILE:
 - Name: ${this.persona.name}
 - Tone: ${this.persona.tone.join(', ')}
 - Cadence: ${this.persona.cadence}
-- Hook Patterns: ${this.persona.hookPatterns.join(', ')}
-- CTA Style: ${this.persona.ctaStyle}
-
+- Hook Patterns: {hookPatterns}
+- CTA Style: {ctaStyle}
+${this.persona.donts.length ? `
+STRICT RULES (NEVER violate these):
+${this.persona.donts.map(dont => `- DO NOT ${dont}`).join('\n')}
+` : ''}
 VOICE GUIDELINES:
 - Match the specified tone and cadence exactly
 - Use the preferred hook patterns when appropriate
@@ -38,7 +55,7 @@ TARGET LENGTH: approximately {maxLength} characters
 MAX TOKENS: {maxTokens}
 HASHTAG RULES: {hashtagRules}
 EMOJI RULES: {emojiRules}
-
+{exemplars}
 For each {variantLabel}, provide:
 1. Hook (opening line that grabs attention)
 2. Body (main content that delivers value)
@@ -64,10 +81,10 @@ Generate {variants} sharp, value-adding {replyLabel} to this post:
 
 ORIGINAL POST: {originalPost}
 AUTHOR: {author}
-GOAL: {replyGoal}
+{conversation}GOAL: {replyGoal}
 HASHTAG RULES: {hashtagRules}
 EMOJI RULES: {emojiRules}
-
+{exemplars}
 Create {replyLabel} that:
 - Add genuine value, not generic praise
 - Show expertise and insight
@@ -80,10 +97,36 @@ Return as JSON array with same structure as composer.
   }
 
   buildSystemMessage(type: string, platform: string): string {
-    const basePrompt = this.templates.get('system_base') || ''
+    const settings = this.getPlatformSettings(platform)
+    const basePrompt = (this.templates.get('system_base') || '')
+      .replace('{hookPatterns}', () => this.getHookPatterns(platform).join(', '))
+      .replace('{ctaStyle}', () => settings.ctaStyle ?? this.persona.ctaStyle)
     const platformRules = this.getPlatformRules(platform)
-    
-    return `${basePrompt}\n\nPLATFORM RULES for ${platform.toUpperCase()}:\n${platformRules}`
+    const languageRule = settings.language ? `\n- Write in ${settings.language}` : ''
+
+    return `${basePrompt.trim()}\n\nPLATFORM RULES for ${platform.toUpperCase()}:${platformRules}${languageRule}`
+  }
+
+  /**
+   * The persona's settings for a platform (limits, hashtag/emoji policy, hooks,
+   * CTA style, language). Request options override them.
+   */
+  getPlatformSettings(platform: string): PlatformSettings {
+    return getPlatformSettings(this.persona.platforms, platform)
+  }
+
+  private getHookPatterns(platform?: string): string[] {
+    const override = platform ? this.getPlatformSettings(platform).hookPatterns : undefined
+    return override?.length ? override : this.persona.hookPatterns
+  }
+
+  /**
+   * Hook pattern to suggest for the nth variant, cycling through the persona's
+   * patterns for the platform.
+   */
+  getHookPattern(index: number, platform?: string): string | undefined {
+    const patterns = this.getHookPatterns(platform)
+    return patterns.length ? patterns[index % patterns.length] : undefined
   }
 
   private getPlatformRules(platform: string): string {
@@ -125,16 +168,23 @@ Return as JSON array with same structure as composer.
     const postLabel = variantCount === 1 ? 'post' : 'posts'
     const replyLabel = variantCount === 1 ? 'reply' : 'replies'
     const maxLengthValue = this.getPlatformMaxLength(request.platform, request.options.maxLength)
+    const settings = this.getPlatformSettings(request.platform)
     const maxTokensValue =
-      request.options.maxTokens ?? Math.ceil(maxLengthValue / approxCharsPerToken())
+      request.options.maxTokens ?? settings.maxTokens ?? Math.ceil(maxLengthValue / approxCharsPerToken())
     const maxLength = maxLengthValue.toString()
     const maxTokens = maxTokensValue.toString()
 
-    const includeHashtags = request.options.includeHashtags ?? false
-    const includeEmojis = request.options.includeEmojis ?? false
-    const hashtagRules = includeHashtags ? 'Include 1-2 relevant hashtags only when useful.' : 'Do not include hashtags.'
+    const includeHashtags = request.options.includeHashtags ?? settings.includeHashtags ?? false
+    const includeEmojis = request.options.includeEmojis ?? settings.includeEmojis ?? false
+    const hashtagRules = !includeHashtags
+      ? 'Do not include hashtags.'
+      : request.platform === 'instagram'
+        ? 'End the caption with 3-5 relevant hashtags.'
+        : 'Include 1-2 relevant hashtags only when useful.'
     const emojiRules = includeEmojis ? 'Emojis are permitted; use them sparingly.' : 'Do not use emojis.'
 
+    const reply = request.replyContext
+
     const replacements: Record<string, string> = {
       '{variants}': variantCount.toString(),
       '{variantLabel}': variantLabel,
@@ -146,6 +196,17 @@ Return as JSON array with same structure as composer.
       '{maxTokens}': maxTokens,
       '{hashtagRules}': hashtagRules,
       '{emojiRules}': emojiRules,
+      '{originalPost}': reply ? `"${reply.originalPost.content}"` : '',
+      '{author}': reply?.originalPost.author ?? '',
+      '{replyGoal}': reply ? REPLY_GOALS[reply.replyGoal] : '',
+      '{conversation}': reply?.thread && reply.thread.length > 1
+        ? `CONVERSATION (oldest first, >> marks the message you are replying to):\n${formatConversation(
+            reply.thread,
+            reply.replyToIndex ?? reply.thread.length - 1
+          )}\n`
+        : '',
+      // Last, so example text is never scanned for the tokens above
+      '{exemplars}': request.exemplars?.length ? `\n${formatExemplars(request.exemplars)}` : '',
     }
 
     let prompt = template
@@ -158,7 +219,10 @@ Return as JSON array with same structure as composer.
 
   private getPlatformMaxLength(platform: string, override?: number): number {
     if (override) return override
-    
+
+    const settings = this.getPlatformSettings(platform)
+    if (settings.maxLength) return settings.maxLength
+
     const defaults = {
       twitter: 280,
       linkedin: 3000,
@@ -168,14 +232,38 @@ Return as JSON array with same structure as composer.
     return defaults[platform as keyof typeof defaults] || 280
   }
 
+  checkCompliance(content: string): ComplianceReport {
+    return checkCompliance(content, this.persona)
+  }
+
+  getVoiceProfile(): Pick<Persona, 'tone' | 'cadence' | 'donts'> {
+    return { tone: this.persona.tone, cadence: this.persona.cadence, donts: this.persona.donts }
+  }
+
   validateOutput(variants: ContentVariant[], request: ContentRequest): GenerationResult {
+    const settings = this.getPlatformSettings(request.platform)
     const maxLength = this.getPlatformMaxLength(request.platform, request.options.maxLength)
     const maxTokens =
-      request.options.maxTokens ?? Math.ceil(maxLength / approxCharsPerToken())
+      request.options.maxTokens ?? settings.maxTokens ?? Math.ceil(maxLength / approxCharsPerToken())
     const filteredVariants: ContentVariant[] = []
     const errors: string[] = []
 
     for (const variant of variants) {
+      // Thread limits apply per tweet, not to the whole thread
+      if (request.type === 'thread' && variant.thread?.length) {
+        clampThread(variant, maxLength, maxTokens)
+
+        if ((variant.thread?.length ?? 0) < 2) {
+          errors.push(`Variant ${variant.id} did not produce a thread of at least two tweets`)
+          continue
+        }
+
+        variant.metadata.compliance ??= this.checkCompliance(variant.content)
+        attachAlgoAnalysis(variant, request.platform, maxLength)
+        filteredVariants.push(variant)
+        continue
+      }
+
       const originalContent = variant.content
       const limits = applyOutputLimits(originalContent, {
         maxTokens,
@@ -184,8 +272,8 @@ Return as JSON array with same structure as composer.
 
       variant.content = limits.text
 
-      const includeHashtags = request.options.includeHashtags ?? false
-      const includeEmojis = request.options.includeEmojis ?? false
+      const includeHashtags = request.options.includeHashtags ?? settings.includeHashtags ?? false
+      const includeEmojis = request.options.includeEmojis ?? settings.includeEmojis ?? false
       const hashtagRegex = /#[^\s#]+/g
 
       if (!includeHashtags) {
@@ -231,6 +319,10 @@ Return as JSON array with same structure as composer.
         continue
       }
 
+      // Variants generated in-process already carry a report; runner output is checked here
+      variant.metadata.compliance ??= this.checkCompliance(variant.content)
+      attachAlgoAnalysis(variant, request.platform, maxLength)
+
       filteredVariants.push(variant)
     }
 
@@ -256,7 +348,8 @@ Return as JSON array with same structure as composer.
       donts: dbPersona.donts,
       hookPatterns: dbPersona.hookPatterns,
       ctaStyle: dbPersona.ctaStyle,
-      platforms: dbPersona.platforms
+      platforms: dbPersona.platforms,
+      llm: dbPersona.llm ?? {}
     }
 
     return new PersonaEngine(persona)
@@ -0,0 +1,137 @@
+// Everything a persona version captures; id, owner and default status aren't versioned
+export interface PersonaSnapshot {
+  name: string
+  description: string | null
+  tone: string[]
+  cadence: string
+  donts: string[]
+  hookPatterns: string[]
+  ctaStyle: string
+  platforms: Record<string, unknown>
+  llm: Record<string, unknown>
+}
+
+export interface ListChange {
+  added: string[]
+  removed: string[]
+}
+
+export interface ValueChange<T = unknown> {
+  from: T
+  to: T
+}
+
+export interface PersonaChanges {
+  name?: ValueChange<string>
+  description?: ValueChange<string | null>
+  tone?: ListChange
+  cadence?: ValueChange<string>
+  donts?: ListChange
+  hookPatterns?: ListChange
+  ctaStyle?: ValueChange<string>
+  platforms?: ValueChange<Record<string, unknown>>
+  llm?: ValueChange<Record<string, unknown>>
+}
+
+const LIST_FIELDS = ['tone', 'donts', 'hookPatterns'] as const
+const TEXT_FIELDS = ['name', 'description', 'cadence', 'ctaStyle'] as const
+const OBJECT_FIELDS = ['platforms', 'llm'] as const
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Snapshot a persona row, whose list and settings columns are JSON strings.
+ */
+export function snapshotPersona(persona: {
+  name: string
+  description: string | null
+  tone: string
+  cadence: string
+  donts: string
+  hookPatterns: string
+  ctaStyle: string
+  platforms: string
+  llm: string
+}): PersonaSnapshot {
+  return {
+    name: persona.name,
+    description: persona.description,
+    tone: parseJson(persona.tone, []),
+    cadence: persona.cadence,
+    donts: parseJson(persona.donts, []),
+    hookPatterns: parseJson(persona.hookPatterns, []),
+    ctaStyle: persona.ctaStyle,
+    platforms: parseJson(persona.platforms, {}),
+    llm: parseJson(persona.llm, {}),
+  }
+}
+
+export function parseSnapshot(value: string): PersonaSnapshot {
+  return parseJson<PersonaSnapshot>(value, {
+    name: '',
+    description: null,
+    tone: [],
+    cadence: 'conversational',
+    donts: [],
+    hookPatterns: [],
+    ctaStyle: 'direct',
+    platforms: {},
+    llm: {},
+  })
+}
+
+function diffList(from: string[], to: string[]): ListChange | undefined {
+  const added = to.filter((item) => !from.includes(item))
+  const removed = from.filter((item) => !to.includes(item))
+  return added.length || removed.length ? { added, removed } : undefined
+}
+
+// Key order doesn't count as a change
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * What changed between two snapshots. List fields report added and removed
+ * entries (reordering isn't a change); everything else reports from/to.
+ */
+export function diffPersonaSnapshots(from: PersonaSnapshot, to: PersonaSnapshot): PersonaChanges {
+  const changes: Record<string, unknown> = {}
+
+  for (const field of LIST_FIELDS) {
+    const change = diffList(from[field], to[field])
+    if (change) changes[field] = change
+  }
+
+  for (const field of TEXT_FIELDS) {
+    if ((from[field] ?? null) !== (to[field] ?? null)) {
+      changes[field] = { from: from[field], to: to[field] }
+    }
+  }
+
+  for (const field of OBJECT_FIELDS) {
+    if (stableStringify(from[field]) !== stableStringify(to[field])) {
+      changes[field] = { from: from[field], to: to[field] }
+    }
+  }
+
+  return changes as PersonaChanges
+}
+
+export function hasChanges(changes: PersonaChanges): boolean {
+  return Object.keys(changes).length > 0
+}
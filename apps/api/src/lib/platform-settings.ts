@@ -0,0 +1,34 @@
+import { PlatformSettings, PlatformSettingsSchema } from './types'
+
+/**
+ * A persona's settings for one platform. Invalid entries are ignored instead of
+ * failing the whole generation request.
+ */
+export function getPlatformSettings(platforms: Record<string, unknown> | undefined, platform: string): PlatformSettings {
+  const parsed = PlatformSettingsSchema.safeParse(platforms?.[platform] ?? {})
+  return parsed.success ? parsed.data : {}
+}
+
+/**
+ * Sanitize user-supplied `platforms` before it is persisted, dropping platforms
+ * whose settings don't validate and empty strings/lists.
+ */
+export function parsePlatformSettings(value: unknown): Record<string, PlatformSettings> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+
+  const result: Record<string, PlatformSettings> = {}
+  for (const [platform, settings] of Object.entries(value as Record<string, unknown>)) {
+    const parsed = PlatformSettingsSchema.safeParse(settings)
+    if (!parsed.success) continue
+
+    const { hookPatterns, language, ...rest } = parsed.data
+    const patterns = hookPatterns?.map((pattern) => pattern.trim()).filter(Boolean)
+    result[platform] = {
+      ...rest,
+      ...(patterns?.length ? { hookPatterns: patterns } : {}),
+      ...(language?.trim() ? { language: language.trim() } : {}),
+    }
+  }
+
+  return result
+}
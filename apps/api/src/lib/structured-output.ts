@@ -0,0 +1,243 @@
+import { ContentVariantSchema } from './types'
+import { normalizeToString } from './token-utils'
+
+export interface PostSections {
+  hook?: string
+  body: string
+  cta?: string
+  hashtags: string[]
+  hookType?: string
+}
+
+const HOOK_TYPES = ['question', 'story', 'contrarian', 'insight']
+
+const CTA_PATTERN = /\b(follow|bookmark|save|share|repost|retweet|reply|comment|subscribe|dm|join|try|grab|check out|sign up|let me know|thoughts|agree)\b/i
+
+/**
+ * Pull the first JSON value out of model output. Tolerates code fences,
+ * surrounding prose, smart quotes, trailing commas, raw newlines inside
+ * strings and output that was cut off before the closing brackets.
+ */
+export function extractJson(raw: string): unknown | undefined {
+  const text = normalizeToString(raw)
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/)
+  const source = fenced && /[[{]/.test(fenced[1]) ? fenced[1] : text
+
+  const start = source.search(/[[{]/)
+  if (start < 0) return undefined
+
+  const candidate = balanceJson(source.slice(start))
+  const attempts = [candidate, repairJson(candidate)]
+
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt)
+    } catch {
+      // Try the next, more aggressive repair
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Cut the text after the first complete JSON value, or close whatever is still
+ * open when the output ends early. Raw line breaks inside strings are escaped.
+ */
+function balanceJson(text: string): string {
+  const stack: string[] = []
+  let inString = false
+  let closingQuote = '"'
+  let escaped = false
+  let result = ''
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (char === closingQuote) {
+        inString = false
+        result += '"'
+        continue
+      } else if (char === '"') {
+        // Plain quote inside a smart-quoted string
+        result += '\\"'
+        continue
+      } else if (char === '\n') {
+        result += '\\n'
+        continue
+      } else if (char === '\r' || char === '\t') {
+        result += ' '
+        continue
+      }
+      result += char
+      continue
+    }
+
+    if (char === '"' || char === '“') {
+      inString = true
+      closingQuote = char === '“' ? '”' : '"'
+      result += '"'
+      continue
+    }
+
+    result += char
+
+    if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+      if (stack.length === 0) return result
+    }
+  }
+
+  if (escaped) result = result.slice(0, -1)
+  if (inString) result += '"'
+  return result.replace(/[,:\s]+$/, '') + stack.reverse().join('')
+}
+
+function repairJson(text: string): string {
+  return text
+    .replace(/,\s*([}\]])/g, '$1')
+    .replace(/([{,]\s*)([A-Za-z_][\w-]*)\s*:/g, '$1"$2":')
+    .replace(/([{,]\s*)'([^'\n]*)'\s*:/g, '$1"$2":')
+    .replace(/:\s*'([^'\n]*)'(\s*[,}])/g, ': "$1"$2')
+}
+
+function asText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    value = value.map((item) => normalizeToString(item)).join(' ')
+  }
+  if (typeof value !== 'string') return undefined
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : undefined
+}
+
+function asHashtags(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.map((item) => normalizeToString(item)) : normalizeToString(value).split(/[\s,]+/)
+
+  return raw
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0)
+    .map((tag) => (tag.startsWith('#') ? tag : `#${tag}`))
+}
+
+function toSections(item: unknown): PostSections | null {
+  if (typeof item === 'string') {
+    return splitPostSections(item)
+  }
+  if (!item || typeof item !== 'object') return null
+
+  const record = item as Record<string, unknown>
+  const hook = asText(record.hook)
+  const body = asText(record.body)
+  const cta = asText(record.cta ?? record.callToAction)
+  const content = asText(record.content ?? record.text ?? record.post)
+
+  let sections: PostSections
+  if (hook || body || cta) {
+    sections = { hook, body: body ?? '', cta, hashtags: [] }
+  } else if (content) {
+    sections = splitPostSections(content)
+  } else {
+    return null
+  }
+
+  sections.hashtags = asHashtags(record.hashtags)
+
+  const metadata = record.metadata as Record<string, unknown> | undefined
+  const hookType = typeof metadata?.hookType === 'string' ? metadata.hookType.toLowerCase() : undefined
+  if (hookType && HOOK_TYPES.includes(hookType)) {
+    sections.hookType = hookType
+  }
+
+  // Reject items that couldn't form a valid variant (e.g. nested objects as text)
+  const assembled = joinSections(sections)
+  const check = ContentVariantSchema.safeParse({
+    id: 'structured',
+    content: assembled,
+    hook: sections.hook,
+    body: sections.body || assembled,
+    cta: sections.cta,
+    hashtags: sections.hashtags,
+    metadata: { length: assembled.length, hookType: sections.hookType },
+  })
+
+  return check.success && assembled.length > 0 ? sections : null
+}
+
+/**
+ * Parse hook/body/CTA posts from JSON model output. Accepts an array, a single
+ * object or a `{ variants: [...] }` wrapper. Returns an empty list when the
+ * output isn't usable JSON so callers can fall back to `splitPostSections`.
+ */
+export function parseStructuredPosts(raw: string): PostSections[] {
+  const parsed = extractJson(raw)
+  if (parsed === undefined) return []
+
+  let items: unknown[]
+  if (Array.isArray(parsed)) {
+    items = parsed
+  } else if (parsed && typeof parsed === 'object') {
+    const record = parsed as Record<string, unknown>
+    const wrapped = record.variants ?? record.posts ?? record.replies
+    items = Array.isArray(wrapped) ? wrapped : [parsed]
+  } else {
+    return []
+  }
+
+  return items.map(toSections).filter((sections): sections is PostSections => sections !== null)
+}
+
+function splitSentences(text: string): string[] {
+  const matches = text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g) ?? []
+  return matches.map((sentence) => sentence.trim()).filter((sentence) => sentence.length > 0)
+}
+
+export function looksLikeCta(text: string): boolean {
+  return /\?\s*\S{0,3}$/.test(text.trim()) || CTA_PATTERN.test(text)
+}
+
+/**
+ * Heuristic split for prose output: labelled `Hook:`/`Body:`/`CTA:` sections
+ * when present, otherwise first sentence as hook and a closing question or
+ * call to action as the CTA.
+ */
+export function splitPostSections(text: string): PostSections {
+  const normalized = normalizeToString(text).trim()
+
+  const labelled = normalized.split(/^\s*\**\s*(Hook|Body|CTA|Call to action)\s*\**\s*[:\-]\s*/im)
+  if (labelled.length > 2) {
+    const sections: PostSections = { body: '', hashtags: [] }
+    for (let i = 1; i < labelled.length; i += 2) {
+      const label = labelled[i].toLowerCase()
+      const value = labelled[i + 1]?.trim() ?? ''
+      if (label === 'hook') sections.hook = value || undefined
+      else if (label === 'body') sections.body = value
+      else sections.cta = value || undefined
+    }
+    if (sections.hook || sections.body || sections.cta) return sections
+  }
+
+  const sentences = splitSentences(normalized)
+  if (sentences.length < 2) {
+    return { body: normalized, hashtags: [] }
+  }
+
+  const hook = sentences[0]
+  const rest = sentences.slice(1)
+  const last = rest[rest.length - 1]
+  const cta = rest.length > 1 && looksLikeCta(last) ? last : undefined
+  const body = (cta ? rest.slice(0, -1) : rest).join(' ')
+
+  return { hook, body, cta, hashtags: [] }
+}
+
+export function joinSections(sections: { hook?: string; body?: string; cta?: string }): string {
+  return [sections.hook, sections.body, sections.cta]
+    .filter((part): part is string => Boolean(part && part.trim()))
+    .join(' ')
+    .trim()
+}
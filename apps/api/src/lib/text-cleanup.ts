@@ -0,0 +1,53 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+/**
+ * Decode the HTML entities social exports leave in post text (X escapes
+ * `<`, `>` and `&`, so "<3" arrives as "&lt;3"). Unknown entities are kept.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+// Windows-1252 characters in the 0x80-0x9F range, by byte
+const CP1252_BYTES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+}
+
+const CONTINUATION = `[\\u0080-\\u00bf${Object.keys(CP1252_BYTES).join('')}]`
+// A UTF-8 lead byte followed by continuation bytes, read as Latin-1 or Windows-1252
+const MOJIBAKE_RUN = new RegExp(`[\\u00c2-\\u00f4]${CONTINUATION}+`, 'g')
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Repair UTF-8 text that was decoded as Latin-1 or Windows-1252 somewhere
+ * along the way: Instagram's JSON export does this to every non-ASCII
+ * character ("ð\u009f\u0098\u0080" for 😀), and spreadsheet round-trips turn
+ * "’" into "â€™". Runs that don't decode as valid UTF-8 are left untouched.
+ */
+export function repairMojibake(text: string): string {
+  return text.replace(MOJIBAKE_RUN, (run) => {
+    const bytes = Array.from(run, (char) => CP1252_BYTES[char] ?? char.charCodeAt(0))
+    try {
+      return utf8.decode(Uint8Array.from(bytes))
+    } catch {
+      return run
+    }
+  })
+}
@@ -0,0 +1,290 @@
+import { ContentRequest, ContentVariant, ThreadNumbering, ThreadOptions, ThreadTweet } from './types'
+import { applyOutputLimits, countTokens, normalizeToString } from './token-utils'
+import { formatExemplars } from './exemplars'
+
+type CtaStyle = NonNullable<ThreadOptions['ctaStyle']>
+
+const CTA_GUIDANCE: Record<CtaStyle, string> = {
+  direct: 'tell the reader exactly what to do next (follow, bookmark, repost or reply)',
+  soft: 'invite the reader to engage without any pressure',
+  'question-based': 'end with a genuine question that invites replies',
+}
+
+// Used when the model forgets the closing tweet or it doesn't match the persona's style
+const FALLBACK_CTA: Record<CtaStyle, string> = {
+  direct: 'Follow for more breakdowns like this, and bookmark this thread to come back to it.',
+  soft: 'If this was useful, a repost helps someone else find it. Thanks for reading.',
+  'question-based': "What's your take on this? I read every reply.",
+}
+
+const DIRECT_CTA_PATTERN = /\b(follow|bookmark|save|share|repost|retweet|reply|comment|subscribe|dm|join|try|grab|check out|sign up)\b/i
+
+export function getThreadOptions(request: ContentRequest): Required<ThreadOptions> {
+  const thread = request.options.thread
+
+  return {
+    tweets: thread?.tweets ?? 5,
+    numbering: thread?.numbering ?? 'fraction',
+    ctaStyle: thread?.ctaStyle ?? 'direct',
+  }
+}
+
+export function isThreadRequest(request: ContentRequest): boolean {
+  return request.type === 'thread'
+}
+
+/**
+ * Characters kept free in every tweet for the numbering marker.
+ */
+export function numberingReserve(numbering: ThreadNumbering, tweets: number): number {
+  switch (numbering) {
+    case 'slash':
+      return `${tweets}/ `.length
+    case 'fraction':
+      return `${tweets}/${tweets} `.length
+    case 'emoji':
+      return ' 🧵'.length
+    default:
+      return 0
+  }
+}
+
+export function buildThreadPrompt(
+  request: ContentRequest,
+  charLimit: number,
+  tokenLimit: number,
+  hookStyle: string
+): string {
+  const { tweets, numbering, ctaStyle } = getThreadOptions(request)
+  const perTweetLimit = charLimit - numberingReserve(numbering, tweets)
+  const includeHashtags = request.options?.includeHashtags ?? false
+  const includeEmojis = request.options?.includeEmojis ?? false
+
+  const rules: string[] = [
+    `- Write exactly ${tweets} tweets.`,
+    `- Tweet 1 is the hook: make the reader want to open the thread. Style hint: ${hookStyle}.`,
+    ...(tweets > 2 ? [`- Tweets 2-${tweets - 1} each develop one point, in a clear progression.`] : []),
+    `- Tweet ${tweets} is the closing call to action: ${CTA_GUIDANCE[ctaStyle]}.`,
+    `- Keep every tweet under ${perTweetLimit} characters (approx ${tokenLimit} tokens).`,
+    '- Do not number the tweets; numbering is added automatically.',
+    '- Put a line containing only --- between tweets.',
+    '- Return ONLY the tweets. No headings, labels, or commentary.',
+  ]
+
+  rules.push(includeHashtags ? '- At most 1-2 hashtags in the whole thread, only in the last tweet.' : '- Do not include hashtags.')
+  rules.push(includeEmojis ? '- Emojis are allowed; use them sparingly.' : '- Do not use emojis.')
+
+  const examples = request.exemplars?.length ? `\n${formatExemplars(request.exemplars)}` : ''
+
+  return `You are writing an X (Twitter) thread.
+${rules.join('\n')}
+${examples}
+Topic: "${request.input}"
+
+Produce the thread now.`
+}
+
+/**
+ * Split raw model output into tweet texts. Accepts `---` separators, numbered
+ * tweets ("1/", "2.", "3)") or blank-line separated paragraphs.
+ */
+export function splitThread(raw: string): string[] {
+  let text = normalizeToString(raw).trim()
+  text = text.replace(/^```(?:[a-zA-Z]+)?\s*([\s\S]*?)\s*```$/g, '$1').trim()
+
+  let parts: string[]
+  if (/^\s*-{3,}\s*$/m.test(text)) {
+    parts = text.split(/^\s*-{3,}\s*$/m)
+  } else if (/^\s*(?:tweet\s*)?\d+\s*(?:\/\d*|[.):])\s+/im.test(text)) {
+    parts = text.split(/^(?=\s*(?:tweet\s*)?\d+\s*(?:\/\d*|[.):])\s+)/im)
+  } else {
+    parts = text.split(/\n\s*\n/)
+  }
+
+  return parts.map(cleanTweet).filter((part) => part.length > 0)
+}
+
+function cleanTweet(text: string): string {
+  return text
+    .trim()
+    .replace(/^(?:tweet\s*)?\d+\s*(?:\/\d*|[.):])\s*/i, '')
+    .replace(/^🧵\s*/u, '')
+    .replace(/\s*🧵$/u, '')
+    .replace(/^['"`]+|['"`]+$/g, '')
+    .replace(/\b(?:Hook|Body|CTA)\s*[:\-]\s*/gi, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim()
+}
+
+function matchesCtaStyle(text: string, ctaStyle: CtaStyle): boolean {
+  switch (ctaStyle) {
+    case 'question-based':
+      return /\?\s*\S{0,3}$/.test(text.trim())
+    case 'direct':
+      return DIRECT_CTA_PATTERN.test(text)
+    default:
+      return true
+  }
+}
+
+function applyNumbering(tweets: string[], numbering: ThreadNumbering): string[] {
+  const total = tweets.length
+
+  return tweets.map((tweet, index) => {
+    switch (numbering) {
+      case 'slash':
+        return `${index + 1}/ ${tweet}`
+      case 'fraction':
+        return `${index + 1}/${total} ${tweet}`
+      case 'emoji':
+        return index === 0 ? `${tweet} 🧵` : tweet
+      default:
+        return tweet
+    }
+  })
+}
+
+function stripDisallowed(text: string, request: ContentRequest): string {
+  let result = text
+  if (!(request.options?.includeEmojis ?? false)) {
+    result = result.replace(/\p{Extended_Pictographic}/gu, '')
+  }
+  if (!(request.options?.includeHashtags ?? false)) {
+    result = result.replace(/(?:^|\s)#[^\s#]+/g, (match) => (match.startsWith(' ') ? ' ' : ''))
+  }
+  return result.replace(/[ \t]{2,}/g, ' ').trim()
+}
+
+function toThreadTweets(texts: string[]): ThreadTweet[] {
+  return texts.map((text, index) => ({
+    index: index + 1,
+    role: index === 0 ? 'hook' : index === texts.length - 1 ? 'cta' : 'body',
+    text,
+    length: text.length,
+    tokenLength: countTokens(text),
+  }))
+}
+
+/**
+ * Recompute a thread variant's combined fields after its tweets changed.
+ */
+export function syncThreadVariant(variant: ContentVariant, tweets: ThreadTweet[]): ContentVariant {
+  variant.thread = tweets
+  variant.content = tweets.map((tweet) => tweet.text).join('\n\n')
+  variant.hook = tweets[0]?.text
+  variant.body = tweets.slice(1, -1).map((tweet) => tweet.text).join('\n\n') || variant.content
+  variant.cta = tweets.length > 1 ? tweets[tweets.length - 1].text : undefined
+  variant.metadata.length = variant.content.length
+  variant.metadata.tokenLength = countTokens(variant.content)
+  return variant
+}
+
+/**
+ * Turn raw model output into a numbered thread variant, closing with a CTA
+ * tweet in the persona's style. A closing tweet in the wrong style is
+ * replaced; one that is missing entirely is added.
+ */
+export function buildThreadVariant(raw: string, variantId: string, request: ContentRequest): ContentVariant {
+  const { tweets: count, numbering, ctaStyle } = getThreadOptions(request)
+
+  const tweets = splitThread(raw)
+    .map((tweet) => stripDisallowed(tweet, request))
+    .filter((tweet) => tweet.length > 0)
+
+  if (tweets.length > 0 && !matchesCtaStyle(tweets[tweets.length - 1], ctaStyle)) {
+    // Appending to a full thread would number it past the width numberingReserve kept free
+    if (tweets.length >= count) {
+      tweets[tweets.length - 1] = FALLBACK_CTA[ctaStyle]
+    } else {
+      tweets.push(FALLBACK_CTA[ctaStyle])
+    }
+  }
+
+  const hashtags = (request.options?.includeHashtags ?? false)
+    ? Array.from(new Set(tweets.join(' ').match(/#[^\s#]+/g) ?? []))
+    : []
+
+  const variant: ContentVariant = {
+    id: variantId,
+    content: '',
+    body: '',
+    hashtags,
+    metadata: {
+      length: 0,
+      sentiment: 'positive',
+      hookType: 'thread',
+    },
+  }
+
+  return syncThreadVariant(variant, toThreadTweets(applyNumbering(tweets, numbering)))
+}
+
+export function threadFitsLimits(
+  variant: ContentVariant,
+  charLimit: number,
+  tokenLimit: number,
+  tweets: number
+): boolean {
+  const thread = variant.thread ?? []
+  return (
+    thread.length >= 2 &&
+    thread.length === tweets &&
+    thread.every((tweet) => tweet.length <= charLimit && tweet.tokenLength <= tokenLimit)
+  )
+}
+
+/**
+ * Describe how the thread broke the limits, for the re-prompt.
+ */
+export function describeThreadOverflow(
+  variant: ContentVariant,
+  charLimit: number,
+  tokenLimit: number,
+  tweets: number
+): string {
+  const thread = variant.thread ?? []
+  if (thread.length < 2) {
+    return 'Your previous attempt did not contain separate tweets.'
+  }
+  if (thread.length !== tweets) {
+    return `Your previous attempt had ${thread.length} tweets instead of ${tweets}.`
+  }
+
+  const tooLong = thread
+    .filter((tweet) => tweet.length > charLimit || tweet.tokenLength > tokenLimit)
+    .map((tweet) => `tweet ${tweet.index} (${tweet.length} chars)`)
+
+  return `In your previous attempt these tweets were too long: ${tooLong.join(', ')}.`
+}
+
+/**
+ * Clamp every tweet to the per-tweet limits (last resort after retries).
+ */
+export function clampThread(variant: ContentVariant, charLimit: number, tokenLimit: number): ContentVariant {
+  const originalContent = variant.content
+  let charOverflow = 0
+  let tokenOverflow = 0
+
+  const tweets = (variant.thread ?? [])
+    .map((tweet) => {
+      const limits = applyOutputLimits(tweet.text, { maxLength: charLimit, maxTokens: tokenLimit })
+      charOverflow = Math.max(charOverflow, limits.charOverflow)
+      tokenOverflow = Math.max(tokenOverflow, limits.tokenOverflow)
+      return { ...tweet, text: limits.text, length: limits.text.length, tokenLength: limits.tokens }
+    })
+    .filter((tweet) => tweet.text.trim().length > 0)
+
+  syncThreadVariant(variant, tweets)
+
+  if (charOverflow > 0 || tokenOverflow > 0) {
+    variant.metadata.wasTruncated = true
+    variant.metadata.originalLength = originalContent.length
+    variant.metadata.originalContent = originalContent
+    if (charOverflow > 0) variant.metadata.overLimit = charOverflow
+    if (tokenOverflow > 0) variant.metadata.overTokenLimit = tokenOverflow
+  }
+
+  return variant
+}
@@ -1,5 +1,29 @@
 import { z } from 'zod'
 
+// LLM provider selection (persona defaults, overridable per request)
+export const LlmSelectionSchema = z.object({
+  provider: z.enum(['ollama', 'openai-compatible', 'fake']).optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(8192).optional(),
+  topP: z.number().min(0).max(1).optional()
+})
+
+export type LlmSelection = z.infer<typeof LlmSelectionSchema>
+
+// Per-platform persona settings; options set on a request take precedence
+export const PlatformSettingsSchema = z.object({
+  maxLength: z.number().int().min(1).max(10000).optional(),
+  maxTokens: z.number().int().min(1).max(8192).optional(),
+  includeHashtags: z.boolean().optional(),
+  includeEmojis: z.boolean().optional(),
+  hookPatterns: z.array(z.string()).optional(),
+  ctaStyle: z.enum(['direct', 'soft', 'question-based']).optional(),
+  language: z.string().min(1).optional()
+})
+
+export type PlatformSettings = z.infer<typeof PlatformSettingsSchema>
+
 // Persona Configuration
 export const PersonaSchema = z.object({
   id: z.string(),
@@ -10,11 +34,76 @@ export const PersonaSchema = z.object({
   donts: z.array(z.string()),
   hookPatterns: z.array(z.string()),
   ctaStyle: z.enum(['direct', 'soft', 'question-based']),
-  platforms: z.record(z.any()).default({})
+  platforms: z.record(PlatformSettingsSchema).default({}),
+  llm: LlmSelectionSchema.default({})
 })
 
 export type Persona = z.infer<typeof PersonaSchema>
 
+// Portable persona file ("voiceprint") for sharing personas across accounts
+export const VoiceprintSamplePostSchema = z.object({
+  content: z.string().min(1).max(10000),
+  platform: z.enum(['twitter', 'linkedin', 'instagram']).optional(),
+  postedAt: z.string().optional()
+})
+
+export const VoiceprintPersonaSchema = PersonaSchema.omit({ id: true }).extend({
+  tone: z.array(z.string()).min(1),
+  samplePosts: z.array(VoiceprintSamplePostSchema).max(50).default([])
+})
+
+export const VoiceprintSchema = z.object({
+  format: z.literal('voiceprint'),
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  personas: z.array(VoiceprintPersonaSchema).min(1).max(100)
+})
+
+export type VoiceprintPersona = z.infer<typeof VoiceprintPersonaSchema>
+export type Voiceprint = z.infer<typeof VoiceprintSchema>
+
+// Thread numbering: "1/", "1/5", a 🧵 on the hook tweet, or nothing
+export const ThreadNumberingSchema = z.enum(['slash', 'fraction', 'emoji', 'none'])
+
+export type ThreadNumbering = z.infer<typeof ThreadNumberingSchema>
+
+export const ThreadOptionsSchema = z.object({
+  tweets: z.number().int().min(2).max(15).default(5),
+  numbering: ThreadNumberingSchema.default('fraction'),
+  ctaStyle: PersonaSchema.shape.ctaStyle.optional()
+})
+
+export type ThreadOptions = z.infer<typeof ThreadOptionsSchema>
+
+// Reply Generation
+export const ConversationMessageSchema = z.object({
+  author: z.string(),
+  content: z.string(),
+  timestamp: z.string().optional()
+})
+
+export type ConversationMessage = z.infer<typeof ConversationMessageSchema>
+
+export const ReplyContextSchema = z.object({
+  originalPost: z.object({
+    content: z.string(),
+    author: z.string(),
+    platform: z.string(),
+    engagement: z.object({
+      likes: z.number(),
+      shares: z.number(),
+      comments: z.number()
+    }).optional()
+  }),
+  replyGoal: z.enum(['engage', 'add_value', 'question', 'support', 'correct']),
+  maxLength: z.number().default(280),
+  // Whole conversation, oldest first; originalPost is thread[replyToIndex]
+  thread: z.array(ConversationMessageSchema).optional(),
+  replyToIndex: z.number().optional()
+})
+
+export type ReplyContext = z.infer<typeof ReplyContextSchema>
+
 // Content Generation
 export const ContentRequestSchema = z.object({
   type: z.enum(['brain_dump', 'compose', 'reply', 'thread']),
@@ -27,12 +116,71 @@ export const ContentRequestSchema = z.object({
     maxTokens: z.number().min(1).max(2000).optional(),
     includeHashtags: z.boolean().default(false),
     includeEmojis: z.boolean().default(false),
-    tone: z.string().optional()
-  }).default({})
+    tone: z.string().optional(),
+    llm: LlmSelectionSchema.optional(),
+    thread: ThreadOptionsSchema.optional()
+  }).default({}),
+  // Only for type 'reply'
+  replyContext: ReplyContextSchema.optional(),
+  // Persona posts shown to the model as few-shot voice examples
+  exemplars: z.array(z.string()).optional()
 })
 
 export type ContentRequest = z.infer<typeof ContentRequestSchema>
 
+export const ThreadTweetSchema = z.object({
+  index: z.number(),
+  role: z.enum(['hook', 'body', 'cta']),
+  text: z.string(),
+  length: z.number(),
+  tokenLength: z.number()
+})
+
+export type ThreadTweet = z.infer<typeof ThreadTweetSchema>
+
+// Persona compliance: rule-based detectors plus an optional LLM judge
+export const ComplianceViolationSchema = z.object({
+  rule: z.string(),
+  source: z.enum(['rule', 'judge']),
+  severity: z.enum(['error', 'warning']),
+  message: z.string()
+})
+
+export type ComplianceViolation = z.infer<typeof ComplianceViolationSchema>
+
+export const ComplianceReportSchema = z.object({
+  score: z.number().min(0).max(100),
+  passed: z.boolean(),
+  violations: z.array(ComplianceViolationSchema).default([])
+})
+
+export type ComplianceReport = z.infer<typeof ComplianceReportSchema>
+
+// Algorithm Analysis
+export const AlgoAnalysisSchema = z.object({
+  content: z.string(),
+  riskScore: z.number().min(0).max(100),
+  boostScore: z.number().min(0).max(100),
+  band: z.enum(['green', 'yellow', 'red']),
+  suggestions: z.array(z.object({
+    type: z.string(),
+    description: z.string(),
+    impact: z.enum(['low', 'medium', 'high']),
+    edit: z.string()
+  })),
+  factors: z.object({
+    linkDensity: z.number(),
+    hashtagCount: z.number(),
+    hashtagDensity: z.number(),
+    length: z.number(),
+    lengthFit: z.number().min(0).max(100),
+    sentiment: z.string(),
+    readability: z.number()
+  })
+})
+
+export type AlgoAnalysis = z.infer<typeof AlgoAnalysisSchema>
+
 export const ContentVariantSchema = z.object({
   id: z.string(),
   content: z.string(),
@@ -40,6 +188,7 @@ export const ContentVariantSchema = z.object({
   body: z.string(),
   cta: z.string().optional(),
   hashtags: z.array(z.string()).default([]),
+  thread: z.array(ThreadTweetSchema).optional(),
   metadata: z.object({
     length: z.number(),
     sentiment: z.string().optional(),
@@ -50,7 +199,16 @@ export const ContentVariantSchema = z.object({
     overLimit: z.number().optional(),
     overTokenLimit: z.number().optional(),
     originalContent: z.string().optional(),
-    tokenLength: z.number().optional()
+    tokenLength: z.number().optional(),
+    compliance: ComplianceReportSchema.optional(),
+    algo: AlgoAnalysisSchema.omit({ content: true }).optional(),
+    // Set when the draft closely repeats something the persona already posted
+    duplicate: z.object({
+      similarity: z.number(),
+      content: z.string(),
+      source: z.enum(['post', 'upload']),
+      postedAt: z.string().optional()
+    }).optional()
   })
 })
 
@@ -63,7 +221,14 @@ export const GenerationResultSchema = z.object({
   metadata: z.object({
     personaUsed: z.string(),
     processingTime: z.number(),
-    model: z.string().optional()
+    model: z.string().optional(),
+    provider: z.string().optional(),
+    variantTimings: z.array(z.object({
+      variantId: z.string(),
+      attempts: z.number(),
+      queuedMs: z.number(),
+      durationMs: z.number()
+    })).optional()
   })
 })
 
@@ -83,43 +248,34 @@ export const JobSchema = z.object({
 
 export type Job = z.infer<typeof JobSchema>
 
-// Algorithm Analysis
-export const AlgoAnalysisSchema = z.object({
-  content: z.string(),
-  riskScore: z.number().min(0).max(100),
-  boostScore: z.number().min(0).max(100),
-  band: z.enum(['green', 'yellow', 'red']),
-  suggestions: z.array(z.object({
-    type: z.string(),
-    description: z.string(),
-    impact: z.enum(['low', 'medium', 'high']),
-    edit: z.string()
-  })),
-  factors: z.object({
-    linkDensity: z.number(),
-    hashtagCount: z.number(),
-    length: z.number(),
-    sentiment: z.string(),
-    readability: z.number()
-  })
+// CSV upload column mapping: upload field -> column name in the file
+export const ColumnMappingSchema = z.object({
+  content: z.string().min(1),
+  date: z.string().min(1).optional(),
+  likes: z.string().min(1).optional(),
+  retweets: z.string().min(1).optional(),
+  replies: z.string().min(1).optional(),
+  quotes: z.string().min(1).optional(),
+  views: z.string().min(1).optional(),
+  bookmarks: z.string().min(1).optional(),
+  url: z.string().min(1).optional(),
+  type: z.string().min(1).optional()
 })
 
-export type AlgoAnalysis = z.infer<typeof AlgoAnalysisSchema>
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>
 
-// Reply Generation
-export const ReplyContextSchema = z.object({
-  originalPost: z.object({
-    content: z.string(),
-    author: z.string(),
-    platform: z.string(),
-    engagement: z.object({
-      likes: z.number(),
-      shares: z.number(),
-      comments: z.number()
-    }).optional()
-  }),
-  replyGoal: z.enum(['engage', 'add_value', 'question', 'support', 'correct']),
-  maxLength: z.number().default(280)
+// Upload-time filters that keep analysis to the user's own original posts
+export const UploadFiltersSchema = z.object({
+  excludeReplies: z.boolean().default(true),
+  excludeRetweets: z.boolean().default(true),
+  excludeQuotes: z.boolean().default(true),
+  excludeOtherAuthors: z.boolean().default(true),
+  // Whose posts to keep; defaults to the most common author in the file
+  authorUsername: z.string().min(1).optional(),
+  stripMentionsAndLinks: z.boolean().default(true),
+  minLength: z.number().int().min(0).max(1000).default(0),
+  // Language codes to keep, e.g. ["en"]; posts without a known language are kept
+  languages: z.array(z.string().min(1)).default([])
 })
 
-export type ReplyContext = z.infer<typeof ReplyContextSchema>
+export type UploadFilters = z.infer<typeof UploadFiltersSchema>
@@ -0,0 +1,125 @@
+import { UploadFilters } from './types'
+
+export interface FilterablePost {
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+export type FilterReason = 'retweets' | 'replies' | 'quotes' | 'otherAuthors' | 'language' | 'tooShort'
+
+export interface FilterReport {
+  total: number
+  kept: number
+  // Each dropped row is counted once, under the first filter that matched it
+  dropped: Record<FilterReason, number>
+  author?: string
+  filters: UploadFilters
+}
+
+// X marks posts with no detectable language as und, zxx (media only) or qme/qht (links, hashtags)
+const UNDETERMINED_LANGUAGES = ['und', 'zxx', 'qme', 'qht', 'qam', 'qct', 'qst']
+
+const LEADING_MENTIONS = /^(?:\s*[@＠]\w+(?=[\s:,]|$))+[\s:,]*/
+const SHORT_LINKS = /\s*https?:\/\/t\.co\/\w+/g
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function normalizeAuthor(value: unknown): string {
+  return text(value).replace(/^@/, '').toLowerCase()
+}
+
+// The baseline language code: "en-GB" -> "en"
+function baseLanguage(value: unknown): string {
+  return text(value).toLowerCase().split(/[-_]/)[0]
+}
+
+/**
+ * Remove reply-style @mentions at the start of a post and t.co short links,
+ * which say nothing about how the author writes
+ */
+export function stripMentionsAndLinks(content: string): string {
+  return content.replace(LEADING_MENTIONS, '').replace(SHORT_LINKS, '').trim()
+}
+
+function classify(post: FilterablePost): 'retweet' | 'reply' | 'quote' | null {
+  const type = text(post.metadata?.type).toLowerCase()
+  if (/retweet|repost/.test(type) || post.content.startsWith('RT @')) return 'retweet'
+  if (/repl/.test(type) || text(post.metadata?.inReplyToId)) return 'reply'
+  if (/quote/.test(type)) return 'quote'
+  return null
+}
+
+function mostCommonAuthor(posts: FilterablePost[]): string | undefined {
+  const counts = new Map<string, number>()
+  for (const post of posts) {
+    const author = normalizeAuthor(post.metadata?.author)
+    if (author) counts.set(author, (counts.get(author) ?? 0) + 1)
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+}
+
+/**
+ * Keep the user's own original posts, cleaned up for analysis, and count what
+ * each filter dropped
+ */
+export function applyUploadFilters<T extends FilterablePost>(
+  posts: T[],
+  filters: UploadFilters
+): { posts: T[]; report: FilterReport } {
+  const dropped: Record<FilterReason, number> = {
+    retweets: 0,
+    replies: 0,
+    quotes: 0,
+    otherAuthors: 0,
+    language: 0,
+    tooShort: 0,
+  }
+  const author = filters.excludeOtherAuthors
+    ? normalizeAuthor(filters.authorUsername) || mostCommonAuthor(posts)
+    : undefined
+  const languages = filters.languages.map(baseLanguage).filter(Boolean)
+
+  const kept: T[] = []
+  for (const post of posts) {
+    const kind = classify(post)
+    if (kind === 'retweet' && filters.excludeRetweets) {
+      dropped.retweets++
+      continue
+    }
+    if (kind === 'reply' && filters.excludeReplies) {
+      dropped.replies++
+      continue
+    }
+    if (kind === 'quote' && filters.excludeQuotes) {
+      dropped.quotes++
+      continue
+    }
+
+    const postAuthor = normalizeAuthor(post.metadata?.author)
+    if (author && postAuthor && postAuthor !== author) {
+      dropped.otherAuthors++
+      continue
+    }
+
+    const language = baseLanguage(post.metadata?.language)
+    if (languages.length > 0 && language && !UNDETERMINED_LANGUAGES.includes(language) && !languages.includes(language)) {
+      dropped.language++
+      continue
+    }
+
+    const content = filters.stripMentionsAndLinks ? stripMentionsAndLinks(post.content) : post.content.trim()
+    if (!content || content.length < filters.minLength) {
+      dropped.tooShort++
+      continue
+    }
+
+    kept.push({ ...post, content })
+  }
+
+  return {
+    posts: kept,
+    report: { total: posts.length, kept: kept.length, dropped, author, filters },
+  }
+}
@@ -0,0 +1,51 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { Voiceprint, VoiceprintPersona, VoiceprintSchema } from './types'
+
+export type VoiceprintFormat = 'json' | 'yaml'
+
+export const VOICEPRINT_VERSION = 1
+
+export function buildVoiceprint(personas: VoiceprintPersona[]): Voiceprint {
+  return {
+    format: 'voiceprint',
+    version: VOICEPRINT_VERSION,
+    exportedAt: new Date().toISOString(),
+    personas,
+  }
+}
+
+export function serializeVoiceprint(voiceprint: Voiceprint, format: VoiceprintFormat): string {
+  if (format === 'yaml') {
+    return `# Voiceprint v${voiceprint.version}: persona voice settings, importable on the Personas page\n${stringifyYaml(voiceprint)}`
+  }
+
+  return `${JSON.stringify(voiceprint, null, 2)}\n`
+}
+
+/**
+ * Parse a voiceprint file in either format (JSON is detected by its leading
+ * brace) and validate it against the persona schema.
+ */
+export function parseVoiceprint(content: string): Voiceprint {
+  const text = content.trim()
+  let data: unknown
+
+  try {
+    data = text.startsWith('{') ? JSON.parse(text) : parseYaml(text)
+  } catch (error) {
+    // YAML errors go on to quote the offending lines; the first line says what's wrong
+    const reason = error instanceof Error ? error.message.split('\n')[0] : 'unreadable file'
+    throw new Error(`Invalid voiceprint: ${text.startsWith('{') ? 'not valid JSON' : reason}`)
+  }
+
+  const parsed = VoiceprintSchema.safeParse(data)
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Invalid voiceprint: ${issues}`)
+  }
+
+  return parsed.data
+}
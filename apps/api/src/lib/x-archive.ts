@@ -0,0 +1,141 @@
+import { ZipEntry, isZip, listZipEntries, readZipEntries } from './zip'
+
+/**
+ * Reader for the official X/Twitter data archive. Tweets live in
+ * `data/tweets.js` (older archives: `data/tweet.js`, large ones add
+ * `tweets-part1.js`...) as a `window.YTD.tweets.part0 = [...]` script.
+ */
+
+interface ArchiveTweet {
+  id_str?: string
+  id?: string
+  full_text?: string
+  text?: string
+  created_at?: string
+  lang?: string
+  favorite_count?: string | number
+  retweet_count?: string | number
+  retweeted?: boolean
+  in_reply_to_status_id_str?: string
+  in_reply_to_user_id_str?: string
+  in_reply_to_screen_name?: string
+  entities?: {
+    hashtags?: Array<{ text?: string }>
+    user_mentions?: Array<{ screen_name?: string }>
+    urls?: Array<{ url?: string; expanded_url?: string }>
+  }
+}
+
+const TWEETS_FILE = /(^|\/)data\/tweets?(-part\d+)?\.js$/i
+const ACCOUNT_FILE = /(^|\/)data\/account\.js$/i
+const STATUS_URL = /^https?:\/\/(www\.)?(twitter|x)\.com\/[^/]+\/status\/\d+/i
+
+const MONTHS: Record<string, string> = {
+  Jan: '01', Feb: '02', Mar: '03', Apr: '04', May: '05', Jun: '06',
+  Jul: '07', Aug: '08', Sep: '09', Oct: '10', Nov: '11', Dec: '12',
+}
+
+export function isXArchive(entries: ZipEntry[]): boolean {
+  return entries.some((entry) => TWEETS_FILE.test(entry.name))
+}
+
+/**
+ * Parse one `window.YTD.<name>.partN = [...]` file into its items
+ */
+export function parseYtdScript<T = unknown>(script: string): T[] {
+  const start = script.indexOf('[')
+  if (!/^\s*window\.YTD\.\w+\.part\d+\s*=/.test(script.replace(/^﻿/, '')) || start < 0) {
+    throw new Error('Not an X archive data file: expected "window.YTD.<name>.part0 = [...]"')
+  }
+
+  try {
+    const items = JSON.parse(script.slice(start).trim().replace(/;$/, ''))
+    if (!Array.isArray(items)) throw new Error('not an array')
+    return items as T[]
+  } catch {
+    throw new Error('X archive data file is not valid JSON')
+  }
+}
+
+// "Wed Mar 04 23:50:37 +0000 2025" -> "2025-03-04T23:50:37+00:00"
+function parseArchiveDate(value?: string): string {
+  const match = value?.match(/^\w{3} (\w{3}) (\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2}) (\d{4})$/)
+  if (!match || !MONTHS[match[1]]) return value ?? ''
+  return `${match[6]}-${MONTHS[match[1]]}-${match[2]}T${match[3]}${match[4]}:${match[5]}`
+}
+
+function tweetType(tweet: ArchiveTweet, text: string): string {
+  if (tweet.retweeted || text.startsWith('RT @')) return 'Retweet'
+  if (tweet.in_reply_to_status_id_str) return 'Reply'
+  if (tweet.entities?.urls?.some((url) => STATUS_URL.test(url.expanded_url ?? ''))) return 'Quote'
+  return 'Tweet'
+}
+
+/**
+ * Flatten archive tweets into rows with the same columns as X CSV exports,
+ * so they go through the regular upload pipeline.
+ */
+export function tweetsToRows(items: unknown[], username?: string): Record<string, string>[] {
+  const rows: Record<string, string>[] = []
+
+  for (const item of items) {
+    const tweet = ((item as { tweet?: ArchiveTweet })?.tweet ?? item) as ArchiveTweet
+    const text = tweet.full_text ?? tweet.text ?? ''
+    if (!text.trim()) continue
+
+    const id = tweet.id_str ?? tweet.id ?? ''
+    const entities = tweet.entities ?? {}
+
+    rows.push({
+      ID: id,
+      Text: text,
+      Language: tweet.lang ?? '',
+      Type: tweetType(tweet, text),
+      'Author Username': username ?? '',
+      'Favorite Count': String(tweet.favorite_count ?? 0),
+      'Retweet Count': String(tweet.retweet_count ?? 0),
+      'Created At': parseArchiveDate(tweet.created_at),
+      'Tweet URL': username && id ? `https://x.com/${username}/status/${id}` : '',
+      'In Reply To': tweet.in_reply_to_screen_name ?? '',
+      'In Reply To Status ID': tweet.in_reply_to_status_id_str ?? '',
+      Hashtags: (entities.hashtags ?? []).map((tag) => tag.text).filter(Boolean).join(','),
+      Mentions: (entities.user_mentions ?? []).map((mention) => mention.screen_name).filter(Boolean).join(','),
+      URLs: (entities.urls ?? []).map((url) => url.expanded_url ?? url.url).filter(Boolean).join(','),
+    })
+  }
+
+  return rows
+}
+
+/**
+ * Read tweets from an uploaded archive ZIP or a bare `tweets.js` file
+ */
+export function readXArchive(buffer: Buffer): Record<string, string>[] {
+  if (!isZip(buffer)) {
+    return tweetsToRows(parseYtdScript(buffer.toString('utf8')))
+  }
+
+  const entries = listZipEntries(buffer)
+  const tweetFiles = entries.filter((entry) => TWEETS_FILE.test(entry.name))
+  if (tweetFiles.length === 0) {
+    throw new Error('No data/tweets.js found in the archive. Upload the ZIP from X, or data/tweets.js on its own.')
+  }
+
+  // The account file is extracted under the same overall limit as the tweets
+  const accountFile = entries.find((entry) => ACCOUNT_FILE.test(entry.name))
+  const files = readZipEntries(buffer, accountFile ? [...tweetFiles, accountFile] : tweetFiles)
+
+  let username: string | undefined
+  if (accountFile) {
+    try {
+      const [account] = parseYtdScript<{ account?: { username?: string } }>(files[tweetFiles.length].toString('utf8'))
+      username = account?.account?.username
+    } catch {
+      // The account file only provides tweet URLs
+    }
+  }
+
+  return files
+    .slice(0, tweetFiles.length)
+    .flatMap((data) => tweetsToRows(parseYtdScript(data.toString('utf8')), username))
+}
@@ -0,0 +1,124 @@
+import { inflateRawSync } from 'zlib'
+
+/**
+ * Minimal ZIP reader for data exports: reads the central directory and
+ * extracts stored or deflated entries. ZIP64, encryption and multi-disk
+ * archives aren't supported.
+ */
+
+export interface ZipEntry {
+  name: string
+  compressedSize: number
+  size: number
+  method: number
+  localHeaderOffset: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Largest entry we will extract; data exports are text, so anything bigger is
+// most likely a zip bomb
+export const MAX_ENTRY_SIZE = 200 * 1024 * 1024
+
+// Largest total we will extract from one archive, so a bomb can't get past the
+// entry limit by spreading its output over many entries
+export const MAX_EXTRACTED_SIZE = 500 * 1024 * 1024
+
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64KB at the very end
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff)
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Invalid ZIP file: end of central directory not found')
+}
+
+export function listZipEntries(buffer: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(buffer)
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP file: corrupt central directory')
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+
+    entries.push({
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Extract one entry. The size from the central directory is checked up front,
+ * and inflation is capped as well since that size can be faked.
+ */
+export function readZipEntry(buffer: Buffer, entry: ZipEntry, maxSize = MAX_ENTRY_SIZE): Buffer {
+  if (entry.size > maxSize) {
+    throw new Error(`${entry.name} is too large to extract (over ${Math.floor(maxSize / 1024 / 1024)}MB)`)
+  }
+
+  const header = entry.localHeaderOffset
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Invalid ZIP file: missing header for ${entry.name}`)
+  }
+
+  // Sizes come from the central directory; local headers may defer them to a data descriptor
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28)
+  const data = buffer.subarray(start, start + entry.compressedSize)
+
+  if (entry.method === 0) return Buffer.from(data)
+  if (entry.method === 8) {
+    try {
+      return inflateRawSync(data, { maxOutputLength: maxSize })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`${entry.name} is too large to extract (over ${Math.floor(maxSize / 1024 / 1024)}MB)`)
+      }
+      throw error
+    }
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`)
+}
+
+/**
+ * Extract several entries under one overall limit. Declared sizes are summed
+ * up front, and each inflation is capped at what is left of the limit.
+ */
+export function readZipEntries(buffer: Buffer, entries: ZipEntry[], maxTotal = MAX_EXTRACTED_SIZE): Buffer[] {
+  const tooLarge = () => new Error(`Archive is too large to extract (over ${Math.floor(maxTotal / 1024 / 1024)}MB in total)`)
+
+  if (entries.reduce((total, entry) => total + entry.size, 0) > maxTotal) throw tooLarge()
+
+  let extracted = 0
+  return entries.map((entry) => {
+    // Inflation needs a limit of at least one byte; overshooting it is caught below
+    const data = readZipEntry(buffer, entry, Math.min(MAX_ENTRY_SIZE, Math.max(maxTotal - extracted, 1)))
+    extracted += data.length
+    if (extracted > maxTotal) throw tooLarge()
+    return data
+  })
+}
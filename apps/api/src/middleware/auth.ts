@@ -1,9 +1,11 @@
 import { FastifyRequest, FastifyReply } from 'fastify'
 import { AuthService } from '../services/auth-service'
+import { RunnerIdentity, RunnerScope, RunnerService } from '../services/runner-service'
 
 const authService = new AuthService()
+const runnerService = new RunnerService()
 
-// Extend FastifyRequest to include user
+// Extend FastifyRequest to include user and runner
 declare module 'fastify' {
   interface FastifyRequest {
     user?: {
@@ -11,6 +13,7 @@ declare module 'fastify' {
       email: string
       name?: string
     }
+    runner?: RunnerIdentity
   }
 }
 
@@ -59,3 +62,37 @@ export async function optionalAuthenticate(request: FastifyRequest, reply: Fasti
     // Silently fail - user is just not authenticated
   }
 }
+
+/**
+ * Runner authentication middleware
+ * Verifies a runner token and attaches the runner to request
+ */
+export async function authenticateRunner(request: FastifyRequest, reply: FastifyReply) {
+  const authHeader = request.headers.authorization
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    reply.code(401)
+    return reply.send({ error: 'Missing or invalid authorization header' })
+  }
+
+  const runner = await runnerService.authenticateToken(authHeader.substring(7))
+
+  if (!runner) {
+    reply.code(401)
+    return reply.send({ error: 'Invalid or revoked runner token' })
+  }
+
+  request.runner = runner
+}
+
+/**
+ * Requires the authenticated runner to hold a scope
+ */
+export function requireRunnerScope(scope: RunnerScope) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    if (!request.runner?.scopes.includes(scope)) {
+      reply.code(403)
+      return reply.send({ error: `Runner token lacks the ${scope} scope` })
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { FastifyPluginAsync } from 'fastify'
+import { AnalyzerPlatform, analyzeAlgo } from '../lib/algo-analyzer'
+import { optionalAuthenticate } from '../middleware/auth'
+
+const suggestionSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    description: { type: 'string' },
+    impact: { type: 'string', enum: ['low', 'medium', 'high'] },
+    edit: { type: 'string', description: 'The full draft with this suggestion applied' }
+  }
+}
+
+const analyzeRoutes: FastifyPluginAsync = async (fastify) => {
+  // Algorithm risk/boost analysis for a draft
+  fastify.post('/api/analyze/algo', {
+    preHandler: optionalAuthenticate,
+    schema: {
+      description: 'Score a draft for feed reach and suggest edits (link/hashtag density, readability, length fit)',
+      tags: ['Analyze'],
+      body: {
+        type: 'object',
+        required: ['content', 'platform'],
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 10000 },
+          platform: { type: 'string', enum: ['twitter', 'linkedin', 'instagram'] },
+          maxLength: {
+            type: 'number',
+            minimum: 1,
+            maximum: 10000,
+            description: 'Character limit to check against (defaults: Twitter=280, LinkedIn=3000, Instagram=2200)'
+          }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            content: { type: 'string' },
+            riskScore: { type: 'number' },
+            boostScore: { type: 'number' },
+            band: { type: 'string', enum: ['green', 'yellow', 'red'] },
+            suggestions: { type: 'array', items: suggestionSchema },
+            factors: {
+              type: 'object',
+              properties: {
+                linkDensity: { type: 'number' },
+                hashtagCount: { type: 'number' },
+                hashtagDensity: { type: 'number' },
+                length: { type: 'number' },
+                lengthFit: { type: 'number' },
+                sentiment: { type: 'string' },
+                readability: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { content, platform, maxLength } = request.body as {
+      content: string
+      platform: AnalyzerPlatform
+      maxLength?: number
+    }
+
+    try {
+      return analyzeAlgo(content, platform, { maxLength })
+    } catch (error) {
+      fastify.log.error({ error }, 'Algorithm analysis failed')
+      reply.code(500)
+      return { error: 'Failed to analyze content' }
+    }
+  })
+}
+
+export default analyzeRoutes
@@ -1,6 +1,95 @@
 import { FastifyPluginAsync } from 'fastify'
-import { ComposerService } from '../services/composer-service'
+import { OutgoingHttpHeaders } from 'http'
+import { ComposerService, GenerationEvent, RepurposeRequest } from '../services/composer-service'
 import { authenticate, optionalAuthenticate } from '../middleware/auth'
+import { LlmSelection } from '../lib/llm'
+import { ThreadNumbering } from '../lib/types'
+import { createDisconnectSignal } from '../lib/disconnect'
+
+const llmSelectionSchema = {
+  type: 'object',
+  description: 'Override the persona/default LLM provider and sampling options for this request',
+  properties: {
+    provider: { type: 'string', enum: ['ollama', 'openai-compatible', 'fake'] },
+    model: { type: 'string' },
+    temperature: { type: 'number', minimum: 0, maximum: 2 },
+    maxTokens: {
+      type: 'number',
+      minimum: 1,
+      maximum: 8192,
+      description: 'Generation cap passed to the provider (Ollama num_predict / OpenAI max_tokens)'
+    },
+    topP: { type: 'number', minimum: 0, maximum: 1 }
+  }
+}
+
+const threadOptionsSchema = {
+  type: 'object',
+  description: 'Generate an X/Twitter thread instead of a single post (limits then apply per tweet)',
+  properties: {
+    tweets: { type: 'number', minimum: 2, maximum: 15, default: 5 },
+    numbering: {
+      type: 'string',
+      enum: ['slash', 'fraction', 'emoji', 'none'],
+      default: 'fraction',
+      description: 'slash = "1/", fraction = "1/5", emoji = 🧵 on the hook tweet'
+    }
+  }
+}
+
+const brainDumpBodySchema = {
+  type: 'object',
+  required: ['input', 'personaId', 'platform'],
+  properties: {
+    input: {
+      type: 'string',
+      description: 'Raw brain dump or ideas to transform'
+    },
+    personaId: {
+      type: 'string',
+      description: 'ID of the persona to use for voice matching'
+    },
+    platform: {
+      type: 'string',
+      enum: ['twitter', 'linkedin', 'instagram'],
+      description: 'Target platform for the content'
+    },
+    options: {
+      type: 'object',
+      properties: {
+        variants: {
+          type: 'number',
+          minimum: 1,
+          maximum: 5,
+          default: 1,
+          description: 'Number of variants to generate'
+        },
+        maxLength: {
+          type: 'number',
+          minimum: 100,
+          maximum: 5000,
+          description: 'Custom character limit (defaults: Twitter=280, LinkedIn=3000, Instagram=2200)'
+        },
+        maxTokens: {
+          type: 'number',
+          minimum: 10,
+          maximum: 2000,
+          description: 'Custom token limit (approx 4 characters per token)'
+        },
+        includeHashtags: {
+          type: 'boolean',
+          description: "Include relevant hashtags (defaults to the persona's platform setting, else false)"
+        },
+        includeEmojis: {
+          type: 'boolean',
+          description: "Allow emojis in the generated content (defaults to the persona's platform setting, else false)"
+        },
+        llm: llmSelectionSchema,
+        thread: threadOptionsSchema
+      }
+    }
+  }
+}
 
 const composerRoutes: FastifyPluginAsync = async (fastify) => {
   const composerService = new ComposerService()
@@ -11,65 +100,14 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
     schema: {
       description: 'Transform brain dump or raw ideas into polished social media posts',
       tags: ['Composer'],
-      body: {
-        type: 'object',
-        required: ['input', 'personaId', 'platform'],
-        properties: {
-          input: {
-            type: 'string',
-            description: 'Raw brain dump or ideas to transform'
-          },
-          personaId: {
-            type: 'string',
-            description: 'ID of the persona to use for voice matching'
-          },
-          platform: {
-            type: 'string',
-            enum: ['twitter', 'linkedin', 'instagram'],
-            description: 'Target platform for the content'
-          },
-          options: {
-            type: 'object',
-            properties: {
-              variants: {
-                type: 'number',
-                minimum: 1,
-                maximum: 5,
-                default: 1,
-                description: 'Number of variants to generate'
-              },
-              maxLength: {
-                type: 'number',
-                minimum: 100,
-                maximum: 5000,
-                description: 'Custom character limit (defaults: Twitter=280, LinkedIn=3000, Instagram=2200)'
-              },
-              maxTokens: {
-                type: 'number',
-                minimum: 10,
-                maximum: 2000,
-                description: 'Custom token limit (approx 4 characters per token)'
-              },
-              includeHashtags: {
-                type: 'boolean',
-                default: false,
-                description: 'Include relevant hashtags'
-              },
-              includeEmojis: {
-                type: 'boolean',
-                default: false,
-                description: 'Allow emojis in the generated content'
-              }
-            }
-          }
-        }
-      },
+      body: brainDumpBodySchema,
       response: {
         200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
             jobId: { type: 'string' },
+            status: { type: 'string' },
             variants: {
               type: 'array',
               items: {
@@ -81,6 +119,19 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
                   body: { type: 'string' },
                   cta: { type: 'string' },
                   hashtags: { type: 'array', items: { type: 'string' } },
+                  thread: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        index: { type: 'number' },
+                        role: { type: 'string' },
+                        text: { type: 'string' },
+                        length: { type: 'number' },
+                        tokenLength: { type: 'number' }
+                      }
+                    }
+                  },
                   metadata: {
                     type: 'object',
                     properties: {
@@ -90,7 +141,57 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
                       wasTruncated: { type: 'boolean' },
                       originalLength: { type: 'number' },
                       overLimit: { type: 'number' },
-                      originalContent: { type: 'string' }
+                      originalContent: { type: 'string' },
+                      compliance: {
+                        type: 'object',
+                        properties: {
+                          score: { type: 'number' },
+                          passed: { type: 'boolean' },
+                          violations: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                rule: { type: 'string' },
+                                source: { type: 'string' },
+                                severity: { type: 'string' },
+                                message: { type: 'string' }
+                              }
+                            }
+                          }
+                        }
+                      },
+                      readability: { type: 'number' },
+                      algo: {
+                        type: 'object',
+                        properties: {
+                          riskScore: { type: 'number' },
+                          boostScore: { type: 'number' },
+                          band: { type: 'string' },
+                          suggestions: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                type: { type: 'string' },
+                                description: { type: 'string' },
+                                impact: { type: 'string' },
+                                edit: { type: 'string' }
+                              }
+                            }
+                          },
+                          factors: { type: 'object', additionalProperties: true }
+                        }
+                      },
+                      duplicate: {
+                        type: 'object',
+                        properties: {
+                          similarity: { type: 'number' },
+                          content: { type: 'string' },
+                          source: { type: 'string' },
+                          postedAt: { type: 'string' }
+                        }
+                      }
                     }
                   }
                 }
@@ -112,14 +213,19 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
         maxTokens?: number
         includeHashtags?: boolean
         includeEmojis?: boolean
+        llm?: LlmSelection
+        thread?: { tweets?: number; numbering?: ThreadNumbering }
       }
     }
 
     try {
-      const result = await composerService.generateFromBrainDump({
-        ...body,
-        userId: request.user?.id,
-      })
+      const result = await composerService.generateFromBrainDump(
+        {
+          ...body,
+          userId: request.user?.id,
+        },
+        { signal: createDisconnectSignal(reply) }
+      )
       return result
     } catch (error) {
       fastify.log.error({ error }, 'Brain dump generation failed')
@@ -131,6 +237,67 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
+  // Streaming brain dump endpoint (Server-Sent Events)
+  fastify.post('/api/composer/brain-dump/stream', {
+    preHandler: optionalAuthenticate,
+    schema: {
+      description:
+        'Same as /api/composer/brain-dump, but streams progress as Server-Sent Events: ' +
+        'start, token, attempt, variant, then done (or error)',
+      tags: ['Composer'],
+      body: brainDumpBodySchema
+    }
+  }, async (request, reply) => {
+    const body = request.body as {
+      input: string
+      personaId: string
+      platform: 'twitter' | 'linkedin' | 'instagram'
+      options?: {
+        variants?: number
+        maxLength?: number
+        maxTokens?: number
+        includeHashtags?: boolean
+        includeEmojis?: boolean
+        llm?: LlmSelection
+        thread?: { tweets?: number; numbering?: ThreadNumbering }
+      }
+    }
+
+    // Take over the raw response; keep headers (CORS, helmet) set by earlier hooks
+    reply.hijack()
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    })
+
+    const send = (event: GenerationEvent) => {
+      if (reply.raw.writableEnded) return
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    }
+
+    try {
+      const result = await composerService.generateFromBrainDump(
+        {
+          ...body,
+          userId: request.user?.id,
+        },
+        { onEvent: send, signal: createDisconnectSignal(reply) }
+      )
+      send({ type: 'done', ...result })
+    } catch (error) {
+      fastify.log.error({ error }, 'Streaming brain dump generation failed')
+      send({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Internal server error'
+      })
+    } finally {
+      reply.raw.end()
+    }
+  })
+
   // Get job status endpoint
   fastify.get('/api/composer/job/:jobId', {
     preHandler: authenticate,
@@ -214,14 +381,10 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
                 minimum: 10,
                 maximum: 2000
               },
-              includeHashtags: {
-                type: 'boolean',
-                default: false
-              },
-              includeEmojis: {
-                type: 'boolean',
-                default: false
-              }
+              includeHashtags: { type: 'boolean' },
+              includeEmojis: { type: 'boolean' },
+              llm: llmSelectionSchema,
+              thread: threadOptionsSchema
             }
           }
         }
@@ -238,14 +401,19 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
         maxTokens?: number
         includeHashtags?: boolean
         includeEmojis?: boolean
+        llm?: LlmSelection
+        thread?: { tweets?: number; numbering?: ThreadNumbering }
       }
     }
 
     try {
-      const result = await composerService.generateFromBrainDump({
-        ...body,
-        userId: request.user?.id,
-      })
+      const result = await composerService.generateFromBrainDump(
+        {
+          ...body,
+          userId: request.user?.id,
+        },
+        { signal: createDisconnectSignal(reply) }
+      )
       return result
     } catch (error) {
       fastify.log.error({ error }, 'Sync composition failed')
@@ -256,6 +424,68 @@ const composerRoutes: FastifyPluginAsync = async (fastify) => {
       }
     }
   })
+
+  // One source, platform-native variants for several platforms
+  fastify.post('/api/composer/repurpose', {
+    preHandler: optionalAuthenticate,
+    schema: {
+      description: 'Repurpose one idea or saved post into an X thread, a LinkedIn long-form post and/or an Instagram caption',
+      tags: ['Composer'],
+      body: {
+        type: 'object',
+        required: ['personaId', 'platforms'],
+        properties: {
+          personaId: { type: 'string' },
+          input: { type: 'string', maxLength: 10000, description: 'Source idea or draft' },
+          sourcePostId: { type: 'string', description: 'Repurpose an existing post instead of `input` (requires sign-in)' },
+          platforms: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 3,
+            uniqueItems: true,
+            items: { type: 'string', enum: ['twitter', 'linkedin', 'instagram'] }
+          },
+          options: {
+            type: 'object',
+            properties: {
+              variants: { type: 'number', minimum: 1, maximum: 3, default: 1, description: 'Variants per platform' },
+              includeEmojis: { type: 'boolean' },
+              llm: llmSelectionSchema,
+              thread: threadOptionsSchema
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const body = request.body as Omit<RepurposeRequest, 'userId'>
+
+    try {
+      return await composerService.repurpose(
+        {
+          ...body,
+          userId: request.user?.id,
+        },
+        { signal: createDisconnectSignal(reply) }
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Internal server error'
+
+      if (message.includes('not found')) {
+        reply.code(404)
+        return { success: false, error: message }
+      }
+
+      if (message.includes('required') || message.includes('Sign in')) {
+        reply.code(400)
+        return { success: false, error: message }
+      }
+
+      fastify.log.error({ error }, 'Repurposing failed')
+      reply.code(500)
+      return { success: false, error: message }
+    }
+  })
 }
 
 export default composerRoutes
@@ -1,9 +1,42 @@
 import { FastifyPluginAsync } from 'fastify'
 import { JobService } from '../services/job-service'
-import { authenticate } from '../middleware/auth'
+import { ComposerService, RunnerJobInput } from '../services/composer-service'
+import { authenticate, authenticateRunner, requireRunnerScope } from '../middleware/auth'
+import { createDisconnectSignal } from '../lib/disconnect'
+
+function serializeRunnerJob(job: {
+  id: string
+  type: string
+  priority: number
+  attempts: number
+  maxRetries: number
+  leaseExpiresAt: Date | null
+  input: unknown
+}) {
+  const input = job.input as RunnerJobInput | null
+
+  return {
+    id: job.id,
+    type: job.type,
+    priority: job.priority,
+    attempts: job.attempts,
+    maxRetries: job.maxRetries,
+    leaseExpiresAt: job.leaseExpiresAt?.toISOString() ?? null,
+    model: input?.llm?.model,
+    options: input?.llm?.options ?? {},
+    prompts: input?.prompts ?? [],
+  }
+}
+
+// Upper bound for long-polling so proxies don't cut the connection first
+const MAX_POLL_WAIT_MS = 30000
+const POLL_INTERVAL_MS = 1000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
 const jobsRoutes: FastifyPluginAsync = async (fastify) => {
   const jobService = new JobService()
+  const composerService = new ComposerService()
 
   // Get jobs for user
   fastify.get('/api/jobs', {
@@ -86,8 +119,9 @@ const jobsRoutes: FastifyPluginAsync = async (fastify) => {
 
   // LLM Runner endpoints (for Ollama runner to poll)
   fastify.get('/api/llm/jobs/pending', {
+    preHandler: [authenticateRunner, requireRunnerScope('jobs:claim')],
     schema: {
-      description: 'Get pending LLM jobs (for Ollama runner)',
+      description: 'Claim pending LLM jobs (for Ollama runner). Claimed jobs are leased to the runner until leaseExpiresAt.',
       tags: ['LLM Runner'],
       headers: {
         type: 'object',
@@ -95,19 +129,56 @@ const jobsRoutes: FastifyPluginAsync = async (fastify) => {
           authorization: { type: 'string' },
         },
       },
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', minimum: 1, maximum: 10, default: 1 },
+          types: { type: 'string', description: 'Comma-separated job types to claim' },
+          waitMs: {
+            type: 'number',
+            minimum: 0,
+            maximum: MAX_POLL_WAIT_MS,
+            default: 0,
+            description: 'Long-poll: hold the request open up to this long waiting for work',
+          },
+        },
+      },
     },
   }, async (request, reply) => {
-    // Simple auth check (in production, use proper JWT validation)
-    const authHeader = request.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!request.runner) {
       reply.code(401)
       return { error: 'Unauthorized' }
     }
 
+    const { limit = 1, types, waitMs = 0 } = request.query as { limit?: number; types?: string; waitMs?: number }
+    const { id: runnerId, userId } = request.runner
+    const jobTypes = types ? types.split(',').map((type) => type.trim()).filter(Boolean) : ['BRAIN_DUMP', 'REPLY_GENERATION']
+    const deadline = Date.now() + Math.min(waitMs, MAX_POLL_WAIT_MS)
+
+    const disconnected = createDisconnectSignal(reply)
+
     try {
-      // Return pending LLM jobs
-      // For now, return empty array (in production, query database)
-      return []
+      let jobs = await jobService.claimPendingJobs({ runnerId, userId, limit, types: jobTypes })
+
+      while (!jobs.length && !disconnected.aborted && Date.now() < deadline) {
+        await sleep(Math.min(POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())))
+        if (disconnected.aborted) break
+        jobs = await jobService.claimPendingJobs({ runnerId, userId, limit, types: jobTypes })
+      }
+
+      // The runner went away while we were claiming, so nobody will work on these
+      if (disconnected.aborted && jobs.length) {
+        for (const job of jobs) {
+          try {
+            await jobService.releaseJob(job.id, runnerId)
+          } catch (error) {
+            fastify.log.error({ error, jobId: job.id }, 'Failed to release job claimed for a disconnected runner')
+          }
+        }
+        return []
+      }
+
+      return jobs.map(serializeRunnerJob)
     } catch (error) {
       fastify.log.error({ error }, 'Failed to fetch pending jobs')
       reply.code(500)
@@ -115,8 +186,97 @@ const jobsRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
+  // Extend the lease on a job the runner is still processing
+  fastify.post('/api/llm/jobs/:jobId/heartbeat', {
+    preHandler: [authenticateRunner, requireRunnerScope('jobs:claim')],
+    schema: {
+      description: 'Extend the lease on a claimed LLM job (from Ollama runner)',
+      tags: ['LLM Runner'],
+      headers: {
+        type: 'object',
+        properties: {
+          authorization: { type: 'string' },
+        },
+      },
+      params: {
+        type: 'object',
+        required: ['jobId'],
+        properties: {
+          jobId: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.runner) {
+      reply.code(401)
+      return { error: 'Unauthorized' }
+    }
+
+    const { jobId } = request.params as { jobId: string }
+    const runnerId = request.runner.id
+
+    try {
+      const lease = await jobService.extendLease(jobId, runnerId)
+      return { success: true, leaseExpiresAt: lease.leaseExpiresAt.toISOString() }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        reply.code(409)
+        return { error: error.message }
+      }
+
+      fastify.log.error({ error }, 'Failed to extend job lease')
+      reply.code(500)
+      return { error: 'Failed to extend job lease' }
+    }
+  })
+
+  // Give a claimed job back to the queue (runner shutting down)
+  fastify.post('/api/llm/jobs/:jobId/release', {
+    preHandler: [authenticateRunner, requireRunnerScope('jobs:claim')],
+    schema: {
+      description: 'Release a claimed LLM job back to the queue (from Ollama runner)',
+      tags: ['LLM Runner'],
+      headers: {
+        type: 'object',
+        properties: {
+          authorization: { type: 'string' },
+        },
+      },
+      params: {
+        type: 'object',
+        required: ['jobId'],
+        properties: {
+          jobId: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.runner) {
+      reply.code(401)
+      return { error: 'Unauthorized' }
+    }
+
+    const { jobId } = request.params as { jobId: string }
+    const runnerId = request.runner.id
+
+    try {
+      await jobService.releaseJob(jobId, runnerId)
+      return { success: true }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        reply.code(409)
+        return { error: error.message }
+      }
+
+      fastify.log.error({ error }, 'Failed to release job')
+      reply.code(500)
+      return { error: 'Failed to release job' }
+    }
+  })
+
   // Submit LLM job result
   fastify.post('/api/llm/jobs/result', {
+    preHandler: [authenticateRunner, requireRunnerScope('jobs:complete')],
     schema: {
       description: 'Submit LLM job result (from Ollama runner)',
       tags: ['LLM Runner'],
@@ -132,7 +292,12 @@ const jobsRoutes: FastifyPluginAsync = async (fastify) => {
         properties: {
           jobId: { type: 'string' },
           success: { type: 'boolean' },
-          response: { type: 'string' },
+          response: { type: 'string', description: 'Model output for single-prompt jobs' },
+          responses: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Model output per prompt, in the order the prompts were received',
+          },
           error: { type: 'string' },
           metadata: {
             type: 'object',
@@ -146,33 +311,41 @@ const jobsRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    // Simple auth check
-    const authHeader = request.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!request.runner) {
       reply.code(401)
       return { error: 'Unauthorized' }
     }
 
+    const runnerId = request.runner.id
     const body = request.body as {
       jobId: string
       success: boolean
       response?: string
+      responses?: string[]
       error?: string
-      metadata?: any
+      metadata?: { model?: string; processingTime?: number; tokenCount?: number }
     }
 
     try {
-      // Update job with result
-      const updatedJob = await jobService.updateJobStatus(
-        body.jobId,
-        body.success ? 'COMPLETED' : 'FAILED',
-        body.response ? { response: body.response, metadata: body.metadata } : undefined,
-        body.error
-      )
+      const responses = body.responses?.length ? body.responses : body.response ? [body.response] : []
+
+      const updatedJob =
+        body.success && responses.length
+          ? await composerService.completeRunnerJob(body.jobId, runnerId, {
+              responses,
+              metadata: body.metadata,
+            })
+          : await jobService.failJob(body.jobId, runnerId, body.error || 'Runner returned no output')
 
       return { success: true, job: updatedJob }
     } catch (error) {
       fastify.log.error({ error }, 'Failed to update job result')
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        reply.code(409)
+        return { error: error.message }
+      }
+
       reply.code(500)
       return { error: 'Failed to update job result' }
     }
@@ -1,57 +1,134 @@
-import { FastifyPluginAsync } from 'fastify'
-import { prisma } from '../lib/database'
+import { FastifyPluginAsync, FastifyReply } from 'fastify'
 import { defaultPersonas } from '../lib/seed-default-personas'
 import { authenticate, optionalAuthenticate } from '../middleware/auth'
+import {
+  DEMO_USER_ID,
+  ExemplarInput,
+  PersonaInput,
+  PersonaService,
+  PersonaUpdate,
+  VoiceprintConflictMode,
+  serializeSeedPersona,
+} from '../services/persona-service'
+import { VoiceprintFormat, parseVoiceprint, serializeVoiceprint } from '../lib/voiceprint'
+import { EmbeddingSourceType } from '../services/embedding-service'
 
-const DEMO_USER_ID = 'dev-user'
-
-function serializePersonaRecord(persona: any) {
-  return {
-    id: persona.id,
-    userId: persona.userId,
-    name: persona.name,
-    description: persona.description,
-    isDefault: persona.isDefault,
-    tone: safeParse(persona.tone, []),
-    cadence: persona.cadence,
-    donts: safeParse(persona.donts, []),
-    hookPatterns: safeParse(persona.hookPatterns, []),
-    ctaStyle: persona.ctaStyle,
-    platforms: safeParse(persona.platforms, {}),
-    createdAt: persona.createdAt?.toISOString?.() ?? persona.createdAt,
-    updatedAt: persona.updatedAt?.toISOString?.() ?? persona.updatedAt,
-  }
+// Per-platform settings; request options still win at generation time
+const platformSettingsSchema = {
+  type: 'object',
+  properties: {
+    maxLength: { type: 'number', minimum: 1, maximum: 10000 },
+    maxTokens: { type: 'number', minimum: 1, maximum: 8192 },
+    includeHashtags: { type: 'boolean' },
+    includeEmojis: { type: 'boolean' },
+    hookPatterns: { type: 'array', items: { type: 'string' } },
+    ctaStyle: { type: 'string', enum: ['direct', 'soft', 'question-based'] },
+    language: { type: 'string', maxLength: 50 },
+  },
 }
 
-function serializeSeedPersona(seed: (typeof defaultPersonas)[number]) {
-  const now = new Date().toISOString()
-  return {
-    id: seed.id,
-    userId: DEMO_USER_ID,
-    name: seed.name,
-    description: seed.description,
-    isDefault: seed.isDefault,
-    tone: seed.tone,
-    cadence: seed.cadence,
-    donts: seed.donts,
-    hookPatterns: seed.hookPatterns,
-    ctaStyle: seed.ctaStyle,
-    platforms: seed.platforms,
-    createdAt: now,
-    updatedAt: now,
-  }
+// Editable fields, shared by create and update
+const personaBodyProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  description: { type: 'string' },
+  tone: { type: 'array', items: { type: 'string' } },
+  cadence: { type: 'string', enum: ['concise', 'detailed', 'conversational'] },
+  donts: { type: 'array', items: { type: 'string' } },
+  hookPatterns: { type: 'array', items: { type: 'string' } },
+  ctaStyle: { type: 'string', enum: ['direct', 'soft', 'question-based'] },
+  platforms: {
+    type: 'object',
+    description: 'Settings keyed by platform (twitter, linkedin, instagram)',
+    additionalProperties: platformSettingsSchema,
+  },
+  llm: {
+    type: 'object',
+    properties: {
+      provider: { type: 'string', enum: ['ollama', 'openai-compatible', 'fake'] },
+      model: { type: 'string' },
+      temperature: { type: 'number', minimum: 0, maximum: 2 },
+      maxTokens: { type: 'number', minimum: 1, maximum: 8192 },
+      topP: { type: 'number', minimum: 0, maximum: 1 },
+    },
+  },
+}
+
+const personaParamsSchema = {
+  type: 'object',
+  required: ['personaId'],
+  properties: {
+    personaId: { type: 'string' },
+  },
 }
 
-function safeParse<T>(value: string | null | undefined, fallback: T): T {
-  if (!value) return fallback
-  try {
-    return JSON.parse(value) as T
-  } catch {
-    return fallback
+const versionParamsSchema = {
+  type: 'object',
+  required: ['personaId', 'version'],
+  properties: {
+    personaId: { type: 'string' },
+    version: { type: 'integer', minimum: 1 },
+  },
+}
+
+const exemplarParamsSchema = {
+  type: 'object',
+  required: ['personaId', 'exemplarId'],
+  properties: {
+    personaId: { type: 'string' },
+    exemplarId: { type: 'string' },
+  },
+}
+
+const exportQuerySchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['json', 'yaml'], default: 'json' },
+    samples: {
+      type: 'integer',
+      minimum: 0,
+      maximum: 50,
+      default: 0,
+      description: 'Number of top exemplars to include per persona as sample posts',
+    },
+  },
+}
+
+function sendVoiceprint(reply: FastifyReply, content: string, format: VoiceprintFormat, name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'personas'
+  reply
+    .type(format === 'yaml' ? 'application/yaml; charset=utf-8' : 'application/json; charset=utf-8')
+    .header('Content-Disposition', `attachment; filename="${slug}.voiceprint.${format === 'yaml' ? 'yaml' : 'json'}"`)
+  return content
+}
+
+function sendPersonaError(error: unknown, reply: FastifyReply, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (message.includes('not found')) {
+    reply.code(404)
+  } else if (message.includes('already an exemplar')) {
+    reply.code(409)
+  } else if (message.includes('Similarity search is disabled')) {
+    reply.code(503)
+  } else if (message.includes('embeddings API')) {
+    reply.code(502)
+  } else if (
+    message.includes('Tone must') ||
+    message.includes('is required') ||
+    message.includes('Invalid voiceprint') ||
+    message.includes('limit reached')
+  ) {
+    reply.code(400)
+  } else {
+    reply.code(500)
   }
+
+  return { error: message }
 }
 
 const personasRoutes: FastifyPluginAsync = async (fastify) => {
+  const personaService = new PersonaService()
+
   // Get all personas for a user
   fastify.get('/api/personas', {
     preHandler: optionalAuthenticate,
@@ -82,7 +159,9 @@ const personasRoutes: FastifyPluginAsync = async (fastify) => {
               donts: { type: 'array', items: { type: 'string' } },
               hookPatterns: { type: 'array', items: { type: 'string' } },
               ctaStyle: { type: 'string' },
-              platforms: { type: 'object' },
+              platforms: { type: 'object', additionalProperties: platformSettingsSchema },
+              llm: { type: 'object', additionalProperties: true },
+              version: { type: 'number' },
               createdAt: { type: 'string' },
               updatedAt: { type: 'string' },
             },
@@ -102,16 +181,7 @@ const personasRoutes: FastifyPluginAsync = async (fastify) => {
       return { error: 'Authentication required' }
     }
 
-    const personas = await prisma.persona.findMany({
-      where: { userId: authUserId },
-      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
-    })
-
-    if (!personas.length) {
-      return defaultPersonas.map(serializeSeedPersona)
-    }
-
-    return personas.map(serializePersonaRecord)
+    return personaService.listPersonas(authUserId)
   })
 
   // Get a specific persona
@@ -120,32 +190,18 @@ const personasRoutes: FastifyPluginAsync = async (fastify) => {
     schema: {
       description: 'Get a specific persona by ID',
       tags: ['Personas'],
-      params: {
-        type: 'object',
-        required: ['personaId'],
-        properties: {
-          personaId: { type: 'string' },
-        },
-      },
+      params: personaParamsSchema,
     },
   }, async (request, reply) => {
     const { personaId } = request.params as { personaId: string }
     const authUserId = request.user?.id
 
     if (authUserId) {
-      const persona = await prisma.persona.findFirst({
-        where: {
-          id: personaId,
-          userId: authUserId,
-        },
-      })
-
-      if (!persona) {
-        reply.code(404)
-        return { error: 'Persona not found' }
+      try {
+        return await personaService.getPersona(personaId, authUserId)
+      } catch (error) {
+        return sendPersonaError(error, reply, 'Failed to load persona')
       }
-
-      return serializePersonaRecord(persona)
     }
 
     const seedPersona = defaultPersonas.find((persona) => persona.id === personaId)
@@ -167,15 +223,8 @@ const personasRoutes: FastifyPluginAsync = async (fastify) => {
         type: 'object',
         required: ['name', 'tone', 'cadence', 'ctaStyle'],
         properties: {
-          name: { type: 'string' },
-          description: { type: 'string' },
-          tone: { type: 'array', items: { type: 'string' } },
-          cadence: { type: 'string', enum: ['concise', 'detailed', 'conversational'] },
-          donts: { type: 'array', items: { type: 'string' } },
-          hookPatterns: { type: 'array', items: { type: 'string' } },
-          ctaStyle: { type: 'string', enum: ['direct', 'soft', 'question-based'] },
+          ...personaBodyProperties,
           isDefault: { type: 'boolean', default: false },
-          platforms: { type: 'object' },
         },
       },
     },
@@ -185,47 +234,458 @@ const personasRoutes: FastifyPluginAsync = async (fastify) => {
       return { error: 'Not authenticated' }
     }
 
-    const body = request.body as {
-      name: string
-      description?: string
-      tone: string[]
-      cadence: 'concise' | 'detailed' | 'conversational'
-      donts?: string[]
-      hookPatterns?: string[]
-      ctaStyle: 'direct' | 'soft' | 'question-based'
-      isDefault?: boolean
-      platforms?: Record<string, unknown>
+    try {
+      const persona = await personaService.createPersona(request.user.id, request.body as PersonaInput)
+      reply.code(201)
+      return persona
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to create persona')
+    }
+  })
+
+  // Update a persona's voiceprint or settings
+  fastify.patch('/api/personas/:personaId', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Update a persona you own. Use POST /api/personas/:personaId/default to change the default',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+      body: {
+        type: 'object',
+        minProperties: 1,
+        properties: personaBodyProperties,
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      return await personaService.updatePersona(personaId, request.user.id, request.body as PersonaUpdate)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to update persona')
+    }
+  })
+
+  // Delete a persona
+  fastify.delete('/api/personas/:personaId', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Delete a persona you own. If it was the default, your oldest remaining persona becomes the default',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      const result = await personaService.deletePersona(personaId, request.user.id)
+      return { success: true, ...result }
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to delete persona')
+    }
+  })
+
+  // Duplicate a persona (including built-in ones) into the user's library
+  fastify.post('/api/personas/:personaId/duplicate', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Copy a persona you own, or a built-in persona, into your library',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+      body: {
+        type: 'object',
+        nullable: true,
+        properties: {
+          name: { type: 'string', maxLength: 100 },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+    const { name } = (request.body ?? {}) as { name?: string }
+
+    try {
+      const persona = await personaService.duplicatePersona(personaId, request.user.id, name)
+      reply.code(201)
+      return persona
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to duplicate persona')
+    }
+  })
+
+  // Make a persona the user's default
+  fastify.post('/api/personas/:personaId/default', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Make a persona your default; every other persona is unset',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      return await personaService.setDefaultPersona(personaId, request.user.id)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to set default persona')
+    }
+  })
+
+  // Version history
+  fastify.get('/api/personas/:personaId/versions', {
+    preHandler: authenticate,
+    schema: {
+      description: 'List versions of a persona you own, newest first, with what changed in each',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      return await personaService.listVersions(personaId, request.user.id)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to load persona versions')
+    }
+  })
+
+  // Diff two versions
+  fastify.get('/api/personas/:personaId/versions/diff', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Diff two persona versions (tone, donts and hook patterns as added/removed entries)',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+      querystring: {
+        type: 'object',
+        required: ['from'],
+        properties: {
+          from: { type: 'integer', minimum: 1 },
+          to: { type: 'integer', minimum: 1, description: 'Defaults to the current version' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+    const { from, to } = request.query as { from: number; to?: number }
+
+    try {
+      return await personaService.diffVersions(personaId, request.user.id, from, to)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to diff persona versions')
+    }
+  })
+
+  // Get one version's full snapshot
+  fastify.get('/api/personas/:personaId/versions/:version', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Get the full snapshot stored for a persona version',
+      tags: ['Personas'],
+      params: versionParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId, version } = request.params as { personaId: string; version: number }
+
+    try {
+      return await personaService.getVersion(personaId, request.user.id, version)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to load persona version')
+    }
+  })
+
+  // Roll back to a version
+  fastify.post('/api/personas/:personaId/versions/:version/restore', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Restore an earlier version; the restored settings are saved as a new version',
+      tags: ['Personas'],
+      params: versionParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId, version } = request.params as { personaId: string; version: number }
+
+    try {
+      return await personaService.restoreVersion(personaId, request.user.id, version)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to restore persona version')
+    }
+  })
+
+  // Exemplars: curated posts used as few-shot examples during generation
+  fastify.get('/api/personas/:personaId/exemplars', {
+    preHandler: authenticate,
+    schema: {
+      description: 'List the exemplar posts kept on a persona you own, best performers first',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      return await personaService.listExemplars(personaId, request.user.id)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to load exemplars')
+    }
+  })
+
+  fastify.post('/api/personas/:personaId/exemplars', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Add a post to the exemplars of a persona you own',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+      body: {
+        type: 'object',
+        required: ['content', 'platform'],
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 10000 },
+          platform: { type: 'string', enum: ['twitter', 'linkedin', 'instagram'] },
+          engagementScore: { type: 'number', minimum: 0 },
+          postedAt: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      const exemplar = await personaService.addExemplar(personaId, request.user.id, request.body as ExemplarInput)
+      reply.code(201)
+      return exemplar
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to add exemplar')
+    }
+  })
+
+  fastify.delete('/api/personas/:personaId/exemplars/:exemplarId', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Remove an exemplar from a persona',
+      tags: ['Personas'],
+      params: exemplarParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
     }
 
-    if (!Array.isArray(body.tone) || body.tone.length === 0) {
-      reply.code(400)
-      return { error: 'Tone must include at least one descriptor' }
+    const { personaId, exemplarId } = request.params as { personaId: string; exemplarId: string }
+
+    try {
+      const result = await personaService.removeExemplar(personaId, request.user.id, exemplarId)
+      return { success: true, ...result }
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to remove exemplar')
     }
+  })
 
-    if (body.isDefault) {
-      await prisma.persona.updateMany({
-        where: { userId: request.user.id },
-        data: { isDefault: false },
+  // Similarity search over the persona's embedding index
+  fastify.post('/api/personas/:personaId/similar', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Find the past posts and exemplars of a persona you own that are most similar to a text',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+      body: {
+        type: 'object',
+        required: ['text'],
+        properties: {
+          text: { type: 'string', minLength: 1, maxLength: 10000 },
+          limit: { type: 'integer', minimum: 1, maximum: 50, default: 5 },
+          sources: {
+            type: 'array',
+            description: 'Restrict results to these sources; all by default',
+            items: { type: 'string', enum: ['post', 'analyzed_post', 'exemplar'] },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+    const { text, limit, sources } = request.body as { text: string; limit?: number; sources?: EmbeddingSourceType[] }
+
+    try {
+      return await personaService.searchSimilarPosts(personaId, request.user.id, text, {
+        limit,
+        sourceTypes: sources?.length ? sources : undefined,
       })
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to search similar posts')
+    }
+  })
+
+  fastify.post('/api/personas/:personaId/embeddings/reindex', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Embed published posts and exemplars missing from the similarity index of a persona you own',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { personaId } = request.params as { personaId: string }
+
+    try {
+      return await personaService.reindexPersona(personaId, request.user.id)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to reindex persona posts')
+    }
+  })
+
+  // Export all personas as a voiceprint file
+  fastify.get('/api/personas/export', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Export all your personas as a portable voiceprint file (JSON or YAML)',
+      tags: ['Personas'],
+      querystring: exportQuerySchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { format, samples } = request.query as { format: VoiceprintFormat; samples: number }
+
+    try {
+      const voiceprint = await personaService.exportVoiceprint(request.user.id, { samplePosts: samples })
+      return sendVoiceprint(reply, serializeVoiceprint(voiceprint, format), format, 'personas')
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to export personas')
+    }
+  })
+
+  // Export one persona
+  fastify.get('/api/personas/:personaId/export', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Export a persona as a portable voiceprint file (JSON or YAML)',
+      tags: ['Personas'],
+      params: personaParamsSchema,
+      querystring: exportQuerySchema,
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
     }
 
-    const persona = await prisma.persona.create({
-      data: {
-        userId: request.user.id,
-        name: body.name,
-        description: body.description,
-        isDefault: body.isDefault ?? false,
-        tone: JSON.stringify(body.tone),
-        cadence: body.cadence,
-        donts: JSON.stringify(body.donts ?? []),
-        hookPatterns: JSON.stringify(body.hookPatterns ?? []),
-        ctaStyle: body.ctaStyle,
-        platforms: JSON.stringify(body.platforms ?? {}),
+    const { personaId } = request.params as { personaId: string }
+    const { format, samples } = request.query as { format: VoiceprintFormat; samples: number }
+
+    try {
+      const voiceprint = await personaService.exportVoiceprint(request.user.id, { personaId, samplePosts: samples })
+      return sendVoiceprint(reply, serializeVoiceprint(voiceprint, format), format, voiceprint.personas[0].name)
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to export persona')
+    }
+  })
+
+  // Import a voiceprint file
+  fastify.post('/api/personas/import', {
+    preHandler: authenticate,
+    schema: {
+      description:
+        'Import personas from a voiceprint file. Name conflicts are reported (409) unless onConflict is merge, replace or skip',
+      tags: ['Personas'],
+      body: {
+        type: 'object',
+        required: ['content'],
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 1000000, description: 'Voiceprint file contents (JSON or YAML)' },
+          onConflict: { type: 'string', enum: ['report', 'merge', 'replace', 'skip'], default: 'report' },
+          dryRun: { type: 'boolean', default: false, description: 'Report what would happen without saving' },
+        },
       },
-    })
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { content, onConflict, dryRun } = request.body as {
+      content: string
+      onConflict: VoiceprintConflictMode
+      dryRun: boolean
+    }
 
-    reply.code(201)
-    return serializePersonaRecord(persona)
+    try {
+      const result = await personaService.importVoiceprint(request.user.id, parseVoiceprint(content), {
+        onConflict,
+        dryRun,
+      })
+
+      if (!result.success) {
+        reply.code(409)
+      }
+      return result
+    } catch (error) {
+      return sendPersonaError(error, reply, 'Failed to import voiceprint')
+    }
   })
 }
 
@@ -0,0 +1,148 @@
+import { FastifyPluginAsync } from 'fastify'
+import { ComposerService, ReplyRequest } from '../services/composer-service'
+import { optionalAuthenticate } from '../middleware/auth'
+import { createDisconnectSignal } from '../lib/disconnect'
+import { parseConversation } from '../lib/conversation'
+
+const messageSchema = {
+  type: 'object',
+  required: ['author', 'content'],
+  properties: {
+    author: { type: 'string', maxLength: 100 },
+    content: { type: 'string', maxLength: 5000 },
+    timestamp: { type: 'string', maxLength: 100 }
+  }
+}
+
+const repliesRoutes: FastifyPluginAsync = async (fastify) => {
+  const composerService = new ComposerService()
+
+  // Generate replies to a post
+  fastify.post('/api/replies/generate', {
+    preHandler: optionalAuthenticate,
+    schema: {
+      description: "Generate on-persona replies to someone else's post",
+      tags: ['Replies'],
+      body: {
+        type: 'object',
+        required: ['personaId', 'context'],
+        properties: {
+          personaId: { type: 'string' },
+          context: {
+            type: 'object',
+            required: ['replyGoal'],
+            properties: {
+              originalPost: {
+                type: 'object',
+                required: ['content', 'author'],
+                properties: {
+                  content: { type: 'string', minLength: 1, maxLength: 5000 },
+                  author: { type: 'string', maxLength: 100 },
+                  platform: { type: 'string', enum: ['twitter', 'linkedin', 'instagram'], default: 'twitter' },
+                  engagement: {
+                    type: 'object',
+                    properties: {
+                      likes: { type: 'number' },
+                      shares: { type: 'number' },
+                      comments: { type: 'number' }
+                    }
+                  }
+                }
+              },
+              thread: {
+                type: 'array',
+                maxItems: 50,
+                items: messageSchema,
+                description: 'Whole conversation, oldest first. Use instead of originalPost for threads'
+              },
+              replyToIndex: {
+                type: 'number',
+                minimum: 0,
+                description: 'Index of the thread message to reply to (defaults to the last one)'
+              },
+              platform: { type: 'string', enum: ['twitter', 'linkedin', 'instagram'] },
+              replyGoal: {
+                type: 'string',
+                enum: ['engage', 'add_value', 'question', 'support', 'correct']
+              },
+              maxLength: {
+                type: 'number',
+                minimum: 50,
+                maximum: 2200,
+                default: 280,
+                description: "Capped at the platform's reply limit (Twitter=280, LinkedIn=1250, Instagram=2200)"
+              }
+            }
+          },
+          options: {
+            type: 'object',
+            properties: {
+              variants: { type: 'number', minimum: 1, maximum: 5, default: 3 },
+              includeHashtags: { type: 'boolean' },
+              includeEmojis: { type: 'boolean' }
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const body = request.body as Omit<ReplyRequest, 'userId'>
+
+    try {
+      return await composerService.generateReplies(
+        {
+          ...body,
+          userId: request.user?.id,
+        },
+        { signal: createDisconnectSignal(reply) }
+      )
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Invalid reply context')) {
+        reply.code(400)
+        return { success: false, error: error.message }
+      }
+
+      fastify.log.error({ error }, 'Reply generation failed')
+      reply.code(500)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }
+    }
+  })
+
+  // Split a pasted post or thread into structured messages
+  fastify.post('/api/replies/parse-thread', {
+    preHandler: optionalAuthenticate,
+    schema: {
+      description: 'Parse a pasted X thread or conversation into ordered messages',
+      tags: ['Replies'],
+      body: {
+        type: 'object',
+        required: ['text'],
+        properties: {
+          text: { type: 'string', minLength: 1, maxLength: 20000 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            messages: { type: 'array', items: messageSchema },
+            replyToIndex: { type: 'number' }
+          }
+        }
+      }
+    }
+  }, async (request) => {
+    const { text } = request.body as { text: string }
+    const messages = parseConversation(text)
+
+    return {
+      messages,
+      replyToIndex: Math.max(0, messages.length - 1)
+    }
+  })
+}
+
+export default repliesRoutes
@@ -0,0 +1,133 @@
+import { FastifyPluginAsync } from 'fastify'
+import { RUNNER_SCOPES, RunnerScope, RunnerService } from '../services/runner-service'
+import { authenticate } from '../middleware/auth'
+
+const runnerSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    tokenPrefix: { type: 'string' },
+    scopes: { type: 'array', items: { type: 'string' } },
+    lastSeenAt: { type: ['string', 'null'] },
+    revokedAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+  },
+}
+
+const runnersRoutes: FastifyPluginAsync = async (fastify) => {
+  const runnerService = new RunnerService()
+
+  // Register a runner and issue its token
+  fastify.post('/api/runners', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Register an Ollama runner. The token is only returned once.',
+      tags: ['Runners'],
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          scopes: {
+            type: 'array',
+            items: { type: 'string', enum: [...RUNNER_SCOPES] },
+            minItems: 1,
+          },
+        },
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            runner: runnerSchema,
+            token: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { name, scopes } = request.body as { name: string; scopes?: RunnerScope[] }
+
+    try {
+      const result = await runnerService.createRunnerToken(request.user.id, name.trim(), scopes)
+      reply.code(201)
+      return result
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to register runner')
+      reply.code(500)
+      return { error: 'Failed to register runner' }
+    }
+  })
+
+  // List runners
+  fastify.get('/api/runners', {
+    preHandler: authenticate,
+    schema: {
+      description: 'List registered runners for the authenticated user',
+      tags: ['Runners'],
+      response: {
+        200: {
+          type: 'array',
+          items: runnerSchema,
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    try {
+      return await runnerService.listRunnerTokens(request.user.id)
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to fetch runners')
+      reply.code(500)
+      return { error: 'Failed to fetch runners' }
+    }
+  })
+
+  // Revoke a runner token
+  fastify.delete('/api/runners/:id', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Revoke a runner token. Jobs it holds are requeued when their lease expires.',
+      tags: ['Runners'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    if (!request.user) {
+      reply.code(401)
+      return { error: 'Not authenticated' }
+    }
+
+    const { id } = request.params as { id: string }
+
+    try {
+      return await runnerService.revokeRunnerToken(request.user.id, id)
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        reply.code(404)
+        return { error: error.message }
+      }
+
+      fastify.log.error({ error }, 'Failed to revoke runner')
+      reply.code(500)
+      return { error: 'Failed to revoke runner' }
+    }
+  })
+}
+
+export default runnersRoutes
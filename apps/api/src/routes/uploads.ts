@@ -1,7 +1,8 @@
 import { FastifyPluginAsync } from 'fastify'
-import { ContentUploadService } from '../services/content-upload-service'
+import { ContentUploadService, UPLOAD_EXTENSIONS } from '../services/content-upload-service'
 import { authenticate } from '../middleware/auth'
 import { MultipartFile } from '@fastify/multipart'
+import { ColumnMapping, ColumnMappingSchema, UploadFilters, UploadFiltersSchema } from '../lib/types'
 
 const uploadRoutes: FastifyPluginAsync = async (fastify) => {
   const uploadService = new ContentUploadService()
@@ -9,15 +10,15 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
   // Register multipart
   await fastify.register(require('@fastify/multipart'), {
     limits: {
-      fileSize: 10 * 1024 * 1024 // 10MB limit
+      fileSize: 50 * 1024 * 1024 // 50MB limit, enough for text-only data exports
     }
   })
 
-  // Upload CSV file
+  // Upload a CSV or a data export
   fastify.post('/api/uploads/csv', {
     preHandler: authenticate,
     schema: {
-      description: 'Upload CSV file containing social media posts for analysis',
+      description: 'Upload posts for analysis: a CSV, or the X, LinkedIn or Instagram data export (ZIP, tweets.js, Shares.csv or posts_1.json)',
       tags: ['Uploads'],
       headers: {
         type: 'object',
@@ -43,18 +44,44 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
       }
 
       // Validate file type
-      if (!data.filename.endsWith('.csv')) {
+      const extension = data.filename.slice(data.filename.lastIndexOf('.')).toLowerCase()
+      if (!UPLOAD_EXTENSIONS.includes(extension)) {
         reply.code(400)
-        return { error: 'Only CSV files are supported' }
+        return { error: 'Upload a CSV file or a data export from X, LinkedIn or Instagram (ZIP, tweets.js or posts_1.json)' }
       }
 
       // Read file buffer
       const buffer = await data.toBuffer()
 
-      // Get platform from fields (default to twitter)
+      // Get platform from fields (default to twitter); data exports are detected from the file
       const fields = data.fields as any
       const platform = (fields.platform?.value as string) || 'twitter'
 
+      // Column mapping confirmed in the preview step, sent as JSON
+      let mapping: ColumnMapping | undefined
+      if (fields.mapping?.value) {
+        try {
+          mapping = ColumnMappingSchema.parse(JSON.parse(fields.mapping.value as string))
+        } catch {
+          mapping = undefined
+        }
+        if (!mapping || extension !== '.csv') {
+          reply.code(400)
+          return { error: 'Invalid column mapping: choose the column that holds the post text' }
+        }
+      }
+
+      // Upload filters, sent as JSON; anything left out uses the defaults
+      let filters: UploadFilters | undefined
+      if (fields.filters?.value) {
+        try {
+          filters = UploadFiltersSchema.parse(JSON.parse(fields.filters.value as string))
+        } catch {
+          reply.code(400)
+          return { error: 'Invalid upload filters' }
+        }
+      }
+
       // Save file
       const filename = await uploadService.saveFile(buffer, data.filename)
 
@@ -63,7 +90,8 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
         request.user.id,
         filename,
         data.filename,
-        platform
+        platform,
+        { mapping, filters }
       )
 
       return {
@@ -72,7 +100,9 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
       }
     } catch (error) {
       fastify.log.error({ error }, 'Upload failed')
-      reply.code(500)
+      const isInputError =
+        error instanceof Error && (error.message.includes('Mapped column') || error.message.includes('upload filters'))
+      reply.code(isInputError ? 400 : 500)
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Upload failed'
@@ -80,6 +110,49 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
+  // Preview a CSV's columns before uploading it
+  fastify.post('/api/uploads/csv/preview', {
+    preHandler: authenticate,
+    schema: {
+      description: 'Read the header of a CSV and return its columns with sample values and a suggested column mapping',
+      tags: ['Uploads'],
+      headers: {
+        type: 'object',
+        required: ['authorization'],
+        properties: {
+          authorization: { type: 'string' }
+        }
+      },
+      consumes: ['multipart/form-data']
+    }
+  }, async (request, reply) => {
+    try {
+      if (!request.user) {
+        reply.code(401)
+        return { error: 'Not authenticated' }
+      }
+
+      const data = await request.file()
+
+      if (!data) {
+        reply.code(400)
+        return { error: 'No file uploaded' }
+      }
+
+      if (!data.filename.toLowerCase().endsWith('.csv')) {
+        reply.code(400)
+        return { error: 'Only CSV files need a column mapping' }
+      }
+
+      const preview = await uploadService.previewCSV(request.user.id, await data.toBuffer())
+      return preview
+    } catch (error) {
+      fastify.log.error({ error }, 'CSV preview failed')
+      reply.code(400)
+      return { error: error instanceof Error ? error.message : 'Could not read the CSV file' }
+    }
+  })
+
   // Get user's uploads
   fastify.get('/api/uploads', {
     preHandler: authenticate,
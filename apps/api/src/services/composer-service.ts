@@ -1,7 +1,34 @@
 import { prisma } from '../lib/database'
-import { PersonaEngine, ContentRequest, ContentVariant, GenerationResult } from '../lib'
+import { PersonaEngine, ComplianceReport, ContentRequest, ContentVariant, GenerationResult } from '../lib'
 import { countTokens, approxCharsPerToken, applyOutputLimits, normalizeToString } from '../lib/token-utils'
+import {
+  LlmGenerateRequest,
+  LlmGenerationOptions,
+  LlmProvider,
+  LlmSelection,
+  ResolvedLlmSelection,
+  parseLlmSelection,
+  resolveLlmSelection,
+} from '../lib/llm'
+import { throwIfAborted, withLlmSlot } from '../lib/concurrency'
+import {
+  buildThreadPrompt,
+  buildThreadVariant,
+  clampThread,
+  describeThreadOverflow,
+  getThreadOptions,
+  isThreadRequest,
+  threadFitsLimits,
+} from '../lib/thread-composer'
+import { joinSections, parseStructuredPosts, splitPostSections } from '../lib/structured-output'
+import { buildReport, isComplianceJudgeEnabled, judgeCompliance } from '../lib/compliance'
+import { attachAlgoAnalysis } from '../lib/algo-analyzer'
+import { findRepeatedPoints } from '../lib/conversation'
+import { getPlatformSettings } from '../lib/platform-settings'
+import { ExemplarCandidate, rankSimilarExemplars, selectExemplars } from '../lib/exemplars'
+import { ConversationMessage, PersonaSchema, ReplyContext, ThreadNumbering } from '../lib/types'
 import { JobService } from './job-service'
+import { EmbeddingService } from './embedding-service'
 
 export interface ComposerRequest {
   input: string
@@ -14,9 +41,110 @@ export interface ComposerRequest {
     maxTokens?: number
     includeHashtags?: boolean
     includeEmojis?: boolean
+    llm?: LlmSelection // Provider/model override for this request only
+    thread?: {
+      // Generate an X thread instead of a single post
+      tweets?: number
+      numbering?: ThreadNumbering
+    }
+  }
+}
+
+export interface ReplyRequest {
+  personaId: string
+  userId?: string
+  context: {
+    // Either a single post, or a thread plus the index of the message to reply to
+    originalPost?: {
+      content: string
+      author: string
+      platform?: 'twitter' | 'linkedin' | 'instagram'
+      engagement?: { likes: number; shares: number; comments: number }
+    }
+    thread?: ConversationMessage[]
+    replyToIndex?: number // Defaults to the last message
+    platform?: 'twitter' | 'linkedin' | 'instagram'
+    replyGoal: ReplyContext['replyGoal']
+    maxLength?: number
+  }
+  options?: {
+    variants?: number
+    includeHashtags?: boolean
+    includeEmojis?: boolean
+    llm?: LlmSelection
   }
 }
 
+export interface RepurposeRequest {
+  personaId: string
+  userId?: string
+  input?: string // Source idea or draft
+  sourcePostId?: string // Or an existing post to repurpose
+  platforms: Array<ComposerRequest['platform']>
+  options?: {
+    variants?: number
+    includeEmojis?: boolean
+    llm?: LlmSelection
+    thread?: {
+      tweets?: number
+      numbering?: ThreadNumbering
+    }
+  }
+}
+
+export type RepurposeGroup = BrainDumpResult & {
+  format: 'thread' | 'long_form' | 'caption'
+  maxLength: number // Per tweet for threads
+}
+
+export interface RepurposeResult {
+  success: boolean // True when at least one platform succeeded
+  source: { input: string; postId?: string; platform?: string }
+  platforms: Partial<Record<ComposerRequest['platform'], RepurposeGroup>>
+}
+
+const PLATFORM_CHAR_LIMITS = {
+  twitter: 280,
+  linkedin: 3000,
+  instagram: 2200,
+}
+
+const REPURPOSE_FORMATS: Record<ComposerRequest['platform'], RepurposeGroup['format']> = {
+  twitter: 'thread',
+  linkedin: 'long_form',
+  instagram: 'caption',
+}
+
+// The post being replied to, plus the surrounding thread when there is one
+type ReplyTarget = Pick<ReplyContext, 'thread' | 'replyToIndex'> & {
+  originalPost: ReplyContext['originalPost'] & { platform: ComposerRequest['platform'] }
+}
+
+// One per variant so replies don't all make the same move
+const REPLY_ANGLES = [
+  'lead with your single strongest point',
+  'share a brief, concrete example from experience',
+  'end with a specific follow-up question',
+  'add a nuance or caveat the post left out',
+  'offer a practical next step',
+]
+
+// Hard caps for replies/comments on each platform
+const REPLY_MAX_LENGTH = {
+  twitter: 280,
+  linkedin: 1250,
+  instagram: 2200,
+}
+
+// Embedding matches fetched before re-ranking down to the prompt's few examples
+const SIMILAR_EXEMPLAR_CANDIDATES = 12
+
+// Drafts at least this similar to a past post are flagged as likely duplicates
+function getDuplicateThreshold(): number {
+  const threshold = Number(process.env.EMBEDDINGS_DUPLICATE_THRESHOLD)
+  return Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : 0.9
+}
+
 function safeJsonParse<T>(value: string | null | undefined, fallback: T): T {
   if (!value) return fallback
   try {
@@ -26,7 +154,7 @@ function safeJsonParse<T>(value: string | null | undefined, fallback: T): T {
   }
 }
 
-interface PersonaEngineConfig {
+export interface PersonaEngineConfig {
   id: string
   name: string
   tone: string[]
@@ -35,21 +163,89 @@ interface PersonaEngineConfig {
   hookPatterns: string[]
   ctaStyle: string
   platforms: Record<string, unknown>
+  llm: LlmSelection
+  // Version of a saved persona; built-in personas aren't versioned
+  version?: number
+  // Candidates for few-shot examples; only the selected ones reach the prompt
+  exemplars?: ExemplarCandidate[]
+}
+
+/**
+ * Payload stored on a queued BRAIN_DUMP job. Everything a runner (and the result
+ * handler) needs is captured at enqueue time so later persona edits don't leak in.
+ */
+export interface RunnerJobInput {
+  request: Omit<ComposerRequest, 'userId'> | Omit<ReplyRequest, 'userId'>
+  persona: PersonaEngineConfig
+  contentRequest: ContentRequest
+  llm: {
+    provider: string
+    model: string
+    options: LlmGenerationOptions
+  }
+  prompts: Array<{
+    variantId: string
+    prompt: string
+    system?: string
+  }>
+}
+
+export interface BrainDumpResult {
+  success: boolean
+  jobId: string
+  status?: string
+  variants?: ContentVariant[]
+  error?: string
+  metadata?: GenerationResult['metadata']
+}
+
+/**
+ * Progress events for streamed generation. `done` and `error` are emitted by the
+ * transport once the whole request settles.
+ */
+export type GenerationEvent =
+  | { type: 'start'; variants: number; provider: string; model: string }
+  | { type: 'token'; variantId: string; attempt: number; delta: string }
+  | {
+      type: 'attempt'
+      variantId: string
+      attempt: number
+      maxAttempts: number
+      length: number
+      tokenLength: number
+      charLimit: number
+      tokenLimit: number
+      message: string
+    }
+  | { type: 'variant'; variant: ContentVariant }
+  | ({ type: 'done' } & BrainDumpResult)
+  | { type: 'error'; error: string }
+
+export type GenerationEventHandler = (event: GenerationEvent) => void
+
+export interface GenerationContext {
+  // Receives streamed progress; when omitted, providers are called without streaming
+  onEvent?: GenerationEventHandler
+  // Aborted when the client goes away; queued and in-flight LLM calls are cancelled
+  signal?: AbortSignal
+  // Key for the per-user concurrency budget
+  userId?: string
 }
 
 export class ComposerService {
   private jobService: JobService
+  private embeddingService: EmbeddingService
 
   constructor() {
     this.jobService = new JobService()
+    this.embeddingService = new EmbeddingService()
   }
 
-  async generateFromBrainDump(request: ComposerRequest): Promise<{
-    success: boolean
-    jobId: string
-    variants?: ContentVariant[]
-    error?: string
-  }> {
+  /**
+   * Generate variants for a brain dump. When `context.onEvent` is given, model output
+   * is streamed as it is produced; queued runner jobs only report their job ID.
+   */
+  async generateFromBrainDump(request: ComposerRequest, context: GenerationContext = {}): Promise<BrainDumpResult> {
     try {
       if (!request.personaId || request.personaId.trim() === '') {
         throw new Error('Persona ID is required')
@@ -57,113 +253,351 @@ export class ComposerService {
 
       const { config: personaConfig, persistedId } = await this.resolvePersonaConfig(request.personaId, request.userId)
 
-      const requestedVariants = request.options?.variants ?? 1
-      const shouldGenerateSync =
-        !request.userId || (requestedVariants <= 5 && request.input.length < 2000)
+      return await this.runComposerRequest(request, personaConfig, persistedId, context)
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Turn one source into platform-native content for several platforms with a
+   * single persona resolution: an X thread, a long-form LinkedIn post and an
+   * Instagram caption with 3-5 hashtags. Limits honour the persona's
+   * `platforms` overrides. One platform failing doesn't fail the others.
+   */
+  async repurpose(request: RepurposeRequest, context: GenerationContext = {}): Promise<RepurposeResult> {
+    if (!request.personaId || request.personaId.trim() === '') {
+      throw new Error('Persona ID is required')
+    }
 
-      if (shouldGenerateSync) {
-        const result = await this.generateSync(request, personaConfig)
+    const platforms = Array.from(new Set(request.platforms))
+    if (platforms.length === 0) {
+      throw new Error('At least one target platform is required')
+    }
 
-        let recordedJobId: string | null = null
-        if (request.userId && result.success && result.variants?.length) {
-          recordedJobId = await this.persistGeneratedContent(request, persistedId, result)
+    const source = await this.resolveRepurposeSource(request)
+    const { config: personaConfig, persistedId } = await this.resolvePersonaConfig(request.personaId, request.userId)
+
+    const groups = await Promise.all(
+      platforms.map(async (platform): Promise<[ComposerRequest['platform'], RepurposeGroup]> => {
+        const composerRequest = this.buildRepurposeRequest(request, source.input, platform, personaConfig)
+        const format = REPURPOSE_FORMATS[platform]
+        const maxLength = composerRequest.options!.maxLength!
+
+        // Captions are fitted before they're saved as posts
+        const finalize = platform === 'instagram'
+          ? (variant: ContentVariant) => this.fitHashtagRange(variant, 3, 5, maxLength)
+          : undefined
+
+        try {
+          const result = await this.runComposerRequest(composerRequest, personaConfig, persistedId, context, finalize)
+          return [platform, { ...result, format, maxLength }]
+        } catch (error) {
+          throwIfAborted(context.signal)
+          return [
+            platform,
+            {
+              success: false,
+              jobId: '',
+              status: 'FAILED',
+              error: error instanceof Error ? error.message : 'Generation failed',
+              format,
+              maxLength,
+            },
+          ]
         }
+      })
+    )
 
-        return {
-          success: result.success,
-          jobId: request.userId ? recordedJobId ?? 'sync' : 'demo-sync',
-          variants: result.variants,
-          error: result.error,
-        }
+    return {
+      success: groups.some(([, group]) => group.success),
+      source,
+      platforms: Object.fromEntries(groups),
+    }
+  }
+
+  private async resolveRepurposeSource(request: RepurposeRequest): Promise<RepurposeResult['source']> {
+    if (!request.sourcePostId) {
+      if (!request.input?.trim()) {
+        throw new Error('Either input or sourcePostId is required')
       }
+      return { input: request.input.trim() }
+    }
+
+    if (!request.userId) {
+      throw new Error('Sign in to repurpose a saved post')
+    }
+
+    const post = await prisma.post.findFirst({
+      where: { id: request.sourcePostId, userId: request.userId },
+      select: { id: true, content: true, platform: true },
+    })
+
+    if (!post) {
+      throw new Error('Source post not found')
+    }
+
+    return { input: post.content, postId: post.id, platform: post.platform }
+  }
+
+  private buildRepurposeRequest(
+    request: RepurposeRequest,
+    input: string,
+    platform: ComposerRequest['platform'],
+    personaConfig: PersonaEngineConfig
+  ): ComposerRequest {
+    const options: NonNullable<ComposerRequest['options']> = {
+      variants: request.options?.variants ?? 1,
+      maxLength: this.getPersonaCharLimit(personaConfig, platform),
+      includeEmojis: request.options?.includeEmojis ?? getPlatformSettings(personaConfig.platforms, platform).includeEmojis ?? false,
+      includeHashtags: platform === 'instagram',
+      llm: request.options?.llm,
+    }
+
+    if (platform === 'twitter') {
+      options.thread = {
+        tweets: request.options?.thread?.tweets ?? 5,
+        numbering: request.options?.thread?.numbering ?? 'fraction',
+      }
+    }
+
+    return {
+      input,
+      personaId: request.personaId,
+      platform,
+      userId: request.userId,
+      options,
+    }
+  }
+
+  // Persona `platforms` entries (e.g. { linkedin: { maxLength: 1500 } }) can lower a platform's limit
+  private getPersonaCharLimit(personaConfig: PersonaEngineConfig, platform: ComposerRequest['platform']): number {
+    const { maxLength } = getPlatformSettings(personaConfig.platforms, platform)
+    const limit = PLATFORM_CHAR_LIMITS[platform]
+
+    return maxLength ? Math.min(maxLength, limit) : limit
+  }
+
+  /**
+   * Keep between `min` and `max` hashtags on a caption, dropping extras and
+   * topping up from the platform defaults.
+   */
+  private fitHashtagRange(variant: ContentVariant, min: number, max: number, maxLength: number): ContentVariant {
+    const hashtagRegex = /#[^\s#]+/g
+    const tags = Array.from(new Set(variant.content.match(hashtagRegex) ?? []))
+    let content = variant.content
+
+    if (tags.length > max) {
+      const keep = new Set(tags.slice(0, max))
+      content = content
+        .replace(hashtagRegex, (tag) => (keep.has(tag) ? tag : ''))
+        .replace(/[ \t]{2,}/g, ' ')
+        .trim()
+    } else if (tags.length < min) {
+      const extra = this.generateHashtags('instagram').filter((tag) => !tags.includes(tag)).slice(0, min - tags.length)
+      const appended = `${content}\n\n${extra.join(' ')}`
+      if (appended.length <= maxLength) content = appended
+    }
+
+    if (content !== variant.content) {
+      variant.content = content
+      variant.hashtags = Array.from(new Set(content.match(hashtagRegex) ?? []))
+      variant.metadata.length = content.length
+      variant.metadata.tokenLength = countTokens(content)
+    }
+
+    return variant
+  }
+
+  /**
+   * Generate (or queue) one composer request for an already resolved persona.
+   */
+  private async runComposerRequest(
+    request: ComposerRequest,
+    personaConfig: PersonaEngineConfig,
+    persistedId: string | null,
+    context: GenerationContext,
+    finalize?: (variant: ContentVariant) => ContentVariant
+  ): Promise<BrainDumpResult> {
+    // In runner mode, signed-in Ollama requests are queued for a runner to pull.
+    // Demo requests (no user to own a job) and other providers generate directly.
+    if (request.userId && this.isRunnerMode()) {
+      const { contentRequest, maxTokens } = this.buildContentRequest(request, personaConfig)
+      const llm = this.resolveLlm(contentRequest, request.options?.llm, personaConfig, maxTokens)
+
+      if (llm.provider.name === 'ollama') {
+        await this.applySimilarExemplars(contentRequest, personaConfig, context.signal)
+        const job = await this.enqueueRunnerJob('BRAIN_DUMP', request, personaConfig, persistedId, contentRequest, llm)
 
-      if (!request.userId) {
-        const result = await this.generateSync(request, personaConfig)
         return {
-          success: result.success,
-          jobId: 'demo-sync',
-          variants: result.variants,
-          error: result.error,
+          success: true,
+          jobId: job?.id ?? 'queued',
+          status: 'QUEUED',
         }
       }
+    }
 
-      const job = await this.jobService.createComposerJob({
-        userId: request.userId,
-        type: 'BRAIN_DUMP',
-        personaId: personaConfig.id,
-        input: request,
-      })
+    const result = await this.generateSync(request, personaConfig, { userId: request.userId, ...context })
+    if (finalize && result.variants) {
+      result.variants = result.variants.map(finalize)
+    }
+    if (result.success && result.variants?.length) {
+      result.variants = await this.flagDuplicates(persistedId, result.variants)
+    }
+
+    let recordedJobId: string | null = null
+    if (request.userId && result.success && result.variants?.length) {
+      recordedJobId = await this.persistGeneratedContent(request, persistedId, personaConfig.version, result)
+    }
+
+    return {
+      success: result.success,
+      jobId: request.userId ? recordedJobId ?? 'sync' : 'demo-sync',
+      status: result.success ? 'COMPLETED' : 'FAILED',
+      variants: result.variants,
+      error: result.error,
+      metadata: result.metadata,
+    }
+  }
+
+  /**
+   * Generate replies to someone else's post with the persona's reply prompt.
+   * Replies are capped at the platform's comment limit and logged as
+   * REPLY_GENERATION jobs (queued for a runner in runner mode, like brain dumps).
+   */
+  async generateReplies(request: ReplyRequest, context: GenerationContext = {}): Promise<BrainDumpResult> {
+    if (!request.personaId || request.personaId.trim() === '') {
+      throw new Error('Persona ID is required')
+    }
+
+    const target = this.resolveReplyTarget(request)
+    const { config: personaConfig, persistedId } = await this.resolvePersonaConfig(request.personaId, request.userId)
+    const personaEngine = this.createPersonaEngine(personaConfig)
+    const contentRequest = this.buildReplyContentRequest(request, target, personaConfig)
+    await this.applySimilarExemplars(contentRequest, personaConfig, context.signal)
+    const maxTokens = contentRequest.options.maxTokens!
+    const llm = this.resolveLlm(contentRequest, request.options?.llm, personaConfig, maxTokens)
+
+    if (request.userId && this.isRunnerMode() && llm.provider.name === 'ollama') {
+      const job = await this.enqueueRunnerJob('REPLY_GENERATION', request, personaConfig, persistedId, contentRequest, llm)
 
       return {
         success: true,
         jobId: job?.id ?? 'queued',
+        status: 'QUEUED',
       }
+    }
 
-    } catch (error) {
-      throw error
+    const result = await this.generateWithProvider(personaEngine, contentRequest, llm, {
+      userId: request.userId,
+      ...context,
+    })
+
+    let recordedJobId: string | null = null
+    if (request.userId && result.success && result.variants.length) {
+      const { userId, ...input } = request
+      const job = await this.jobService.logJobResult({
+        userId,
+        personaId: persistedId,
+        personaVersion: personaConfig.version,
+        type: 'REPLY_GENERATION',
+        status: 'COMPLETED',
+        input,
+        output: {
+          variants: result.variants,
+          metadata: result.metadata,
+        },
+      })
+      recordedJobId = job?.id ?? null
+    }
+
+    return {
+      success: result.success,
+      jobId: request.userId ? recordedJobId ?? 'sync' : 'demo-sync',
+      status: result.success ? 'COMPLETED' : 'FAILED',
+      variants: result.variants,
+      error: result.error,
+      metadata: result.metadata,
     }
   }
 
-  async generateSync(request: ComposerRequest, personaConfig: PersonaEngineConfig): Promise<GenerationResult> {
-    try {
-      const personaEngine = PersonaEngine.fromDatabasePersona({
-        id: personaConfig.id,
-        name: personaConfig.name,
-        description: undefined,
-        tone: personaConfig.tone,
-        cadence: personaConfig.cadence,
-        donts: personaConfig.donts,
-        hookPatterns: personaConfig.hookPatterns,
-        ctaStyle: personaConfig.ctaStyle,
-        platforms: personaConfig.platforms,
-      })
+  private buildReplyContentRequest(
+    request: ReplyRequest,
+    { originalPost, thread, replyToIndex }: ReplyTarget,
+    personaConfig: PersonaEngineConfig
+  ): ContentRequest {
+    const platform = originalPost.platform
+    const settings = getPlatformSettings(personaConfig.platforms, platform)
+    const maxLength = Math.min(request.context.maxLength ?? 280, REPLY_MAX_LENGTH[platform])
 
-      // Determine limits based on platform with token support
-      const platformCharDefaults = {
-        twitter: 280,
-        linkedin: 3000,
-        instagram: 2200,
-      }
-      const platformTokenDefaults = {
-        twitter: 80,
-        linkedin: 750,
-        instagram: 550,
-      }
+    return {
+      type: 'reply',
+      input: originalPost.content,
+      personaId: request.personaId,
+      platform,
+      exemplars: selectExemplars(originalPost.content, personaConfig.exemplars ?? [], { platform }),
+      options: {
+        variants: request.options?.variants ?? 3,
+        maxLength,
+        maxTokens: Math.ceil(maxLength / approxCharsPerToken()),
+        includeHashtags: request.options?.includeHashtags ?? settings.includeHashtags ?? false,
+        includeEmojis: request.options?.includeEmojis ?? settings.includeEmojis ?? false,
+      },
+      replyContext: {
+        originalPost,
+        replyGoal: request.context.replyGoal,
+        maxLength,
+        thread,
+        replyToIndex,
+      },
+    }
+  }
 
-      const defaultCharLimit = platformCharDefaults[request.platform]
-      const maxLength = request.options?.maxLength ?? defaultCharLimit
-      const defaultTokenLimit = platformTokenDefaults[request.platform]
-      const maxTokens =
-        request.options?.maxTokens ??
-        defaultTokenLimit ??
-        Math.ceil(maxLength / approxCharsPerToken())
-
-      // Build content request
-      const contentRequest: ContentRequest = {
-        type: 'brain_dump',
-        input: request.input,
-        personaId: request.personaId,
-        platform: request.platform,
-        options: {
-          variants: request.options?.variants ?? 1,
-          maxLength,
-          maxTokens,
-          includeHashtags: request.options?.includeHashtags ?? false,
-          includeEmojis: request.options?.includeEmojis ?? false,
-        }
-      }
+  private resolveReplyTarget(request: ReplyRequest): ReplyTarget {
+    const { originalPost, thread, replyToIndex } = request.context
+    const platform = originalPost?.platform ?? request.context.platform ?? 'twitter'
 
-      // Check if we have Ollama runner mode or direct mode
-      const ollamaMode = process.env.OLLAMA_MODE || 'runner'
-      
-      if (ollamaMode === 'direct') {
-        return await this.generateWithDirectOllama(personaEngine, contentRequest)
-      } else {
-        // For runner mode, queue the job and return pending status
-        // In a real implementation, this would create a job and return job ID
-        // For now, we'll simulate direct generation for demo purposes
-        return await this.generateWithDirectOllama(personaEngine, contentRequest)
+    if (!thread?.length) {
+      if (!originalPost) {
+        throw new Error('Invalid reply context: an original post or a thread is required')
       }
+      return { originalPost: { ...originalPost, platform } }
+    }
+
+    const index = replyToIndex ?? thread.length - 1
+    if (index < 0 || index >= thread.length) {
+      throw new Error(`Invalid reply context: replyToIndex ${index} is outside the ${thread.length}-message thread`)
+    }
+
+    const target = thread[index]
+    if (!target.content.trim()) {
+      throw new Error(`Invalid reply context: message ${index + 1} has no content`)
+    }
+
+    return {
+      originalPost: {
+        content: target.content,
+        author: target.author.replace(/^@/, ''),
+        platform,
+        engagement: originalPost?.engagement,
+      },
+      thread,
+      replyToIndex: index,
+    }
+  }
+
+  async generateSync(
+    request: ComposerRequest,
+    personaConfig: PersonaEngineConfig,
+    context: GenerationContext = {}
+  ): Promise<GenerationResult> {
+    try {
+      const personaEngine = this.createPersonaEngine(personaConfig)
+      const { contentRequest, maxTokens } = this.buildContentRequest(request, personaConfig)
+      await this.applySimilarExemplars(contentRequest, personaConfig, context.signal)
+      const llm = this.resolveLlm(contentRequest, request.options?.llm, personaConfig, maxTokens)
+
+      return await this.generateWithProvider(personaEngine, contentRequest, llm, context)
 
     } catch (error) {
       return {
@@ -178,284 +612,766 @@ export class ComposerService {
     }
   }
 
+  /**
+   * Turn a runner's raw model output into variants using the same parse/validate
+   * path as synchronous generation, then finish the job.
+   */
+  async completeRunnerJob(
+    jobId: string,
+    runnerId: string,
+    result: {
+      responses: string[]
+      metadata?: { model?: string; processingTime?: number; tokenCount?: number }
+    }
+  ) {
+    const job = await this.jobService.getLeasedJob(jobId, runnerId)
 
-  private async generateWithDirectOllama(
-    personaEngine: PersonaEngine,
-    request: ContentRequest
-  ): Promise<GenerationResult> {
-    const startTime = Date.now()
-    console.log('Starting Ollama generation...')
+    if (!job) {
+      throw new Error('Job not found or lease no longer held by this runner')
+    }
 
-    try {
-      const ollamaUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
-      const model = 'gemma3:12b' // Default to Gemma 3 12B for richer outputs
-      console.log('Calling Ollama:', { ollamaUrl, model })
+    const input = job.input as RunnerJobInput | null
+    if (!input?.contentRequest || !input.persona) {
+      return await this.jobService.failJob(jobId, runnerId, 'Job input is not a composer runner payload')
+    }
 
-      const variants: ContentVariant[] = []
-      const variantCount = request.options?.variants ?? 1
-      const tokenLimit =
-        request.options.maxTokens ??
-        Math.ceil((request.options.maxLength ?? 280) / approxCharsPerToken())
-      const charLimit =
-        request.options.maxLength ?? Math.ceil(tokenLimit * approxCharsPerToken())
-
-      for (let i = 0; i < variantCount; i++) {
-        console.log(`Generating variant ${i + 1}/${variantCount}...`)
-
-        const hookStyle = i === 0 ? 'Ask a question' : i === 1 ? 'Share an insight' : 'Tell a story'
-        const includeHashtags = request.options?.includeHashtags ?? false
-        const includeEmojis = request.options?.includeEmojis ?? false
-
-        const rules: string[] = [
-          `- Keep the entire post under ${charLimit} characters (approx ${tokenLimit} tokens).`,
-          '- Return ONLY the final post text. No headings, instructions, or additional sections.',
-          '- Write a single, polished post without replies or follow-up content.'
-        ]
+    const contentRequest = input.contentRequest
+    const personaEngine = this.createPersonaEngine(input.persona)
 
-        if (includeHashtags) {
-          rules.push('- Include 1-2 concise hashtags only if they add value (preferably at the end).')
-        } else {
-          rules.push('- Do not include hashtags.')
-        }
+    const variants = result.responses.map((response, index) =>
+      this.buildVariantFromText(response, input.prompts[index]?.variantId ?? `variant_${index + 1}`, contentRequest)
+    )
 
-        if (includeEmojis) {
-          rules.push('- Emojis are allowed; use them sparingly to add personality.')
-        } else {
-          rules.push('- Do not use emojis.')
-        }
+    const generation = personaEngine.validateOutput(variants, contentRequest)
+    generation.metadata.processingTime = result.metadata?.processingTime ?? 0
+    generation.metadata.model = result.metadata?.model ?? input.llm.model
+    generation.metadata.provider = input.llm.provider
+
+    if (!generation.success) {
+      return await this.jobService.failJob(
+        jobId,
+        runnerId,
+        generation.error ?? 'Runner response produced no usable variants'
+      )
+    }
 
-        const basePrompt = `You are writing a ${request.platform} post.
-${rules.join('\n')}
+    // Replies to other people's posts aren't drafts of the user's own posts
+    if (job.type !== 'REPLY_GENERATION') {
+      generation.variants = await this.flagDuplicates(job.personaId, generation.variants)
+    }
 
-Topic: "${request.input}"
+    const completed = await this.jobService.completeJob(jobId, runnerId, {
+      variants: generation.variants,
+      metadata: generation.metadata,
+    })
 
-Style hint: ${hookStyle}.
+    if (job.type !== 'REPLY_GENERATION') {
+      await this.persistPosts(
+        job.userId,
+        contentRequest.platform,
+        { personaId: job.personaId, personaVersion: job.personaVersion },
+        generation.variants,
+        jobId
+      )
+    }
 
-Produce a single post that satisfies every rule above.`
+    return completed
+  }
 
-        const maxAttempts = 4
-        let attempt = 0
-        let prompt = basePrompt
-        let acceptedVariant: ContentVariant | null = null
-        let lastVariant: ContentVariant | null = null
-        let lastCharLength = 0
-        let lastTokenLength = 0
+  /**
+   * Swap the keyword-picked exemplars for the persona's most similar past posts
+   * and exemplars from its embedding index. Retrieval problems never fail a
+   * generation; the keyword picks are kept instead.
+   */
+  private async applySimilarExemplars(
+    contentRequest: ContentRequest,
+    personaConfig: PersonaEngineConfig,
+    signal?: AbortSignal
+  ) {
+    // Built-in personas have no saved posts to index
+    if (personaConfig.version === undefined || !this.embeddingService.enabled) return
 
-        while (attempt < maxAttempts) {
-          attempt++
-          console.log(`Sending prompt to Ollama (attempt ${attempt}/${maxAttempts}):\n${prompt}`)
+    try {
+      const matches = await this.embeddingService.findSimilar(personaConfig.id, contentRequest.input, {
+        limit: SIMILAR_EXEMPLAR_CANDIDATES,
+        signal,
+      })
+      const exemplars = rankSimilarExemplars(matches, { platform: contentRequest.platform })
+      if (exemplars.length > 0) {
+        contentRequest.exemplars = exemplars
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.warn('Similar exemplar lookup failed, keeping keyword matches:', error)
+    }
+  }
 
-          const response = await fetch(`${ollamaUrl}/api/generate`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model,
-              prompt,
-              stream: false,
-              options: {
-                temperature: 0.7,
-                num_predict: 150,
-              },
-            }),
-          })
+  /**
+   * Warn on drafts that closely repeat something the persona has already posted
+   */
+  private async flagDuplicates(personaId: string | null, variants: ContentVariant[]): Promise<ContentVariant[]> {
+    if (!personaId || !this.embeddingService.enabled || variants.length === 0) return variants
 
-          console.log(`Ollama response status: ${response.status}`)
+    try {
+      const duplicates = await this.embeddingService.findDuplicates(
+        personaId,
+        variants.map((variant) => variant.content),
+        getDuplicateThreshold()
+      )
 
-          if (!response.ok) {
-            throw new Error(`Ollama API error: ${response.statusText}`)
-          }
+      return variants.map((variant, index) => {
+        const match = duplicates[index]
+        if (!match) return variant
 
-          const result = await response.json()
-          const content = normalizeToString(result.response).trim()
-          const generatedTokens = countTokens(content)
-          console.log(
-            `Generated content (${content.length} chars, ${generatedTokens} tokens):`,
-            content.slice(0, 200) + '...'
-          )
+        return {
+          ...variant,
+          metadata: {
+            ...variant.metadata,
+            duplicate: {
+              similarity: Math.round(match.similarity * 100) / 100,
+              content: match.content,
+              source: match.sourceType === 'post' ? 'post' : 'upload',
+              ...(match.postedAt ? { postedAt: match.postedAt } : {}),
+            },
+          },
+        }
+      })
+    } catch (error) {
+      console.warn('Duplicate check failed:', error)
+      return variants
+    }
+  }
 
-          const candidate = this.parseGeneratedContent(content, `variant_${i + 1}`, request)
-          candidate.metadata.length = candidate.content.length
-          candidate.metadata.tokenLength = countTokens(candidate.content)
+  private isRunnerMode(): boolean {
+    return (process.env.OLLAMA_MODE || 'runner') === 'runner'
+  }
 
-          lastVariant = candidate
-          lastCharLength = candidate.metadata.length
-          lastTokenLength = candidate.metadata.tokenLength
+  private createPersonaEngine(personaConfig: PersonaEngineConfig): PersonaEngine {
+    return PersonaEngine.fromDatabasePersona({
+      id: personaConfig.id,
+      name: personaConfig.name,
+      description: undefined,
+      tone: personaConfig.tone,
+      cadence: personaConfig.cadence,
+      donts: personaConfig.donts,
+      hookPatterns: personaConfig.hookPatterns,
+      ctaStyle: personaConfig.ctaStyle,
+      platforms: personaConfig.platforms,
+      llm: personaConfig.llm,
+    })
+  }
 
-          if (candidate.metadata.length <= charLimit && candidate.metadata.tokenLength <= tokenLimit) {
-            acceptedVariant = candidate
-            break
-          }
+  private buildContentRequest(
+    request: ComposerRequest,
+    personaConfig: PersonaEngineConfig
+  ): { contentRequest: ContentRequest; maxTokens: number } {
+    if (request.options?.thread && request.platform !== 'twitter') {
+      throw new Error('Thread mode is only available for X/Twitter')
+    }
 
-          console.log(
-            `Variant ${i + 1} exceeded limits (${candidate.metadata.length}/${charLimit} chars, ${candidate.metadata.tokenLength}/${tokenLimit} tokens)`
-          )
+    // Determine limits based on platform with token support
+    const platformTokenDefaults = {
+      twitter: 80,
+      linkedin: 750,
+      instagram: 550,
+    }
 
-          if (attempt >= maxAttempts) {
-            break
-          }
+    // Request options win, then the persona's settings for this platform, then platform defaults
+    const settings = getPlatformSettings(personaConfig.platforms, request.platform)
+    const defaultCharLimit = PLATFORM_CHAR_LIMITS[request.platform]
+    const threadOptions = request.options?.thread
+    // For threads the limits apply to each tweet, which can never exceed a single post
+    const maxLength = threadOptions
+      ? Math.min(request.options?.maxLength ?? settings.maxLength ?? defaultCharLimit, defaultCharLimit)
+      : request.options?.maxLength ?? settings.maxLength ?? defaultCharLimit
+    const defaultTokenLimit = platformTokenDefaults[request.platform]
+    const maxTokens =
+      request.options?.maxTokens ??
+      settings.maxTokens ??
+      defaultTokenLimit ??
+      Math.ceil(maxLength / approxCharsPerToken())
+
+    // Build content request
+    const ctaStyle = PersonaSchema.shape.ctaStyle.safeParse(settings.ctaStyle ?? personaConfig.ctaStyle)
+    const contentRequest: ContentRequest = {
+      type: threadOptions ? 'thread' : 'brain_dump',
+      input: request.input,
+      personaId: request.personaId,
+      platform: request.platform,
+      exemplars: selectExemplars(request.input, personaConfig.exemplars ?? [], { platform: request.platform }),
+      options: {
+        variants: request.options?.variants ?? 1,
+        maxLength,
+        maxTokens,
+        includeHashtags: request.options?.includeHashtags ?? settings.includeHashtags ?? false,
+        includeEmojis: request.options?.includeEmojis ?? settings.includeEmojis ?? false,
+        ...(threadOptions
+          ? {
+              thread: {
+                tweets: threadOptions.tweets ?? 5,
+                numbering: threadOptions.numbering ?? 'fraction',
+                ctaStyle: ctaStyle.success ? ctaStyle.data : undefined,
+              },
+            }
+          : {}),
+      }
+    }
 
-          prompt = `${basePrompt}
+    return { contentRequest, maxTokens }
+  }
 
-Your previous attempt was ${lastCharLength} characters and ${lastTokenLength} tokens.
-Rewrite the single ${request.platform} post to satisfy every rule: stay under ${charLimit} characters, no extra sections, no replies, no labels—just the final post text. Remove filler until the post meets the limit.`
-        }
+  private resolveLlm(
+    contentRequest: ContentRequest,
+    override: LlmSelection | undefined,
+    personaConfig: PersonaEngineConfig,
+    maxTokens: number
+  ) {
+    // A thread is generated in one call, so budget for every tweet
+    const outputTokens = isThreadRequest(contentRequest) ? maxTokens * getThreadOptions(contentRequest).tweets : maxTokens
 
-        let finalVariant: ContentVariant | null = acceptedVariant
+    // Request overrides win over persona defaults, which win over LLM_* env defaults
+    return resolveLlmSelection(
+      [personaConfig.llm, parseLlmSelection(override)],
+      { temperature: 0.7, maxTokens: Math.max(150, outputTokens * 2) }
+    )
+  }
 
-        if (!finalVariant && lastVariant) {
-          console.log(
-            `All attempts exceeded limits. Applying fallback clamp (may reduce richness).`
-          )
-          const originalFallbackContent = lastVariant.content
-          const fallback = applyOutputLimits(originalFallbackContent, {
-            maxTokens: tokenLimit,
-            maxLength: charLimit,
-          })
+  private getOutputLimits(request: ContentRequest): { charLimit: number; tokenLimit: number } {
+    const tokenLimit =
+      request.options.maxTokens ??
+      Math.ceil((request.options.maxLength ?? 280) / approxCharsPerToken())
+    const charLimit =
+      request.options.maxLength ?? Math.ceil(tokenLimit * approxCharsPerToken())
 
-          lastVariant.content = fallback.text
-          lastVariant.metadata.length = fallback.text.length
-          lastVariant.metadata.tokenLength = fallback.tokens
-          lastVariant.metadata.wasTruncated = true
-          lastVariant.metadata.originalLength =
-            lastVariant.metadata.originalLength ?? originalFallbackContent.length
-          lastVariant.metadata.originalContent =
-            lastVariant.metadata.originalContent ?? originalFallbackContent
-
-          if (fallback.charOverflow > 0) {
-            lastVariant.metadata.overLimit = Math.max(
-              lastVariant.metadata.overLimit ?? 0,
-              fallback.charOverflow
-            )
-          }
+    return { charLimit, tokenLimit }
+  }
 
-          if (fallback.tokenOverflow > 0) {
-            lastVariant.metadata.overTokenLimit = Math.max(
-              lastVariant.metadata.overTokenLimit ?? 0,
-              fallback.tokenOverflow
-            )
-          }
+  private async enqueueRunnerJob(
+    type: 'BRAIN_DUMP' | 'REPLY_GENERATION',
+    request: ComposerRequest | ReplyRequest,
+    personaConfig: PersonaEngineConfig,
+    persistedPersonaId: string | null,
+    contentRequest: ContentRequest,
+    llm: ResolvedLlmSelection
+  ) {
+    const { charLimit, tokenLimit } = this.getOutputLimits(contentRequest)
+    const variantCount = contentRequest.options.variants ?? 1
+    const personaEngine = this.createPersonaEngine(personaConfig)
+    const { userId, ...requestWithoutUser } = request
+    // The selected exemplars already live in the content request and prompts
+    const { exemplars: _exemplars, ...persona } = personaConfig
+
+    const input: RunnerJobInput = {
+      request: requestWithoutUser,
+      persona,
+      contentRequest,
+      llm: {
+        provider: llm.provider.name,
+        model: llm.model,
+        options: llm.options,
+      },
+      prompts: Array.from({ length: variantCount }, (_, index) => ({
+        variantId: `variant_${index + 1}`,
+        prompt: this.buildVariantPrompt(personaEngine, contentRequest, index, charLimit, tokenLimit),
+        system: personaEngine.buildSystemMessage(contentRequest.type, contentRequest.platform),
+      })),
+    }
 
-          finalVariant = lastVariant
-        }
+    return await this.jobService.createComposerJob({
+      userId: userId!,
+      type,
+      personaId: persistedPersonaId,
+      personaVersion: personaConfig.version,
+      input,
+    })
+  }
 
-        if (!finalVariant) {
-          throw new Error('Failed to produce a variant within the specified limits.')
-        }
+  private async generateWithProvider(
+    personaEngine: PersonaEngine,
+    request: ContentRequest,
+    llm: ResolvedLlmSelection,
+    context: GenerationContext = {}
+  ): Promise<GenerationResult> {
+    const startTime = Date.now()
+    const { provider, model } = llm
+    const { onEvent, signal } = context
+    console.log(`Starting ${provider.name} generation...`)
 
-        // Ensure metadata reflects final content limits
-        finalVariant.metadata.length = finalVariant.content.length
-        finalVariant.metadata.tokenLength = countTokens(finalVariant.content)
+    // One failed variant cancels its siblings instead of letting them hold LLM slots
+    const variantsController = new AbortController()
+    const cancelVariants = () => variantsController.abort()
+    if (signal?.aborted) cancelVariants()
+    signal?.addEventListener('abort', cancelVariants, { once: true })
+    const variantContext: GenerationContext = { ...context, signal: variantsController.signal }
 
-        if (!finalVariant.metadata.wasTruncated) {
-          finalVariant.metadata.originalLength = undefined
-          finalVariant.metadata.originalContent = undefined
-          finalVariant.metadata.overLimit = undefined
-          finalVariant.metadata.overTokenLimit = undefined
-        }
+    try {
+      console.log('Calling LLM provider:', { provider: provider.name, model, options: llm.options })
 
-        console.log(`Parsed variant:`, JSON.stringify(finalVariant, null, 2))
-        variants.push(finalVariant)
-      }
+      const variantCount = request.options?.variants ?? 1
+      const { charLimit, tokenLimit } = this.getOutputLimits(request)
+
+      onEvent?.({ type: 'start', variants: variantCount, provider: provider.name, model })
+
+      // Variants run concurrently, bounded by the per-user and global LLM budgets
+      const outcomes = await Promise.all(
+        Array.from({ length: variantCount }, (_, index) => {
+          const queuedAt = Date.now()
+
+          return withLlmSlot(context.userId, variantsController.signal, async () => {
+            const startedAt = Date.now()
+            const outcome = await this.generateVariant(
+              personaEngine,
+              request,
+              index,
+              llm,
+              charLimit,
+              tokenLimit,
+              variantContext
+            )
+
+            return {
+              ...outcome,
+              timing: {
+                variantId: outcome.variant.id,
+                attempts: outcome.attempts,
+                queuedMs: startedAt - queuedAt,
+                durationMs: Date.now() - startedAt,
+              },
+            }
+          })
+        })
+      )
 
+      const variants = outcomes.map((outcome) => outcome.variant)
       const result = personaEngine.validateOutput(variants, request)
       result.metadata.processingTime = Date.now() - startTime
       result.metadata.model = model
+      result.metadata.provider = provider.name
+      result.metadata.variantTimings = outcomes.map((outcome) => outcome.timing)
 
       return result
     } catch (error) {
-      console.error('Ollama generation error:', error)
+      variantsController.abort()
+
+      if (signal?.aborted) {
+        console.log(`${provider.name} generation cancelled after ${Date.now() - startTime}ms`)
+      } else {
+        console.error(`${provider.name} generation error:`, error)
+      }
+
       return {
         success: false,
         variants: [],
-        error: error instanceof Error ? error.message : 'Generation failed',
+        error: signal?.aborted ? 'Generation cancelled' : error instanceof Error ? error.message : 'Generation failed',
         metadata: {
           personaUsed: request.personaId,
           processingTime: Date.now() - startTime,
         },
       }
+    } finally {
+      signal?.removeEventListener('abort', cancelVariants)
     }
   }
 
-  private parseGeneratedContent(content: string, variantId: string, request: ContentRequest): ContentVariant {
-    let sanitized = normalizeToString(content).trim()
+  /**
+   * Generate one variant, re-prompting up to four times while it exceeds the
+   * output limits or breaks the persona's rules, and clamping the last attempt
+   * if none fit.
+   */
+  private async generateVariant(
+    personaEngine: PersonaEngine,
+    request: ContentRequest,
+    index: number,
+    llm: ResolvedLlmSelection,
+    charLimit: number,
+    tokenLimit: number,
+    context: GenerationContext
+  ): Promise<{ variant: ContentVariant; attempts: number }> {
+    const { provider, model } = llm
+    const { onEvent, signal } = context
+    const variantId = `variant_${index + 1}`
+    const isThread = isThreadRequest(request)
+    const threadLength = getThreadOptions(request).tweets
+    console.log(`Generating variant ${index + 1}/${request.options?.variants ?? 1}...`)
+
+    const basePrompt = this.buildVariantPrompt(personaEngine, request, index, charLimit, tokenLimit)
+    const system = personaEngine.buildSystemMessage(request.type, request.platform)
+
+    const maxAttempts = 4
+    let attempt = 0
+    let prompt = basePrompt
+    let acceptedVariant: ContentVariant | null = null
+    let fittingVariant: ContentVariant | null = null
+    let lastVariant: ContentVariant | null = null
+    let lastCharLength = 0
+    let lastTokenLength = 0
+
+    while (attempt < maxAttempts) {
+      throwIfAborted(signal)
+      attempt++
+      console.log(`Sending prompt to ${provider.name} (attempt ${attempt}/${maxAttempts}):\n${prompt}`)
+
+      const generation: LlmGenerateRequest = { prompt, system, model, options: llm.options, signal }
+      const currentAttempt = attempt
+      const text = onEvent
+        ? await this.collectStream(provider, generation, (delta) =>
+            onEvent({ type: 'token', variantId, attempt: currentAttempt, delta })
+          )
+        : (await provider.generate(generation)).text
 
-    sanitized = sanitized.replace(/^['"`]+|['"`]+$/g, '')
-    sanitized = sanitized.replace(/^```(?:[a-zA-Z]+)?\s*([\s\S]*?)\s*```$/g, '$1').trim()
-    sanitized = sanitized.replace(/\b(?:Hook|Body|CTA|Copy|Variant)\s*[:\-]\s*/gi, '')
+      const content = normalizeToString(text).trim()
+      const generatedTokens = provider.countTokens(content)
+      console.log(
+        `Generated content (${content.length} chars, ${generatedTokens} tokens):`,
+        content.slice(0, 200) + '...'
+      )
 
-    const cutoffMarkers = ['\nReplies', '\nReply', '\n---', '\n# Replies', '\nAdditional context', '\nNotes']
-    for (const markerString of cutoffMarkers) {
-      const idx = sanitized.toLowerCase().indexOf(markerString.toLowerCase())
-      if (idx >= 0) {
-        sanitized = sanitized.slice(0, idx).trim()
+      const candidate = this.buildVariantFromText(content, variantId, request)
+
+      lastVariant = candidate
+      lastCharLength = candidate.metadata.length
+      lastTokenLength = candidate.metadata.tokenLength ?? 0
+
+      const fitsLimits = isThread
+        ? threadFitsLimits(candidate, charLimit, tokenLimit, threadLength)
+        : candidate.metadata.length <= charLimit && lastTokenLength <= tokenLimit
+
+      if (fitsLimits) {
+        const compliance = await this.checkVariantCompliance(personaEngine, candidate, request, llm, signal)
+        candidate.metadata.compliance = compliance
+        fittingVariant = candidate
+
+        if (compliance.passed) {
+          acceptedVariant = candidate
+          break
+        }
+
+        const broken = compliance.violations.filter((violation) => violation.severity === 'error')
+        console.log(`Variant ${index + 1} broke persona rules: ${broken.map((violation) => violation.message).join('; ')}`)
+        onEvent?.({
+          type: 'attempt',
+          variantId,
+          attempt,
+          maxAttempts,
+          length: lastCharLength,
+          tokenLength: lastTokenLength,
+          charLimit,
+          tokenLimit,
+          message: `Attempt ${attempt} broke persona rules: ${broken.map((violation) => violation.rule).join(', ')}`,
+        })
+
+        if (attempt >= maxAttempts) {
+          break
+        }
+
+        prompt = `${basePrompt}
+
+Your previous attempt broke these rules:
+${broken.map((violation) => `- ${violation.message}`).join('\n')}
+Rewrite it so it follows every rule while keeping the same format.`
+        continue
+      }
+
+      console.log(
+        `Variant ${index + 1} exceeded limits (${candidate.metadata.length}/${charLimit} chars, ${candidate.metadata.tokenLength}/${tokenLimit} tokens)`
+      )
+      onEvent?.({
+        type: 'attempt',
+        variantId,
+        attempt,
+        maxAttempts,
+        length: lastCharLength,
+        tokenLength: lastTokenLength,
+        charLimit,
+        tokenLimit,
+        message: isThread
+          ? `Attempt ${attempt}: ${describeThreadOverflow(candidate, charLimit, tokenLimit, threadLength)}`
+          : `Attempt ${attempt} exceeded limits (${lastCharLength}/${charLimit} chars, ${lastTokenLength}/${tokenLimit} tokens)`,
+      })
+
+      if (attempt >= maxAttempts) {
+        break
+      }
+
+      if (isThread) {
+        prompt = `${basePrompt}
+
+${describeThreadOverflow(candidate, charLimit, tokenLimit, threadLength)}
+Rewrite the whole thread as exactly ${threadLength} tweets that each fit the limit, keeping the --- separators between tweets.`
+        continue
       }
+
+      prompt = `${basePrompt}
+
+Your previous attempt was ${lastCharLength} characters and ${lastTokenLength} tokens.
+Rewrite the single ${request.platform} ${request.type === 'reply' ? 'reply' : 'post'} to satisfy every rule: stay under ${charLimit} characters combined, no extra sections, no replies—just the JSON. Remove filler until the post meets the limit.`
     }
 
-    const includeHashtags = request.options?.includeHashtags ?? false
-    const includeEmojis = request.options?.includeEmojis ?? false
+    // A variant that fits the limits beats a clamped one, even if it still breaks a rule
+    let finalVariant: ContentVariant | null = acceptedVariant ?? fittingVariant
 
-    if (!includeEmojis) {
-      sanitized = sanitized.replace(/\p{Extended_Pictographic}/gu, '')
+    if (!finalVariant && lastVariant && isThread) {
+      console.log('All attempts exceeded per-tweet limits. Clamping each tweet.')
+      finalVariant = clampThread(lastVariant, charLimit, tokenLimit)
     }
 
-    sanitized = sanitized.replace(/\s+\n/g, ' ').replace(/\n+/g, ' ')
-    sanitized = sanitized.replace(/\s{2,}/g, ' ').trim()
+    if (!finalVariant && lastVariant) {
+      console.log(
+        `All attempts exceeded limits. Applying fallback clamp (may reduce richness).`
+      )
+      const originalFallbackContent = lastVariant.content
+      const fallback = applyOutputLimits(originalFallbackContent, {
+        maxTokens: tokenLimit,
+        maxLength: charLimit,
+      })
 
-    let hashtags: string[] = []
+      lastVariant.content = fallback.text
+      lastVariant.metadata.length = fallback.text.length
+      lastVariant.metadata.tokenLength = fallback.tokens
+      lastVariant.metadata.wasTruncated = true
+      lastVariant.metadata.originalLength =
+        lastVariant.metadata.originalLength ?? originalFallbackContent.length
+      lastVariant.metadata.originalContent =
+        lastVariant.metadata.originalContent ?? originalFallbackContent
+
+      if (fallback.charOverflow > 0) {
+        lastVariant.metadata.overLimit = Math.max(
+          lastVariant.metadata.overLimit ?? 0,
+          fallback.charOverflow
+        )
+      }
 
-    if (includeHashtags) {
-      const hashtagRegex = /#[^\s#]+/g
-      let extractedMatches = sanitized.match(hashtagRegex)
-      let extracted = extractedMatches ? Array.from(extractedMatches) : []
-
-      if (extracted.length === 0) {
-        const generated = this.generateHashtags(request.platform)
-        if (generated.length) {
-          const appended = `${sanitized} ${generated.join(' ')}`.trim()
-          sanitized = appended
-          extractedMatches = sanitized.match(hashtagRegex)
-          extracted = extractedMatches ? Array.from(extractedMatches) : generated
-        }
+      if (fallback.tokenOverflow > 0) {
+        lastVariant.metadata.overTokenLimit = Math.max(
+          lastVariant.metadata.overTokenLimit ?? 0,
+          fallback.tokenOverflow
+        )
       }
 
-      hashtags = extracted.map((tag) => tag.trim())
-    } else {
-      sanitized = sanitized.replace(/(?:^|\s)#[^\s#]+/g, (match) => (match.startsWith(' ') ? ' ' : ''))
+      finalVariant = lastVariant
     }
 
-    if (!includeEmojis) {
-      sanitized = sanitized.replace(/\p{Extended_Pictographic}/gu, '')
+    if (!finalVariant) {
+      throw new Error('Failed to produce a variant within the specified limits.')
+    }
+
+    // Ensure metadata reflects final content limits
+    finalVariant.metadata.length = finalVariant.content.length
+    finalVariant.metadata.tokenLength = countTokens(finalVariant.content)
+
+    finalVariant.metadata.compliance ??= personaEngine.checkCompliance(finalVariant.content)
+    attachAlgoAnalysis(finalVariant, request.platform, charLimit)
+
+    if (!finalVariant.metadata.wasTruncated) {
+      finalVariant.metadata.originalLength = undefined
+      finalVariant.metadata.originalContent = undefined
+      finalVariant.metadata.overLimit = undefined
+      finalVariant.metadata.overTokenLimit = undefined
+    }
+
+    console.log(`Parsed variant:`, JSON.stringify(finalVariant, null, 2))
+    onEvent?.({ type: 'variant', variant: finalVariant })
+
+    return { variant: finalVariant, attempts: attempt }
+  }
+
+  private async checkVariantCompliance(
+    personaEngine: PersonaEngine,
+    variant: ContentVariant,
+    request: ContentRequest,
+    llm: ResolvedLlmSelection,
+    signal?: AbortSignal
+  ): Promise<ComplianceReport> {
+    let report = personaEngine.checkCompliance(variant.content)
+
+    const thread = request.replyContext?.thread
+    if (thread?.length) {
+      const repeated = findRepeatedPoints(variant.content, thread)
+      if (repeated.length) {
+        report = buildReport([...report.violations, ...repeated])
+      }
+    }
+
+    if (!report.passed || !isComplianceJudgeEnabled()) {
+      return report
+    }
+
+    const judged = await judgeCompliance(llm.provider, llm.model, personaEngine.getVoiceProfile(), variant.content, signal)
+    return buildReport([...report.violations, ...judged])
+  }
+
+  private async collectStream(
+    provider: LlmProvider,
+    request: LlmGenerateRequest,
+    onDelta: (delta: string) => void
+  ): Promise<string> {
+    let text = ''
+    for await (const delta of provider.stream(request)) {
+      text += delta
+      onDelta(delta)
     }
+    return text
+  }
 
-    sanitized = sanitized.replace(/\s{2,}/g, ' ').trim()
+  /**
+   * The persona's compiled composer prompt for a single post, plus the hard limits
+   * and a hook pattern that differs per variant.
+   */
+  private buildVariantPrompt(
+    personaEngine: PersonaEngine,
+    request: ContentRequest,
+    index: number,
+    charLimit: number,
+    tokenLimit: number
+  ): string {
+    const fallbackHooks = ['Ask a question', 'Share an insight', 'Tell a story']
+    const hookStyle = personaEngine.getHookPattern(index, request.platform) ?? fallbackHooks[index % fallbackHooks.length]
+    if (isThreadRequest(request)) {
+      return buildThreadPrompt(request, charLimit, tokenLimit, hookStyle)
+    }
+
+    const personaPrompt = personaEngine.buildPrompt({
+      ...request,
+      options: { ...request.options, variants: 1 },
+    })
+
+    const author = request.replyContext?.originalPost.author
+    const thread = request.replyContext?.thread
+    const conversationRules = thread && thread.length > 1
+      ? [
+          `- You are replying to message ${(request.replyContext?.replyToIndex ?? thread.length - 1) + 1}. Address ${author ? `@${author}` : 'its author'}, not the other people in the conversation.`,
+          "- Don't repeat points already made in the conversation; add something nobody has said yet.",
+        ]
+      : []
+    const rules: string[] = request.type === 'reply'
+      ? [
+          `- Keep the whole reply under ${charLimit} characters (approx ${tokenLimit} tokens).`,
+          `- Respond to ${author || 'the author'} directly. Don't restate their post or open with generic praise like "Great post!".`,
+          ...conversationRules,
+          '- No links and no @-mentions; the platform adds the mention.',
+          `- Angle for this reply: ${REPLY_ANGLES[index % REPLY_ANGLES.length]}.`,
+          '- Return ONLY the JSON array with exactly one item. No code fences or commentary.',
+        ]
+      : [
+          `- Keep the entire post (hook, body and cta combined) under ${charLimit} characters (approx ${tokenLimit} tokens).`,
+          '- Write a single, polished post without replies or follow-up content.',
+          `- Open with this hook pattern: ${hookStyle}.`,
+          '- Return ONLY the JSON array with exactly one item. No code fences or commentary.',
+        ]
+
+    return `${personaPrompt.trim()}
+
+HARD RULES:
+${rules.join('\n')}`
+  }
+
+  private buildVariantFromText(content: string, variantId: string, request: ContentRequest): ContentVariant {
+    if (isThreadRequest(request)) {
+      return buildThreadVariant(content, variantId, request)
+    }
+
+    const variant = this.parseGeneratedContent(content, variantId, request)
+    if (request.type === 'reply') {
+      // Models like to address the author by handle, which just wastes characters
+      const stripMention = (text: string) => text.replace(/^\s*(?:@\w+[\s,:]*)+/, '')
+      variant.content = stripMention(variant.content)
+      variant.hook = variant.hook ? stripMention(variant.hook) : variant.hook
+    }
+    variant.metadata.length = variant.content.length
+    variant.metadata.tokenLength = countTokens(variant.content)
+    return variant
+  }
+
+  /**
+   * Parse model output into hook/body/CTA. JSON output is preferred; prose falls
+   * back to heuristic sentence splitting.
+   */
+  private parseGeneratedContent(content: string, variantId: string, request: ContentRequest): ContentVariant {
+    const includeHashtags = request.options?.includeHashtags ?? false
+
+    const sections = parseStructuredPosts(content)[0] ?? splitPostSections(this.stripModelArtifacts(content))
+
+    const hook = this.sanitizeSection(sections.hook, request)
+    const cta = this.sanitizeSection(sections.cta, request)
+    let body = this.sanitizeSection(sections.body, request) ?? ''
+    let sanitized = joinSections({ hook, body, cta })
+
+    let hashtags: string[] = []
+
+    if (includeHashtags) {
+      const hashtagRegex = /#[^\s#]+/g
+      const inline = Array.from(sanitized.match(hashtagRegex) ?? [])
+      // Tags returned in the JSON `hashtags` field still have to appear in the post
+      const missing = sections.hashtags.filter((tag) => !inline.includes(tag))
+      const extra = inline.length === 0 && missing.length === 0 ? this.generateHashtags(request.platform) : missing
+
+      if (extra.length) {
+        sanitized = `${sanitized} ${extra.join(' ')}`.trim()
+      }
+
+      hashtags = Array.from(new Set([...inline, ...extra].map((tag) => tag.trim())))
+    }
 
     if (!sanitized) {
       sanitized = 'Preview unavailable.'
     }
 
-    if (includeHashtags && hashtags.length) {
-      hashtags = Array.from(new Set(hashtags.map((tag) => tag.trim())))
+    if (!body) {
+      body = sanitized
     }
 
-    const hashtagsForMeta = includeHashtags ? hashtags : []
-
     return {
       id: variantId,
       content: sanitized,
-      body: sanitized,
-      hook: sanitized,
-      cta: undefined,
-      hashtags: hashtagsForMeta,
+      body,
+      hook,
+      cta,
+      hashtags,
       metadata: {
         length: sanitized.length,
         sentiment: 'positive',
-        hookType: this.getHookType(sanitized),
+        hookType: sections.hookType ?? this.getHookType(hook ?? sanitized),
       },
     }
   }
 
+  private stripModelArtifacts(content: string): string {
+    let sanitized = normalizeToString(content).trim()
+
+    sanitized = sanitized.replace(/^['"`]+|['"`]+$/g, '')
+    sanitized = sanitized.replace(/^```(?:[a-zA-Z]+)?\s*([\s\S]*?)\s*```$/g, '$1').trim()
+
+    const cutoffMarkers = ['\nReplies', '\nReply', '\n---', '\n# Replies', '\nAdditional context', '\nNotes']
+    for (const markerString of cutoffMarkers) {
+      const idx = sanitized.toLowerCase().indexOf(markerString.toLowerCase())
+      if (idx >= 0) {
+        sanitized = sanitized.slice(0, idx).trim()
+      }
+    }
+
+    return sanitized
+  }
+
+  private sanitizeSection(text: string | undefined, request: ContentRequest): string | undefined {
+    if (!text) return undefined
+
+    let sanitized = text.replace(/^['"`]+|['"`]+$/g, '')
+    sanitized = sanitized.replace(/\b(?:Hook|Body|CTA|Copy|Variant)\s*[:\-]\s*/gi, '')
+
+    if (!(request.options?.includeEmojis ?? false)) {
+      sanitized = sanitized.replace(/\p{Extended_Pictographic}/gu, '')
+    }
+
+    if (!(request.options?.includeHashtags ?? false)) {
+      sanitized = sanitized.replace(/(?:^|\s)#[^\s#]+/g, (match) => (match.startsWith(' ') ? ' ' : ''))
+    }
+
+    sanitized = sanitized.replace(/\s+\n/g, ' ').replace(/\n+/g, ' ')
+    sanitized = sanitized.replace(/\s{2,}/g, ' ').replace(/\s+([.,!?;:])/g, '$1').trim()
+
+    return sanitized || undefined
+  }
+
   // Mock generation for demo purposes (kept as fallback)
   private async generateMockVariants(request: ContentRequest): Promise<ContentVariant[]> {
     const variants: ContentVariant[] = []
@@ -491,14 +1407,13 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
       })
 
       variant.content = limits.text
-      variant.body = limits.text
-      variant.hook = variant.content
       variant.metadata.length = limits.text.length
       variant.metadata.tokenLength = limits.tokens
       variant.metadata.sentiment = 'positive'
       variant.metadata.hookType = this.getHookType(variant.content)
 
       if (limits.wasTruncated) {
+        variant.body = limits.text
         variant.metadata.wasTruncated = true
         variant.metadata.originalLength = rawContent.length
         variant.metadata.originalContent = rawContent
@@ -544,7 +1459,7 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
     const hashtagMap = {
       twitter: ['#contentcreation', '#socialmedia'],
       linkedin: ['#productivity', '#business'],
-      instagram: ['#creativity', '#inspiration']
+      instagram: ['#creativity', '#inspiration', '#storytelling', '#contentcreator', '#behindthescenes']
     }
 
     return hashtagMap[platform as keyof typeof hashtagMap] || []
@@ -569,7 +1484,15 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
       }
     }
 
-    return await this.jobService.getJob(jobId, userId)
+    const job = await this.jobService.getJob(jobId, userId)
+    if (!job) {
+      return null
+    }
+
+    return {
+      ...job,
+      result: job.status === 'COMPLETED' ? job.output : undefined,
+    }
   }
 
   private async resolvePersonaConfig(
@@ -581,6 +1504,7 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
         id: personaId,
         ...(userId ? { userId } : {}),
       },
+      include: { exemplars: true },
     })
 
     if (!persona) {
@@ -594,6 +1518,7 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
           hookPatterns: ["Here's the signal I'm watching"],
           ctaStyle: 'direct',
           platforms: {},
+          llm: {},
         },
         persistedId: null,
       }
@@ -609,6 +1534,9 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
         hookPatterns: safeJsonParse<string[]>(persona.hookPatterns, []),
         ctaStyle: persona.ctaStyle,
         platforms: safeJsonParse<Record<string, unknown>>(persona.platforms, {}),
+        llm: parseLlmSelection(safeJsonParse<unknown>(persona.llm, {})),
+        version: persona.version,
+        exemplars: persona.exemplars.map(({ content, platform, engagementScore }) => ({ content, platform, engagementScore })),
       },
       persistedId: persona.id,
     }
@@ -617,6 +1545,7 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
   private async persistGeneratedContent(
     request: ComposerRequest,
     personaId: string | null,
+    personaVersion: number | undefined,
     result: GenerationResult
   ) {
     if (!request.userId || !result.variants?.length) {
@@ -626,6 +1555,7 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
     const job = await this.jobService.logJobResult({
       userId: request.userId,
       personaId,
+      personaVersion,
       type: 'BRAIN_DUMP',
       status: 'COMPLETED',
       input: {
@@ -636,16 +1566,30 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
       },
       output: {
         variants: result.variants,
+        metadata: result.metadata,
       },
     })
 
+    await this.persistPosts(request.userId, request.platform, { personaId, personaVersion }, result.variants, job?.id)
+
+    return job?.id ?? null
+  }
+
+  private async persistPosts(
+    userId: string,
+    platform: string,
+    persona: { personaId: string | null; personaVersion?: number | null },
+    variants: ContentVariant[],
+    sourceJobId?: string
+  ) {
     await prisma.$transaction(
-      result.variants.map((variant) =>
+      variants.map((variant) =>
         prisma.post.create({
           data: {
-            userId: request.userId!,
-            personaId: personaId ?? undefined,
-            platform: request.platform,
+            userId,
+            personaId: persona.personaId ?? undefined,
+            personaVersion: persona.personaId ? persona.personaVersion ?? undefined : undefined,
+            platform,
             content: variant.content,
             published: false,
             platformData: JSON.stringify({
@@ -653,14 +1597,13 @@ Rewrite the single ${request.platform} post to satisfy every rule: stay under ${
               body: variant.body,
               cta: variant.cta,
               hashtags: variant.hashtags,
+              thread: variant.thread,
               metadata: variant.metadata,
-              sourceJobId: job?.id,
+              sourceJobId,
             }),
           },
         })
       )
     )
-
-    return job?.id ?? null
   }
 }
@@ -1,12 +1,79 @@
 import { parse } from 'csv-parse/sync'
-import { prisma } from '../lib/database'
+import { AnalyzedPost, prisma } from '../lib/database'
 import fs from 'fs/promises'
 import path from 'path'
+import { EmbeddingService } from './embedding-service'
+import { PersonaService } from './persona-service'
+import { decodeHtmlEntities, repairMojibake } from '../lib/text-cleanup'
+import { isXArchive, readXArchive } from '../lib/x-archive'
+import { isLinkedInExport, isLinkedInSharesCsv, readLinkedInExport } from '../lib/linkedin-export'
+import { isInstagramExport, readInstagramExport } from '../lib/instagram-export'
+import { listZipEntries } from '../lib/zip'
+import { MappingField, guessColumnMapping, headerSignature, mappingColumns } from '../lib/column-mapping'
+import { ColumnMapping, ColumnMappingSchema, UploadFilters, UploadFiltersSchema } from '../lib/types'
+import { applyUploadFilters } from '../lib/upload-filters'
+import { EngagementMetrics, getEngagementModel, scoreEngagement } from '../lib/engagement'
 
 interface CSVRow {
   [key: string]: string
 }
 
+interface ExtractedPost {
+  content: string
+  date?: Date
+  metrics: EngagementMetrics
+  // Percentile within the upload; unset when the export has no engagement numbers
+  engagement?: number
+  // Reply-to and entity details, kept on the analyzed post
+  metadata?: Record<string, unknown>
+}
+
+interface ParsedUpload {
+  rows: CSVRow[]
+  // Detected from the file where it can be, otherwise the one picked on upload
+  platform: string
+  // The confirmed mapping, unless the file is an export with a known layout
+  mapping?: ColumnMapping
+}
+
+// File types accepted for upload: CSV exports and the X, LinkedIn and Instagram data exports
+export const UPLOAD_EXTENSIONS = ['.csv', '.zip', '.js', '.json']
+
+// Posts at or above this engagement percentile are mined for hook patterns
+const TOP_ENGAGEMENT_PERCENTILE = 80
+
+// Rows read for the column-mapping preview, and sample values shown per column
+const PREVIEW_ROWS = 50
+const PREVIEW_SAMPLES = 3
+const PREVIEW_SAMPLE_CHARS = 120
+
+export interface CSVPreview {
+  columns: Array<{ name: string; samples: string[] }>
+  mapping: Partial<ColumnMapping>
+  signature: string
+  // The mapping was confirmed for an earlier file with the same header
+  savedMapping: boolean
+  // Set for exports read by their known layout, which skip the mapping step
+  knownExport: 'linkedin' | null
+}
+
+// First non-empty value among the given (lowercased) columns
+function pickColumn(lowerRow: Record<string, string>, columns: string[]): string | undefined {
+  for (const column of columns) {
+    if (lowerRow[column]) return lowerRow[column]
+  }
+  return undefined
+}
+
+// "1,234" -> 1234, "1.2K" -> 1200
+function parseCount(value?: string): number {
+  if (!value) return 0
+  const match = value.replace(/[,\s]/g, '').match(/^(-?\d+(?:\.\d+)?)([kKmM])?$/)
+  if (!match) return parseInt(value) || 0
+  const multiplier = match[2] ? (match[2].toLowerCase() === 'k' ? 1000 : 1000000) : 1
+  return Math.round(parseFloat(match[1]) * multiplier)
+}
+
 type PersonaCadence = 'concise' | 'detailed' | 'conversational'
 
 interface PersonaSuggestion {
@@ -34,6 +101,11 @@ interface StyleAnalysis {
 
 export class ContentUploadService {
   private readonly UPLOAD_DIR = path.join(process.cwd(), 'uploads')
+  // Posts copied onto a persona created from an upload
+  private readonly UPLOAD_EXEMPLAR_LIMIT = 12
+  private readonly embeddingService = new EmbeddingService()
+  private readonly personaService = new PersonaService()
+  private readonly engagementModel = getEngagementModel()
 
   constructor() {
     this.ensureUploadDir()
@@ -99,41 +171,160 @@ export class ContentUploadService {
     return records
   }
 
+  /**
+   * Read the header and first rows of a CSV for the column-mapping step: each
+   * column with sample values, and the mapping to start from (the one saved
+   * for this header, otherwise a guess)
+   */
+  async previewCSV(userId: string, buffer: Buffer): Promise<CSVPreview> {
+    if (isLinkedInSharesCsv(buffer)) {
+      return { columns: [], mapping: {}, signature: '', savedMapping: false, knownExport: 'linkedin' }
+    }
+
+    let headers: string[] = []
+    const rows: CSVRow[] = parse(buffer, {
+      columns: (header: string[]) => (headers = header),
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+      to: PREVIEW_ROWS
+    })
+
+    headers = headers.filter(Boolean)
+    if (headers.length === 0) {
+      throw new Error('The CSV file has no header row')
+    }
+
+    const values: Record<string, string[]> = {}
+    for (const header of headers) {
+      values[header] = rows.map((row) => row[header]).filter(Boolean)
+    }
+
+    const signature = headerSignature(headers)
+    const saved = await this.findColumnMapping(userId, signature, headers)
+
+    return {
+      columns: headers.map((name) => ({
+        name,
+        samples: values[name].slice(0, PREVIEW_SAMPLES).map((value) => value.slice(0, PREVIEW_SAMPLE_CHARS)),
+      })),
+      mapping: saved ?? guessColumnMapping(headers, values),
+      signature,
+      savedMapping: Boolean(saved),
+      knownExport: null,
+    }
+  }
+
+  private async findColumnMapping(userId: string, signature: string, headers: string[]): Promise<ColumnMapping | null> {
+    const record = await prisma.uploadColumnMapping.findUnique({
+      where: { userId_signature: { userId, signature } }
+    })
+    if (!record) return null
+
+    try {
+      const mapping = ColumnMappingSchema.parse(JSON.parse(record.mapping))
+      // Headers match case-insensitively, so point the mapping at this file's spelling
+      const lookup = new Map(headers.map((header) => [header.toLowerCase(), header]))
+      const resolved: Partial<ColumnMapping> = {}
+      for (const [field, column] of Object.entries(mapping)) {
+        const header = lookup.get(column.toLowerCase())
+        if (!header) return null
+        resolved[field as MappingField] = header
+      }
+      return resolved as ColumnMapping
+    } catch {
+      return null
+    }
+  }
+
+  private async saveColumnMapping(userId: string, headers: string[], mapping: ColumnMapping) {
+    const signature = headerSignature(headers)
+    try {
+      await prisma.uploadColumnMapping.upsert({
+        where: { userId_signature: { userId, signature } },
+        create: { userId, signature, mapping: JSON.stringify(mapping) },
+        update: { mapping: JSON.stringify(mapping) }
+      })
+    } catch (error) {
+      console.error('Failed to save column mapping', error)
+    }
+  }
+
+  /**
+   * Parse an uploaded file into rows. CSVs are read as-is, through the
+   * confirmed mapping when there is one, except LinkedIn's Shares.csv which
+   * always uses its own layout; data exports (X tweets.js, Instagram
+   * posts_1.json, or any of the three export ZIPs) are flattened into the
+   * same columns.
+   */
+  async parseUploadRows(filename: string, platform: string, mapping?: ColumnMapping): Promise<ParsedUpload> {
+    const extension = path.extname(filename).toLowerCase()
+    if (mapping && extension !== '.csv') {
+      throw new Error('Column mappings only apply to CSV files')
+    }
+
+    const buffer = await fs.readFile(path.join(this.UPLOAD_DIR, filename))
+    if (extension === '.csv') {
+      if (isLinkedInSharesCsv(buffer)) {
+        return { rows: readLinkedInExport(buffer), platform: 'linkedin' }
+      }
+
+      const rows = await this.parseCSV(filename)
+      if (mapping) {
+        const headers = new Set(Object.keys(rows[0] ?? {}).map((header) => header.toLowerCase()))
+        const missing = Object.values(mapping).filter((column) => !headers.has(column.toLowerCase()))
+        if (rows.length > 0 && missing.length > 0) {
+          throw new Error(`Mapped column not found in the file: ${missing.join(', ')}`)
+        }
+      }
+      return { rows, platform, mapping }
+    }
+
+    if (extension === '.js') {
+      return { rows: readXArchive(buffer), platform: 'twitter' }
+    }
+    if (extension === '.json') {
+      return { rows: readInstagramExport(buffer), platform: 'instagram' }
+    }
+    if (extension === '.zip') {
+      const entries = listZipEntries(buffer)
+      if (isXArchive(entries)) return { rows: readXArchive(buffer), platform: 'twitter' }
+      if (isLinkedInExport(entries)) return { rows: readLinkedInExport(buffer), platform: 'linkedin' }
+      if (isInstagramExport(entries)) return { rows: readInstagramExport(buffer), platform: 'instagram' }
+      throw new Error('Unrecognized archive. Upload the data export ZIP from X, LinkedIn or Instagram.')
+    }
+
+    throw new Error(`Unsupported file type: ${extension || 'none'}`)
+  }
+
   /**
    * Extract content from CSV rows
-   * Handles common column names from Twitter/LinkedIn/Instagram exports
+   * Handles common column names from Twitter/LinkedIn/Instagram exports,
+   * or reads exactly the columns in a confirmed mapping
    */
-  extractContent(rows: CSVRow[]): Array<{ content: string; date?: Date; engagement?: number }> {
-    const posts: Array<{ content: string; date?: Date; engagement?: number }> = []
+  extractContent(rows: CSVRow[], mapping?: ColumnMapping): ExtractedPost[] {
+    const posts: ExtractedPost[] = []
+    const columns = mappingColumns(mapping)
 
     for (const row of rows) {
       const lowerRow: Record<string, string> = {}
       for (const [key, value] of Object.entries(row)) {
         lowerRow[key.toLowerCase()] = value
       }
+      const pick = (field: MappingField) => pickColumn(lowerRow, columns[field])
 
-      // Try common column names for content
-      const content =
-        lowerRow.text ||
-        lowerRow.content ||
-        lowerRow.full_text ||
-        lowerRow.tweet ||
-        lowerRow.post ||
-        lowerRow.message ||
-        lowerRow.body
-
-      if (!content || content.trim().length === 0) {
+      const rawContent = pick('content')
+
+      if (!rawContent || rawContent.trim().length === 0) {
         continue
       }
 
+      // X escapes <, > and & in exports ("&lt;3"); other exports can arrive double-encoded
+      const content = repairMojibake(decodeHtmlEntities(rawContent))
+
       // Try to extract date
       let date: Date | undefined
-      const dateStr =
-        lowerRow['created at'] ||
-        lowerRow['created_at'] ||
-        lowerRow.date ||
-        lowerRow.timestamp ||
-        lowerRow.posted_at
+      const dateStr = pick('date')
       if (dateStr) {
         const parsed = new Date(dateStr)
         if (!isNaN(parsed.getTime())) {
@@ -141,19 +332,53 @@ export class ContentUploadService {
         }
       }
 
-      // Try to calculate engagement score
-      let engagement = 0
-      const likes = parseInt(lowerRow['favorite count'] || lowerRow['likes'] || lowerRow['favorites'] || lowerRow['favorite_count'] || lowerRow['like count'] || '0')
-      const retweets = parseInt(lowerRow['retweet count'] || lowerRow['retweets'] || lowerRow['shares'] || '0')
-      const replies = parseInt(lowerRow['reply count'] || lowerRow['replies'] || lowerRow['comments'] || '0')
-      engagement = likes + (retweets * 2) + (replies * 3) // Weight replies more
+      // Raw engagement metrics; they are scored against the rest of the upload later
+      const views = pick('views')
+      const metrics: EngagementMetrics = {
+        likes: parseCount(pick('likes')),
+        retweets: parseCount(pick('retweets')),
+        replies: parseCount(pick('replies')),
+        quotes: parseCount(pick('quotes')),
+        bookmarks: parseCount(pick('bookmarks')),
+        views: views ? parseCount(views) : null,
+      }
+
+      // Post type and link are kept alongside the reply/entity details
+      const metadata = this.extractPostMetadata(lowerRow)
+      const type = pick('type')
+      const url = pick('url')
+      if (type) metadata.type = type
+      if (url) metadata.url = url
 
-      posts.push({ content, date, engagement })
+      posts.push({ content, date, metrics, metadata })
     }
 
     return posts
   }
 
+  /**
+   * Reply-to and entity columns present in X exports and archives
+   */
+  private extractPostMetadata(lowerRow: Record<string, string>): Record<string, unknown> {
+    const list = (value?: string) =>
+      value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined
+
+    const metadata: Record<string, unknown> = {
+      postId: lowerRow.id || lowerRow['tweet id'] || lowerRow.id_str,
+      author: lowerRow['author username'] || lowerRow.username || lowerRow.screen_name || lowerRow['author handle'],
+      language: lowerRow.language || lowerRow.lang,
+      inReplyTo: lowerRow['in reply to'] || lowerRow.in_reply_to_screen_name,
+      inReplyToId: lowerRow['in reply to status id'] || lowerRow.in_reply_to_status_id_str,
+      hashtags: list(lowerRow.hashtags),
+      mentions: list(lowerRow.mentions),
+      urls: list(lowerRow.urls),
+    }
+
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => (Array.isArray(value) ? value.length > 0 : Boolean(value)))
+    )
+  }
+
   /**
    * Analyze writing style from posts
    */
@@ -179,7 +404,7 @@ export class ContentUploadService {
     // Find common phrases (2-3 word combinations that appear multiple times)
     const commonPhrases = this.findCommonPhrases(contents)
 
-    // Identify hook patterns (first 20 chars of posts with high engagement)
+    // Identify hook patterns (openings of the best-performing posts)
     const hookPatterns = this.identifyHookPatterns(posts)
 
     // Calculate sentiment score (simple positive/negative word counting)
@@ -267,13 +492,11 @@ export class ContentUploadService {
    * Identify hook patterns from high-engagement posts
    */
   private identifyHookPatterns(posts: Array<{ content: string; engagement?: number }>): string[] {
-    // Sort by engagement and take top 20%
-    const sorted = posts
-      .filter(p => p.engagement !== undefined)
+    // Take the top 20% by engagement percentile
+    const topPosts = posts
+      .filter(p => p.engagement !== undefined && p.engagement >= TOP_ENGAGEMENT_PERCENTILE)
       .sort((a, b) => (b.engagement || 0) - (a.engagement || 0))
 
-    const topPosts = sorted.slice(0, Math.ceil(sorted.length * 0.2))
-
     if (topPosts.length === 0) {
       // Fallback to first sentence of random posts
       return posts
@@ -324,11 +547,15 @@ export class ContentUploadService {
     cadence: PersonaCadence,
     sentimentScore: number
   ): PersonaSuggestion[] {
-    const totalPosts = posts.length || 1
-    const lowerPosts = posts.map((post) => ({
-      ...post,
-      text: post.content.toLowerCase(),
-    }))
+    // Better-performing posts count for more: from 0.5 at the bottom of the upload to 1.5 at the top
+    const weightOf = (post: { engagement?: number }) => 0.5 + (post.engagement ?? 50) / 100
+    const totalWeight = posts.reduce((sum, post) => sum + weightOf(post), 0) || 1
+    const lowerPosts = posts
+      .map((post) => ({
+        ...post,
+        text: post.content.toLowerCase(),
+      }))
+      .sort((a, b) => (b.engagement ?? 0) - (a.engagement ?? 0))
 
     const blueprints = [
       {
@@ -390,16 +617,17 @@ export class ContentUploadService {
       }
     >()
 
-    const addToBucket = (blueprint: (typeof blueprints)[number], post: string) => {
+    const addToBucket = (blueprint: (typeof blueprints)[number], post: { content: string; engagement?: number }) => {
       const existing = bucketMap.get(blueprint.id) || {
         blueprint,
         count: 0,
         samplePosts: [] as string[],
       }
 
-      existing.count += 1
+      // Posts arrive best first, so the samples are the top performers
+      existing.count += weightOf(post)
       if (existing.samplePosts.length < 3) {
-        existing.samplePosts.push(post.slice(0, 200).trim())
+        existing.samplePosts.push(post.content.slice(0, 200).trim())
       }
 
       bucketMap.set(blueprint.id, existing)
@@ -410,7 +638,7 @@ export class ContentUploadService {
 
       for (const blueprint of blueprints) {
         if (blueprint.keywords.some((keyword) => post.text.includes(keyword))) {
-          addToBucket(blueprint, post.content)
+          addToBucket(blueprint, post)
           matched = true
         }
       }
@@ -428,7 +656,7 @@ export class ContentUploadService {
             hookPatterns: ['What if we tried...', 'Has anyone else noticed...'],
             ctaStyle: 'question-based',
           },
-          post.content
+          post
         )
       }
     }
@@ -444,7 +672,7 @@ export class ContentUploadService {
         hookPatterns: hookPatterns.length ? hookPatterns.slice(0, 3) : blueprint.hookPatterns,
         ctaStyle: blueprint.ctaStyle,
         samplePosts,
-        matchScore: Number((count / totalPosts).toFixed(2)),
+        matchScore: Number((count / totalWeight).toFixed(2)),
       }))
       .sort((a, b) => b.matchScore - a.matchScore)
 
@@ -487,7 +715,15 @@ export class ContentUploadService {
   /**
    * Process uploaded file
    */
-  async processUpload(userId: string, filename: string, originalName: string, platform: string) {
+  async processUpload(
+    userId: string,
+    filename: string,
+    originalName: string,
+    platform: string,
+    options: { mapping?: ColumnMapping; filters?: UploadFilters } = {}
+  ) {
+    const filters = options.filters ?? UploadFiltersSchema.parse({})
+
     // Create upload record
     const upload = await prisma.contentUpload.create({
       data: {
@@ -500,33 +736,51 @@ export class ContentUploadService {
     })
 
     try {
-      // Parse CSV
-      const rows = await this.parseCSV(filename)
+      // Parse the CSV or data export
+      const parsed = await this.parseUploadRows(filename, platform, options.mapping)
+      platform = parsed.platform
 
       // Extract content
-      const posts = this.extractContent(rows)
+      const extracted = this.extractContent(parsed.rows, parsed.mapping)
 
-      if (posts.length === 0) {
-        throw new Error('No valid content found in CSV. Please check the file format.')
+      if (extracted.length === 0) {
+        throw new Error('No valid content found in the file. Please check the file format.')
       }
 
-      // Save analyzed posts to database
-      await Promise.all(
-        posts.map(post =>
-          prisma.analyzedPost.create({
-            data: {
-              uploadId: upload.id,
-              content: post.content,
-              platform,
-              originalDate: post.date,
-              engagementScore: post.engagement || 0,
-              metadata: JSON.stringify({
-                length: post.content.length
-              })
-            }
-          })
+      // Keep the user's own original posts
+      const { posts: kept, report: filterReport } = applyUploadFilters(extracted, filters)
+
+      if (kept.length === 0) {
+        throw new Error(
+          `All ${extracted.length} posts were removed by the upload filters. Loosen the filters and try again.`
         )
-      )
+      }
+
+      // Rank engagement among the posts that are left
+      const scores = scoreEngagement(kept.map(post => post.metrics), this.engagementModel)
+      const hasEngagement = scores.some(score => score.interactions > 0)
+      const posts = kept.map((post, index) => ({
+        ...post,
+        engagement: hasEngagement ? scores[index].percentile : undefined
+      }))
+
+      // Save analyzed posts to database (archives can hold tens of thousands)
+      await prisma.analyzedPost.createMany({
+        data: posts.map((post, index) => ({
+          uploadId: upload.id,
+          content: post.content,
+          platform,
+          originalDate: post.date,
+          ...post.metrics,
+          engagementScore: scores[index].interactions,
+          engagementRate: scores[index].rate,
+          engagementPercentile: scores[index].percentile,
+          metadata: JSON.stringify({
+            ...post.metadata,
+            length: post.content.length
+          })
+        }))
+      })
 
       // Analyze style
       const analysis = await this.analyzeStyle(posts)
@@ -536,14 +790,21 @@ export class ContentUploadService {
         where: { id: upload.id },
         data: {
           status: 'ANALYZED',
+          platform,
           totalPosts: posts.length,
-          analysis: JSON.stringify(analysis)
+          analysis: JSON.stringify(analysis),
+          filterReport: JSON.stringify(filterReport)
         }
       })
 
+      if (parsed.mapping) {
+        await this.saveColumnMapping(userId, Object.keys(parsed.rows[0]), parsed.mapping)
+      }
+
       return {
         uploadId: upload.id,
         totalPosts: posts.length,
+        filterReport,
         analysis
       }
     } catch (error) {
@@ -586,7 +847,7 @@ export class ContentUploadService {
       },
       include: {
         analyzedPosts: {
-          orderBy: { engagementScore: 'desc' },
+          orderBy: { engagementPercentile: 'desc' },
           take: 20
         }
       }
@@ -598,7 +859,8 @@ export class ContentUploadService {
 
     return {
       ...upload,
-      analysis: upload.analysis ? JSON.parse(upload.analysis) : null
+      analysis: upload.analysis ? JSON.parse(upload.analysis) : null,
+      filterReport: upload.filterReport ? JSON.parse(upload.filterReport) : null
     }
   }
 
@@ -647,26 +909,83 @@ export class ContentUploadService {
       matchScore: 0.5,
     }
 
-    const persona = await prisma.persona.create({
-      data: {
-        userId,
+    // Goes through PersonaService so the persona gets its first version and
+    // the user's first persona becomes the default
+    const persona = await this.personaService.createPersona(
+      userId,
+      {
         name: customizations?.name || personaSource.name,
         description:
           customizations?.description ||
           personaSource.description ||
           `AI-generated persona based on ${upload.totalPosts} posts`,
-        isDefault: false,
-        tone: JSON.stringify(personaSource.tone),
+        tone: personaSource.tone,
         cadence: personaSource.cadence,
-        donts: JSON.stringify(personaSource.donts ?? []),
-        hookPatterns: JSON.stringify(personaSource.hookPatterns ?? []),
+        donts: personaSource.donts ?? [],
+        hookPatterns: personaSource.hookPatterns ?? [],
         ctaStyle: personaSource.ctaStyle,
-        platforms: JSON.stringify({})
-      }
+      },
+      `Created from upload ${upload.filename}`
+    )
+
+    const analyzedPosts = await prisma.analyzedPost.findMany({
+      where: { uploadId },
+      orderBy: { engagementPercentile: 'desc' },
     })
 
+    await this.saveUploadExemplars(persona.id, analyzedPosts, personaSource.samplePosts ?? [])
     await this.removeUploadArtifacts(uploadId, upload.filename)
 
+    // The posts are in memory, so indexing can finish after the rows are gone
+    this.embeddingService
+      .indexSources(
+        persona.id,
+        analyzedPosts.map((post) => ({
+          sourceType: 'analyzed_post' as const,
+          sourceId: post.id,
+          content: post.content,
+          platform: post.platform,
+          engagementScore: post.engagementPercentile,
+          postedAt: post.originalDate,
+        }))
+      )
+      .then(() => this.embeddingService.syncPersona(persona.id))
+      .catch((error) => console.error('Failed to index uploaded posts', error))
+
     return persona
   }
+
+  /**
+   * Keep the upload's best posts as the persona's exemplars before the
+   * analyzed posts are deleted. The suggestion's sample posts come first since
+   * they are what the persona was matched on, then the top performers.
+   */
+  private async saveUploadExemplars(personaId: string, posts: AnalyzedPost[], samplePosts: string[]) {
+    const isSample = (content: string) =>
+      samplePosts.some((sample) => sample && content.trim().startsWith(sample))
+    const ordered = [...posts.filter((post) => isSample(post.content)), ...posts.filter((post) => !isSample(post.content))]
+
+    const seen = new Set<string>()
+    const exemplars = ordered
+      .filter((post) => {
+        const key = post.content.trim().toLowerCase()
+        if (!key || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .slice(0, this.UPLOAD_EXEMPLAR_LIMIT)
+
+    if (exemplars.length === 0) return
+
+    await prisma.personaExemplar.createMany({
+      data: exemplars.map((post) => ({
+        personaId,
+        content: post.content.trim(),
+        platform: post.platform,
+        source: 'upload',
+        engagementScore: post.engagementPercentile,
+        postedAt: post.originalDate,
+      })),
+    })
+  }
 }
@@ -0,0 +1,304 @@
+import { createHash } from 'crypto'
+import { prisma } from '../lib/database'
+import { EmbeddingProvider, VectorIndex, decodeVector, encodeVector, getEmbeddingProvider, normalize } from '../lib/embeddings'
+
+export type EmbeddingSourceType = 'analyzed_post' | 'post' | 'exemplar'
+
+export interface EmbeddingSource {
+  sourceType: EmbeddingSourceType
+  sourceId: string
+  content: string
+  platform: string
+  engagementScore?: number
+  postedAt?: Date | null
+}
+
+export interface IndexedPost {
+  sourceType: EmbeddingSourceType
+  sourceId: string
+  content: string
+  platform: string
+  engagementScore: number
+  postedAt: string | null
+}
+
+export interface SimilarPost extends IndexedPost {
+  similarity: number
+}
+
+// Posts the user has actually published, as opposed to saved exemplars
+export const POSTED_SOURCE_TYPES: EmbeddingSourceType[] = ['post', 'analyzed_post']
+
+const BATCH_SIZE = 32
+// Long posts are embedded by their opening, which carries most of the voice
+const MAX_EMBED_CHARS = 2000
+
+// Shared by every service instance so each persona is loaded once per process
+const loadedIndexes = new Map<string, Promise<VectorIndex<IndexedPost>>>()
+const pendingSyncs = new Map<string, Promise<number>>()
+const queuedSyncs = new Map<string, Promise<number>>()
+
+function indexKey(personaId: string, model: string) {
+  return `${personaId}:${model}`
+}
+
+function entryId(sourceType: string, sourceId: string) {
+  return `${sourceType}:${sourceId}`
+}
+
+function hashContent(content: string) {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+export class EmbeddingService {
+  private readonly provider: EmbeddingProvider | null
+
+  constructor(provider: EmbeddingProvider | null = getEmbeddingProvider()) {
+    this.provider = provider
+  }
+
+  get enabled() {
+    return this.provider !== null
+  }
+
+  /**
+   * Embed and store posts for a persona. Entries whose text hasn't changed
+   * since they were last embedded are skipped. Returns how many were embedded.
+   */
+  async indexSources(personaId: string, sources: EmbeddingSource[]): Promise<number> {
+    const provider = this.provider
+    const usable = sources.filter((source) => source.content.trim())
+    if (!provider || usable.length === 0) return 0
+
+    const existing = await prisma.personaEmbedding.findMany({
+      where: { personaId, model: provider.model },
+      select: { sourceType: true, sourceId: true, contentHash: true },
+    })
+    const hashes = new Map(existing.map((row) => [entryId(row.sourceType, row.sourceId), row.contentHash]))
+    const stale = usable.filter(
+      (source) => hashes.get(entryId(source.sourceType, source.sourceId)) !== hashContent(source.content.trim())
+    )
+
+    for (let start = 0; start < stale.length; start += BATCH_SIZE) {
+      const batch = stale.slice(start, start + BATCH_SIZE)
+      const vectors = await provider.embed(batch.map((source) => source.content.trim().slice(0, MAX_EMBED_CHARS)))
+
+      for (const [index, source] of batch.entries()) {
+        const vector = normalize(vectors[index])
+        const content = source.content.trim()
+        const data = {
+          contentHash: hashContent(content),
+          content,
+          platform: source.platform,
+          engagementScore: source.engagementScore ?? 0,
+          postedAt: source.postedAt ?? null,
+          vector: encodeVector(vector),
+          dimensions: vector.length,
+        }
+
+        await prisma.personaEmbedding.upsert({
+          where: {
+            personaId_sourceType_sourceId_model: {
+              personaId,
+              sourceType: source.sourceType,
+              sourceId: source.sourceId,
+              model: provider.model,
+            },
+          },
+          create: { personaId, sourceType: source.sourceType, sourceId: source.sourceId, model: provider.model, ...data },
+          update: data,
+        })
+
+        const loaded = await loadedIndexes.get(indexKey(personaId, provider.model))
+        if (loaded) {
+          loaded.add(entryId(source.sourceType, source.sourceId), vector, {
+            sourceType: source.sourceType,
+            sourceId: source.sourceId,
+            content,
+            platform: source.platform,
+            engagementScore: data.engagementScore,
+            postedAt: data.postedAt?.toISOString() ?? null,
+          })
+        }
+      }
+    }
+
+    return stale.length
+  }
+
+  /**
+   * Bring the persona's index in line with its published posts and exemplars:
+   * new or edited ones are embedded, deleted ones dropped. Called after those
+   * are written; searches only read the index. A call made while a run is in
+   * progress queues one more run after it, shared with any later callers.
+   */
+  syncPersona(personaId: string): Promise<number> {
+    const provider = this.provider
+    if (!provider) return Promise.resolve(0)
+
+    const key = indexKey(personaId, provider.model)
+    const queued = queuedSyncs.get(key)
+    if (queued) return queued
+
+    const running = pendingSyncs.get(key)
+    if (!running) return this.startSync(key, personaId, provider)
+
+    // The running sync may have read the rows before the caller's change
+    const next = running
+      .catch(() => 0)
+      .then(() => {
+        queuedSyncs.delete(key)
+        return this.startSync(key, personaId, provider)
+      })
+    queuedSyncs.set(key, next)
+    return next
+  }
+
+  /**
+   * The persona's indexed posts most similar to `text`, most similar first
+   */
+  async findSimilar(
+    personaId: string,
+    text: string,
+    options: { limit?: number; sourceTypes?: EmbeddingSourceType[]; signal?: AbortSignal } = {}
+  ): Promise<SimilarPost[]> {
+    const provider = this.provider
+    if (!provider || !text.trim()) return []
+
+    const index = await this.loadIndex(personaId, provider.model)
+    if (index.size === 0) return []
+
+    const [query] = await provider.embed([text.trim().slice(0, MAX_EMBED_CHARS)], options.signal)
+    const sourceTypes = options.sourceTypes
+    const matches = index.search(
+      query,
+      options.limit ?? 5,
+      sourceTypes ? (item) => sourceTypes.includes(item.sourceType) : undefined
+    )
+
+    return matches.map(({ item, score }) => ({ ...item, similarity: score }))
+  }
+
+  /**
+   * For each draft, the closest post the user has already published when it is
+   * at least `threshold` similar; null otherwise.
+   */
+  async findDuplicates(personaId: string, drafts: string[], threshold: number): Promise<Array<SimilarPost | null>> {
+    const provider = this.provider
+    if (!provider || drafts.length === 0) return drafts.map(() => null)
+
+    const index = await this.loadIndex(personaId, provider.model)
+    if (index.size === 0) return drafts.map(() => null)
+
+    const vectors = await provider.embed(drafts.map((draft) => draft.trim().slice(0, MAX_EMBED_CHARS)))
+    return vectors.map((vector) => {
+      const [match] = index.search(vector, 1, (item) => POSTED_SOURCE_TYPES.includes(item.sourceType))
+      return match && match.score >= threshold ? { ...match.item, similarity: match.score } : null
+    })
+  }
+
+  /**
+   * Which provider and model the index uses, and how many posts it holds
+   */
+  async describe(personaId: string) {
+    const provider = this.provider
+    if (!provider) {
+      return { enabled: false, indexed: 0 }
+    }
+
+    const indexed = await prisma.personaEmbedding.count({ where: { personaId, model: provider.model } })
+    return { enabled: true, provider: provider.name, model: provider.model, indexed }
+  }
+
+  private startSync(key: string, personaId: string, provider: EmbeddingProvider): Promise<number> {
+    const pending = this.runSync(personaId, provider).finally(() => pendingSyncs.delete(key))
+    pendingSyncs.set(key, pending)
+    return pending
+  }
+
+  private async runSync(personaId: string, provider: EmbeddingProvider): Promise<number> {
+    const [posts, exemplars] = await Promise.all([
+      prisma.post.findMany({
+        where: { personaId, published: true },
+        select: { id: true, content: true, platform: true, engagementRate: true, createdAt: true },
+      }),
+      prisma.personaExemplar.findMany({
+        where: { personaId },
+        select: { id: true, content: true, platform: true, engagementScore: true, postedAt: true },
+      }),
+    ])
+
+    const embedded = await this.indexSources(personaId, [
+      ...posts.map((post) => ({
+        sourceType: 'post' as const,
+        sourceId: post.id,
+        content: post.content,
+        platform: post.platform,
+        engagementScore: post.engagementRate,
+        postedAt: post.createdAt,
+      })),
+      ...exemplars.map((exemplar) => ({
+        sourceType: 'exemplar' as const,
+        sourceId: exemplar.id,
+        content: exemplar.content,
+        platform: exemplar.platform,
+        engagementScore: exemplar.engagementScore,
+        postedAt: exemplar.postedAt,
+      })),
+    ])
+
+    // Analyzed posts have no source rows left to compare against, so they stay
+    const current = new Set([
+      ...posts.map((post) => entryId('post', post.id)),
+      ...exemplars.map((exemplar) => entryId('exemplar', exemplar.id)),
+    ])
+    const rows = await prisma.personaEmbedding.findMany({
+      where: { personaId, model: provider.model, sourceType: { in: ['post', 'exemplar'] } },
+      select: { id: true, sourceType: true, sourceId: true },
+    })
+    const removed = rows.filter((row) => !current.has(entryId(row.sourceType, row.sourceId)))
+
+    if (removed.length > 0) {
+      await prisma.personaEmbedding.deleteMany({ where: { id: { in: removed.map((row) => row.id) } } })
+      const loaded = loadedIndexes.get(indexKey(personaId, provider.model))
+      if (loaded) {
+        const index = await loaded
+        for (const row of removed) index.remove(entryId(row.sourceType, row.sourceId))
+      }
+    }
+
+    return embedded
+  }
+
+  private loadIndex(personaId: string, model: string): Promise<VectorIndex<IndexedPost>> {
+    const key = indexKey(personaId, model)
+    let loaded = loadedIndexes.get(key)
+    if (!loaded) {
+      loaded = this.readIndex(personaId, model)
+      // A failed load is retried on the next call
+      loaded.catch(() => loadedIndexes.delete(key))
+      loadedIndexes.set(key, loaded)
+    }
+    return loaded
+  }
+
+  private async readIndex(personaId: string, model: string): Promise<VectorIndex<IndexedPost>> {
+    const rows = await prisma.personaEmbedding.findMany({ where: { personaId, model } })
+    const index = new VectorIndex<IndexedPost>()
+
+    for (const row of rows) {
+      const vector = decodeVector(row.vector)
+      if (vector.length !== row.dimensions) continue
+      index.add(entryId(row.sourceType, row.sourceId), vector, {
+        sourceType: row.sourceType as EmbeddingSourceType,
+        sourceId: row.sourceId,
+        content: row.content,
+        platform: row.platform,
+        engagementScore: row.engagementScore,
+        postedAt: row.postedAt?.toISOString() ?? null,
+      })
+    }
+
+    return index
+  }
+}
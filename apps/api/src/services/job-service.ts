@@ -4,14 +4,28 @@ export interface CreateJobRequest {
   userId: string
   type: string
   personaId?: string | null
+  personaVersion?: number | null
   input: any
   priority?: number
 }
 
+export interface ClaimJobsRequest {
+  runnerId: string
+  // Only jobs belonging to this user are visible to the runner
+  userId?: string
+  limit?: number
+  leaseMs?: number
+  types?: string[]
+}
+
+// How long a runner may hold a job before it becomes visible to other runners again
+export const DEFAULT_LEASE_MS = parseInt(process.env.RUNNER_LEASE_MS || '120000')
+
 export interface LogJobRequest {
   userId: string
   type: string
   personaId?: string | null
+  personaVersion?: number | null
   status?: 'COMPLETED' | 'FAILED'
   input: any
   output?: any
@@ -45,6 +59,7 @@ export class JobService {
       data: {
         userId: request.userId,
         personaId: request.personaId ?? null,
+        personaVersion: request.personaId ? request.personaVersion ?? null : null,
         type: request.type,
         status: 'QUEUED',
         priority: request.priority ?? 0,
@@ -61,6 +76,7 @@ export class JobService {
       data: {
         userId: request.userId,
         personaId: request.personaId ?? null,
+        personaVersion: request.personaId ? request.personaVersion ?? null : null,
         type: request.type,
         status: request.status ?? 'COMPLETED',
         input: JSON.stringify(request.input),
@@ -100,6 +116,204 @@ export class JobService {
       .filter((entry): entry is ReturnType<typeof serializeJob> => Boolean(entry))
   }
 
+  /**
+   * Claim QUEUED jobs for a runner, highest priority first.
+   * Each row is claimed with a conditional update so two runners can never hold the same job.
+   */
+  async claimPendingJobs(request: ClaimJobsRequest) {
+    const limit = Math.max(1, Math.min(request.limit ?? 1, 10))
+    const leaseMs = request.leaseMs ?? DEFAULT_LEASE_MS
+
+    await this.requeueExpiredLeases()
+
+    const candidates = await prisma.job.findMany({
+      where: {
+        status: 'QUEUED',
+        ...(request.userId ? { userId: request.userId } : {}),
+        ...(request.types?.length ? { type: { in: request.types } } : {}),
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      select: { id: true },
+      take: limit * 3,
+    })
+
+    const claimedIds: string[] = []
+
+    for (const candidate of candidates) {
+      if (claimedIds.length >= limit) break
+
+      const now = new Date()
+      const { count } = await prisma.job.updateMany({
+        where: { id: candidate.id, status: 'QUEUED' },
+        data: {
+          status: 'RUNNING',
+          leaseOwner: request.runnerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          startedAt: now,
+          attempts: { increment: 1 },
+        },
+      })
+
+      if (count === 1) {
+        claimedIds.push(candidate.id)
+      }
+    }
+
+    if (!claimedIds.length) {
+      return []
+    }
+
+    const jobs = await prisma.job.findMany({
+      where: { id: { in: claimedIds } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    return jobs
+      .map((job) => serializeJob(job))
+      .filter((entry): entry is NonNullable<ReturnType<typeof serializeJob>> => Boolean(entry))
+  }
+
+  /**
+   * Return jobs whose lease expired to the queue, or fail them once retries are exhausted.
+   */
+  async requeueExpiredLeases() {
+    const now = new Date()
+
+    const requeued = await prisma.job.updateMany({
+      where: {
+        status: 'RUNNING',
+        leaseExpiresAt: { lt: now },
+        attempts: { lte: prisma.job.fields.maxRetries },
+      },
+      data: {
+        status: 'QUEUED',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        error: 'Runner lease expired; job requeued',
+      },
+    })
+
+    const failed = await prisma.job.updateMany({
+      where: {
+        status: 'RUNNING',
+        leaseExpiresAt: { lt: now },
+      },
+      data: {
+        status: 'FAILED',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        completedAt: now,
+        error: 'Runner lease expired and maximum retries were reached',
+      },
+    })
+
+    return { requeued: requeued.count, failed: failed.count }
+  }
+
+  /**
+   * Load a job currently leased by the given runner.
+   */
+  async getLeasedJob(jobId: string, runnerId: string) {
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, status: 'RUNNING', leaseOwner: runnerId },
+    })
+
+    return serializeJob(job)
+  }
+
+  /**
+   * Extend a runner's lease on a job it is still working on.
+   */
+  async extendLease(jobId: string, runnerId: string, leaseMs = DEFAULT_LEASE_MS) {
+    const leaseExpiresAt = new Date(Date.now() + leaseMs)
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING', leaseOwner: runnerId },
+      data: { leaseExpiresAt },
+    })
+
+    if (count === 0) {
+      throw new Error('Job not found or lease no longer held by this runner')
+    }
+
+    return { jobId, leaseExpiresAt }
+  }
+
+  /**
+   * Hand a claimed job back to the queue without counting it as an attempt
+   * (used when a runner shuts down before finishing).
+   */
+  async releaseJob(jobId: string, runnerId: string) {
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING', leaseOwner: runnerId, attempts: { gt: 0 } },
+      data: {
+        status: 'QUEUED',
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        startedAt: null,
+        attempts: { decrement: 1 },
+      },
+    })
+
+    if (count === 0) {
+      throw new Error('Job not found or lease no longer held by this runner')
+    }
+
+    return this.getJob(jobId)
+  }
+
+  async completeJob(jobId: string, runnerId: string, output: any) {
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING', leaseOwner: runnerId },
+      data: {
+        status: 'COMPLETED',
+        output: JSON.stringify(output),
+        error: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      },
+    })
+
+    if (count === 0) {
+      throw new Error('Job not found or lease no longer held by this runner')
+    }
+
+    return this.getJob(jobId)
+  }
+
+  /**
+   * Record a failed attempt. The job is requeued while attempts remain, otherwise marked FAILED.
+   */
+  async failJob(jobId: string, runnerId: string, error: string) {
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, status: 'RUNNING', leaseOwner: runnerId },
+    })
+
+    if (!job) {
+      throw new Error('Job not found or lease no longer held by this runner')
+    }
+
+    const canRetry = job.attempts <= job.maxRetries
+
+    // Only applies if the lease is still the one read above; it may have expired and been reclaimed since
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING', leaseOwner: runnerId, attempts: job.attempts },
+      data: {
+        status: canRetry ? 'QUEUED' : 'FAILED',
+        error,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        completedAt: canRetry ? null : new Date(),
+      },
+    })
+
+    if (count === 0) {
+      throw new Error('Job not found or lease no longer held by this runner')
+    }
+
+    return this.getJob(jobId)
+  }
+
   async updateJobStatus(jobId: string, status: string, result?: any, error?: string) {
     const job = await prisma.job.update({
       where: { id: jobId },
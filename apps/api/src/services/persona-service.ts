@@ -0,0 +1,859 @@
+import { prisma, Persona, PersonaExemplar, PersonaVersion, Prisma } from '../lib/database'
+import { defaultPersonas } from '../lib/seed-default-personas'
+import { LlmSelection, parseLlmSelection } from '../lib/llm'
+import { parsePlatformSettings } from '../lib/platform-settings'
+import {
+  PersonaChanges,
+  PersonaSnapshot,
+  diffPersonaSnapshots,
+  hasChanges,
+  parseSnapshot,
+  snapshotPersona,
+} from '../lib/persona-versions'
+import { Voiceprint, VoiceprintPersona } from '../lib/types'
+import { buildVoiceprint } from '../lib/voiceprint'
+import { EmbeddingService, EmbeddingSourceType } from './embedding-service'
+
+export const DEMO_USER_ID = 'dev-user'
+
+export interface PersonaInput {
+  name: string
+  description?: string
+  tone: string[]
+  cadence: 'concise' | 'detailed' | 'conversational'
+  donts?: string[]
+  hookPatterns?: string[]
+  ctaStyle: 'direct' | 'soft' | 'question-based'
+  isDefault?: boolean
+  platforms?: Record<string, unknown>
+  llm?: LlmSelection
+}
+
+// Default status changes go through setDefaultPersona so there is always exactly one
+export type PersonaUpdate = Partial<Omit<PersonaInput, 'isDefault'>>
+
+export interface ExemplarInput {
+  content: string
+  platform: 'twitter' | 'linkedin' | 'instagram'
+  engagementScore?: number
+  postedAt?: string
+}
+
+// Enough variety for retrieval while keeping the per-request lookup cheap
+export const MAX_EXEMPLARS_PER_PERSONA = 50
+
+// A voiceprint is imported in one transaction; large files need longer than Prisma's 5s default
+const VOICEPRINT_IMPORT_TIMEOUT_MS = 30000
+
+// What to do when an imported persona has the same name as an existing one
+export type VoiceprintConflictMode = 'report' | 'merge' | 'replace' | 'skip'
+
+export interface VoiceprintImportOptions {
+  onConflict?: VoiceprintConflictMode
+  dryRun?: boolean
+}
+
+export interface VoiceprintImportResult {
+  success: boolean
+  dryRun: boolean
+  conflicts: Array<{ name: string; personaId: string }>
+  personas: Array<{
+    name: string
+    action: 'created' | 'merged' | 'replaced' | 'skipped'
+    personaId?: string
+    samplePosts: number
+  }>
+}
+
+type SeedPersona = (typeof defaultPersonas)[number]
+
+export function serializePersonaRecord(persona: Persona) {
+  return {
+    id: persona.id,
+    userId: persona.userId,
+    name: persona.name,
+    description: persona.description,
+    isDefault: persona.isDefault,
+    tone: safeParse(persona.tone, []),
+    cadence: persona.cadence,
+    donts: safeParse(persona.donts, []),
+    hookPatterns: safeParse(persona.hookPatterns, []),
+    ctaStyle: persona.ctaStyle,
+    platforms: safeParse(persona.platforms, {}),
+    llm: safeParse(persona.llm, {}),
+    version: persona.version,
+    createdAt: persona.createdAt.toISOString(),
+    updatedAt: persona.updatedAt.toISOString(),
+  }
+}
+
+function serializeVersion(version: PersonaVersion, currentVersion: number) {
+  return {
+    version: version.version,
+    current: version.version === currentVersion,
+    note: version.note,
+    changes: safeParse<PersonaChanges>(version.changes, {}),
+    createdAt: version.createdAt.toISOString(),
+  }
+}
+
+function serializeExemplar(exemplar: PersonaExemplar) {
+  return {
+    id: exemplar.id,
+    personaId: exemplar.personaId,
+    content: exemplar.content,
+    platform: exemplar.platform,
+    source: exemplar.source,
+    engagementScore: exemplar.engagementScore,
+    postedAt: exemplar.postedAt?.toISOString() ?? null,
+    createdAt: exemplar.createdAt.toISOString(),
+  }
+}
+
+export function serializeSeedPersona(seed: SeedPersona) {
+  const now = new Date().toISOString()
+  return {
+    id: seed.id,
+    userId: DEMO_USER_ID,
+    name: seed.name,
+    description: seed.description,
+    isDefault: seed.isDefault,
+    tone: seed.tone,
+    cadence: seed.cadence,
+    donts: seed.donts,
+    hookPatterns: seed.hookPatterns,
+    ctaStyle: seed.ctaStyle,
+    platforms: seed.platforms,
+    llm: {},
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+function safeParse<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+function toPersonaData(snapshot: PersonaSnapshot) {
+  return {
+    name: snapshot.name,
+    description: snapshot.description,
+    tone: JSON.stringify(snapshot.tone),
+    cadence: snapshot.cadence,
+    donts: JSON.stringify(snapshot.donts),
+    hookPatterns: JSON.stringify(snapshot.hookPatterns),
+    ctaStyle: snapshot.ctaStyle,
+    platforms: JSON.stringify(snapshot.platforms),
+    llm: JSON.stringify(snapshot.llm),
+  }
+}
+
+function nameKey(name: string) {
+  return name.trim().toLowerCase()
+}
+
+function toVoiceprintPersona(snapshot: PersonaSnapshot, samplePosts: VoiceprintPersona['samplePosts'] = []) {
+  return {
+    name: snapshot.name,
+    ...(snapshot.description ? { description: snapshot.description } : {}),
+    tone: snapshot.tone,
+    cadence: snapshot.cadence,
+    donts: snapshot.donts,
+    hookPatterns: snapshot.hookPatterns,
+    ctaStyle: snapshot.ctaStyle,
+    platforms: snapshot.platforms,
+    llm: snapshot.llm,
+    samplePosts,
+  } as VoiceprintPersona
+}
+
+function voiceprintSnapshot(persona: VoiceprintPersona): PersonaSnapshot {
+  return {
+    name: persona.name.trim(),
+    description: persona.description ?? null,
+    tone: persona.tone,
+    cadence: persona.cadence,
+    donts: persona.donts,
+    hookPatterns: persona.hookPatterns,
+    ctaStyle: persona.ctaStyle,
+    platforms: persona.platforms,
+    llm: persona.llm,
+  }
+}
+
+// Lists are combined, settings from the file win, and the existing name is kept
+function mergeSnapshots(existing: PersonaSnapshot, incoming: PersonaSnapshot): PersonaSnapshot {
+  const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]))
+  const platforms: Record<string, unknown> = { ...existing.platforms }
+  for (const [platform, settings] of Object.entries(incoming.platforms)) {
+    platforms[platform] = { ...(platforms[platform] as Record<string, unknown> | undefined), ...(settings as object) }
+  }
+
+  return {
+    name: existing.name,
+    description: incoming.description ?? existing.description,
+    tone: union(existing.tone, incoming.tone),
+    cadence: incoming.cadence,
+    donts: union(existing.donts, incoming.donts),
+    hookPatterns: union(existing.hookPatterns, incoming.hookPatterns),
+    ctaStyle: incoming.ctaStyle,
+    platforms,
+    llm: { ...existing.llm, ...incoming.llm },
+  }
+}
+
+function assertValidTone(tone: string[] | undefined) {
+  if (!Array.isArray(tone) || tone.filter((item) => item.trim()).length === 0) {
+    throw new Error('Tone must include at least one descriptor')
+  }
+}
+
+export class PersonaService {
+  private readonly embeddingService = new EmbeddingService()
+
+  /**
+   * A user's personas with the default first. Users without any get the
+   * built-in seed personas.
+   */
+  async listPersonas(userId: string) {
+    const personas = await prisma.persona.findMany({
+      where: { userId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    if (!personas.length) {
+      return defaultPersonas.map(serializeSeedPersona)
+    }
+
+    return personas.map(serializePersonaRecord)
+  }
+
+  async getPersona(personaId: string, userId: string) {
+    return serializePersonaRecord(await this.findOwnedPersona(personaId, userId))
+  }
+
+  /**
+   * Create a persona at version 1. The user's first persona always becomes the
+   * default.
+   */
+  async createPersona(userId: string, input: PersonaInput, note?: string) {
+    const persona = await prisma.$transaction((tx) => this.insertPersona(tx, userId, input, note))
+    return serializePersonaRecord(persona)
+  }
+
+  /**
+   * Update the given fields of a persona the user owns. Each real change is
+   * stored as a new version; an update that changes nothing doesn't bump it.
+   */
+  async updatePersona(personaId: string, userId: string, update: PersonaUpdate) {
+    const current = await this.findOwnedPersona(personaId, userId)
+
+    if (update.tone !== undefined) {
+      assertValidTone(update.tone)
+    }
+
+    if (update.name !== undefined && !update.name.trim()) {
+      throw new Error('Name is required')
+    }
+
+    return this.saveVersion(current, (previous) => ({
+      name: update.name?.trim() ?? previous.name,
+      description: update.description ?? previous.description,
+      tone: update.tone ?? previous.tone,
+      cadence: update.cadence ?? previous.cadence,
+      donts: update.donts ?? previous.donts,
+      hookPatterns: update.hookPatterns ?? previous.hookPatterns,
+      ctaStyle: update.ctaStyle ?? previous.ctaStyle,
+      platforms: update.platforms ? parsePlatformSettings(update.platforms) : previous.platforms,
+      llm: update.llm ? parseLlmSelection(update.llm) : previous.llm,
+    }))
+  }
+
+  /**
+   * Version history, newest first. Each entry lists what changed from the
+   * version before it.
+   */
+  async listVersions(personaId: string, userId: string) {
+    const persona = await this.findOwnedPersona(personaId, userId)
+    await this.ensureBaselineVersion(prisma, persona)
+
+    const versions = await prisma.personaVersion.findMany({
+      where: { personaId },
+      orderBy: { version: 'desc' },
+    })
+
+    return versions.map((version) => serializeVersion(version, persona.version))
+  }
+
+  async getVersion(personaId: string, userId: string, version: number) {
+    const persona = await this.findOwnedPersona(personaId, userId)
+    const record = await this.findVersion(persona, version)
+
+    return {
+      ...serializeVersion(record, persona.version),
+      snapshot: parseSnapshot(record.snapshot),
+    }
+  }
+
+  /**
+   * Diff any two versions; `to` defaults to the current one.
+   */
+  async diffVersions(personaId: string, userId: string, from: number, to?: number) {
+    const persona = await this.findOwnedPersona(personaId, userId)
+    const target = to ?? persona.version
+
+    const [fromRecord, toRecord] = await Promise.all([
+      this.findVersion(persona, from),
+      this.findVersion(persona, target),
+    ])
+
+    return {
+      from,
+      to: target,
+      changes: diffPersonaSnapshots(parseSnapshot(fromRecord.snapshot), parseSnapshot(toRecord.snapshot)),
+    }
+  }
+
+  /**
+   * Restore an earlier version. History is never rewritten: the restored
+   * settings are saved as a new version.
+   */
+  async restoreVersion(personaId: string, userId: string, version: number) {
+    const persona = await this.findOwnedPersona(personaId, userId)
+    const record = await this.findVersion(persona, version)
+
+    return this.saveVersion(persona, () => parseSnapshot(record.snapshot), `Restored version ${version}`)
+  }
+
+  /**
+   * Delete a persona. When it was the default, the oldest remaining persona
+   * takes over. Posts and jobs keep their content and lose the link.
+   */
+  async deletePersona(personaId: string, userId: string) {
+    const persona = await this.findOwnedPersona(personaId, userId)
+
+    const defaultPersonaId = await prisma.$transaction(async (tx) => {
+      await tx.persona.delete({ where: { id: persona.id } })
+
+      if (!persona.isDefault) {
+        const current = await tx.persona.findFirst({ where: { userId, isDefault: true } })
+        return current?.id ?? null
+      }
+
+      const next = await tx.persona.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      })
+
+      if (!next) return null
+
+      await tx.persona.update({
+        where: { id: next.id },
+        data: { isDefault: true },
+      })
+      return next.id
+    })
+
+    return { id: persona.id, defaultPersonaId }
+  }
+
+  /**
+   * Copy a persona into the user's library. Seed personas can be copied too,
+   * which is how users start customizing one.
+   */
+  async duplicatePersona(personaId: string, userId: string, name?: string) {
+    const source = await prisma.persona.findFirst({
+      where: { id: personaId, userId },
+    })
+
+    if (source) {
+      const copy = await this.createPersona(userId, {
+        name: name?.trim() || `${source.name} (copy)`,
+        description: source.description ?? undefined,
+        tone: safeParse(source.tone, []),
+        cadence: source.cadence as PersonaInput['cadence'],
+        donts: safeParse(source.donts, []),
+        hookPatterns: safeParse(source.hookPatterns, []),
+        ctaStyle: source.ctaStyle as PersonaInput['ctaStyle'],
+        platforms: safeParse(source.platforms, {}),
+        llm: safeParse(source.llm, {}),
+      }, `Duplicated from ${source.name} (version ${source.version})`)
+
+      const exemplars = await prisma.personaExemplar.findMany({ where: { personaId: source.id } })
+      if (exemplars.length > 0) {
+        await prisma.personaExemplar.createMany({
+          data: exemplars.map(({ id: _id, createdAt: _createdAt, ...exemplar }) => ({ ...exemplar, personaId: copy.id })),
+        })
+        this.syncEmbeddings(copy.id)
+      }
+
+      return copy
+    }
+
+    const seed = defaultPersonas.find((persona) => persona.id === personaId)
+    if (!seed) {
+      throw new Error('Persona not found')
+    }
+
+    return this.createPersona(userId, {
+      name: name?.trim() || seed.name,
+      description: seed.description,
+      tone: seed.tone,
+      cadence: seed.cadence as PersonaInput['cadence'],
+      donts: seed.donts,
+      hookPatterns: seed.hookPatterns,
+      ctaStyle: seed.ctaStyle as PersonaInput['ctaStyle'],
+      platforms: seed.platforms,
+    }, `Copied from the built-in ${seed.name} persona`)
+  }
+
+  /**
+   * Make a persona the user's default and clear the flag on all others
+   */
+  async setDefaultPersona(personaId: string, userId: string) {
+    await this.findOwnedPersona(personaId, userId)
+
+    const [, persona] = await prisma.$transaction([
+      prisma.persona.updateMany({
+        where: { userId, id: { not: personaId } },
+        data: { isDefault: false },
+      }),
+      prisma.persona.update({
+        where: { id: personaId },
+        data: { isDefault: true },
+      }),
+    ])
+
+    return serializePersonaRecord(persona)
+  }
+
+  /**
+   * A persona's exemplars, best performers first
+   */
+  async listExemplars(personaId: string, userId: string) {
+    await this.findOwnedPersona(personaId, userId)
+
+    const exemplars = await prisma.personaExemplar.findMany({
+      where: { personaId },
+      orderBy: [{ engagementScore: 'desc' }, { createdAt: 'desc' }],
+    })
+
+    return exemplars.map(serializeExemplar)
+  }
+
+  async addExemplar(personaId: string, userId: string, input: ExemplarInput) {
+    await this.findOwnedPersona(personaId, userId)
+
+    const content = input.content.trim()
+    if (!content) {
+      throw new Error('Exemplar content is required')
+    }
+
+    const existing = await prisma.personaExemplar.findMany({
+      where: { personaId },
+      select: { content: true },
+    })
+    if (existing.some((exemplar) => exemplar.content.trim().toLowerCase() === content.toLowerCase())) {
+      throw new Error('This post is already an exemplar')
+    }
+    if (existing.length >= MAX_EXEMPLARS_PER_PERSONA) {
+      throw new Error(`Exemplar limit reached: a persona can keep ${MAX_EXEMPLARS_PER_PERSONA} exemplars`)
+    }
+
+    const postedAt = input.postedAt ? new Date(input.postedAt) : null
+    const exemplar = await prisma.personaExemplar.create({
+      data: {
+        personaId,
+        content,
+        platform: input.platform,
+        source: 'manual',
+        engagementScore: input.engagementScore ?? 0,
+        postedAt: postedAt && !Number.isNaN(postedAt.getTime()) ? postedAt : null,
+      },
+    })
+    this.syncEmbeddings(personaId)
+
+    return serializeExemplar(exemplar)
+  }
+
+  async removeExemplar(personaId: string, userId: string, exemplarId: string) {
+    await this.findOwnedPersona(personaId, userId)
+
+    const { count } = await prisma.personaExemplar.deleteMany({
+      where: { id: exemplarId, personaId },
+    })
+    if (count === 0) {
+      throw new Error('Exemplar not found')
+    }
+    this.syncEmbeddings(personaId)
+
+    return { id: exemplarId }
+  }
+
+  /**
+   * Search the persona's past posts and exemplars by meaning, using its
+   * embedding index
+   */
+  async searchSimilarPosts(
+    personaId: string,
+    userId: string,
+    text: string,
+    options: { limit?: number; sourceTypes?: EmbeddingSourceType[] } = {}
+  ) {
+    await this.findOwnedPersona(personaId, userId)
+    this.assertEmbeddingsEnabled()
+
+    const matches = await this.embeddingService.findSimilar(personaId, text, options)
+    return matches.map((match) => ({ ...match, similarity: Math.round(match.similarity * 1000) / 1000 }))
+  }
+
+  /**
+   * Embed any published posts and exemplars missing from the persona's index
+   */
+  async reindexPersona(personaId: string, userId: string) {
+    await this.findOwnedPersona(personaId, userId)
+    this.assertEmbeddingsEnabled()
+
+    const embedded = await this.embeddingService.syncPersona(personaId)
+    return { embedded, ...(await this.embeddingService.describe(personaId)) }
+  }
+
+  /**
+   * Export one persona, or all of the user's personas, as a voiceprint. Users
+   * without saved personas export the built-in ones. `samplePosts` adds up to
+   * that many of each persona's best-performing exemplars.
+   */
+  async exportVoiceprint(userId: string, options: { personaId?: string; samplePosts?: number } = {}): Promise<Voiceprint> {
+    const records = await prisma.persona.findMany({
+      where: { userId, ...(options.personaId ? { id: options.personaId } : {}) },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    if (records.length === 0) {
+      const seeds = defaultPersonas.filter((seed) => !options.personaId || seed.id === options.personaId)
+      if (!seeds.length) {
+        throw new Error('Persona not found')
+      }
+
+      return buildVoiceprint(seeds.map((seed) => toVoiceprintPersona({ ...seed, llm: {} })))
+    }
+
+    const personas = await Promise.all(
+      records.map(async (record) => {
+        const exemplars = options.samplePosts
+          ? await prisma.personaExemplar.findMany({
+              where: { personaId: record.id },
+              orderBy: [{ engagementScore: 'desc' }, { createdAt: 'desc' }],
+              take: options.samplePosts,
+            })
+          : []
+
+        return toVoiceprintPersona(
+          snapshotPersona(record),
+          exemplars.map((exemplar) => ({
+            content: exemplar.content,
+            platform: exemplar.platform as ExemplarInput['platform'],
+            ...(exemplar.postedAt ? { postedAt: exemplar.postedAt.toISOString() } : {}),
+          }))
+        )
+      })
+    )
+
+    return buildVoiceprint(personas)
+  }
+
+  /**
+   * Import a voiceprint. Personas are matched to existing ones by name; by
+   * default any match aborts the import and is reported so the caller can
+   * choose to merge, replace or skip. Merges and replacements are saved as new
+   * versions, so they can be rolled back.
+   */
+  async importVoiceprint(
+    userId: string,
+    voiceprint: Voiceprint,
+    options: VoiceprintImportOptions = {}
+  ): Promise<VoiceprintImportResult> {
+    const mode = options.onConflict ?? 'report'
+    const dryRun = Boolean(options.dryRun)
+
+    const seen = new Set<string>()
+    for (const persona of voiceprint.personas) {
+      if (seen.has(nameKey(persona.name))) {
+        throw new Error(`Invalid voiceprint: persona "${persona.name}" appears more than once`)
+      }
+      seen.add(nameKey(persona.name))
+    }
+
+    const existing = await prisma.persona.findMany({ where: { userId } })
+    const byName = new Map(existing.map((persona) => [nameKey(persona.name), persona]))
+    const conflicts = voiceprint.personas.flatMap((persona) => {
+      const match = byName.get(nameKey(persona.name))
+      return match ? [{ name: persona.name, personaId: match.id }] : []
+    })
+
+    if (conflicts.length > 0 && mode === 'report') {
+      return { success: false, dryRun, conflicts, personas: [] }
+    }
+
+    const plan = (incoming: VoiceprintPersona) => {
+      const match = byName.get(nameKey(incoming.name))
+      const action = !match ? 'created' : mode === 'merge' ? 'merged' : mode === 'replace' ? 'replaced' : 'skipped'
+      return { match, action, samplePosts: action === 'skipped' ? [] : incoming.samplePosts } as const
+    }
+
+    if (dryRun) {
+      const personas = voiceprint.personas.map((incoming) => {
+        const { match, action, samplePosts } = plan(incoming)
+        return { name: incoming.name, action, personaId: match?.id, samplePosts: samplePosts.length }
+      })
+      return { success: true, dryRun, conflicts, personas }
+    }
+
+    // All or nothing: a persona that fails part-way through the file rolls back the ones before it
+    const personas = await prisma.$transaction(async (tx) => {
+      const results: VoiceprintImportResult['personas'] = []
+      for (const incoming of voiceprint.personas) {
+        const { match, action, samplePosts } = plan(incoming)
+
+        let personaId = match?.id
+        if (!match) {
+          const { samplePosts: _samples, ...input } = incoming
+          personaId = (await this.insertPersona(tx, userId, input, 'Imported from a voiceprint file')).id
+        } else if (action === 'merged') {
+          await this.writeVersion(
+            tx,
+            match,
+            (previous) => mergeSnapshots(previous, voiceprintSnapshot(incoming)),
+            'Merged from a voiceprint file'
+          )
+        } else if (action === 'replaced') {
+          // Keep the existing name's casing so the persona stays recognisable
+          await this.writeVersion(
+            tx,
+            match,
+            (previous) => ({ ...voiceprintSnapshot(incoming), name: previous.name }),
+            'Replaced from a voiceprint file'
+          )
+        }
+
+        const imported = personaId ? await this.importExemplars(tx, personaId, samplePosts) : 0
+        results.push({ name: incoming.name, action, personaId, samplePosts: imported })
+      }
+      return results
+    }, { timeout: VOICEPRINT_IMPORT_TIMEOUT_MS })
+
+    for (const result of personas) {
+      if (result.personaId && result.samplePosts > 0) this.syncEmbeddings(result.personaId)
+    }
+
+    return { success: true, dryRun, conflicts, personas }
+  }
+
+  // Samples become exemplars; ones the persona already has are skipped
+  private async importExemplars(
+    tx: Prisma.TransactionClient,
+    personaId: string,
+    samples: VoiceprintPersona['samplePosts']
+  ) {
+    if (samples.length === 0) return 0
+
+    const existing = await tx.personaExemplar.findMany({
+      where: { personaId },
+      select: { content: true },
+    })
+    const known = new Set(existing.map((exemplar) => exemplar.content.trim().toLowerCase()))
+    const fresh = samples
+      .filter((sample) => {
+        const key = sample.content.trim().toLowerCase()
+        if (known.has(key)) return false
+        known.add(key)
+        return true
+      })
+      .slice(0, Math.max(0, MAX_EXEMPLARS_PER_PERSONA - existing.length))
+
+    if (fresh.length === 0) return 0
+
+    await tx.personaExemplar.createMany({
+      data: fresh.map((sample) => {
+        const postedAt = sample.postedAt ? new Date(sample.postedAt) : null
+        return {
+          personaId,
+          content: sample.content.trim(),
+          platform: sample.platform ?? 'twitter',
+          source: 'voiceprint',
+          postedAt: postedAt && !Number.isNaN(postedAt.getTime()) ? postedAt : null,
+        }
+      }),
+    })
+
+    return fresh.length
+  }
+
+  private async insertPersona(tx: Prisma.TransactionClient, userId: string, input: PersonaInput, note?: string) {
+    assertValidTone(input.tone)
+
+    const snapshot: PersonaSnapshot = {
+      name: input.name.trim(),
+      description: input.description ?? null,
+      tone: input.tone,
+      cadence: input.cadence,
+      donts: input.donts ?? [],
+      hookPatterns: input.hookPatterns ?? [],
+      ctaStyle: input.ctaStyle,
+      platforms: parsePlatformSettings(input.platforms),
+      llm: parseLlmSelection(input.llm),
+    }
+
+    // Locks the user's row so concurrent creations can't both see no default
+    await tx.user.update({ where: { id: userId }, data: { updatedAt: new Date() } })
+
+    const hasDefault = (await tx.persona.count({ where: { userId, isDefault: true } })) > 0
+    const isDefault = Boolean(input.isDefault) || !hasDefault
+
+    if (isDefault && hasDefault) {
+      await tx.persona.updateMany({
+        where: { userId },
+        data: { isDefault: false },
+      })
+    }
+
+    const created = await tx.persona.create({
+      data: {
+        userId,
+        isDefault,
+        version: 1,
+        ...toPersonaData(snapshot),
+      },
+    })
+
+    await tx.personaVersion.create({
+      data: {
+        personaId: created.id,
+        version: 1,
+        snapshot: JSON.stringify(snapshot),
+        note,
+      },
+    })
+
+    return created
+  }
+
+  /**
+   * Save the settings `buildNext` derives from the persona's latest state as a
+   * new version, unless nothing changes.
+   */
+  private async saveVersion(
+    current: Persona,
+    buildNext: (previous: PersonaSnapshot) => PersonaSnapshot,
+    note?: string
+  ) {
+    const persona = await prisma.$transaction((tx) => this.writeVersion(tx, current, buildNext, note))
+    return serializePersonaRecord(persona)
+  }
+
+  private async writeVersion(
+    tx: Prisma.TransactionClient,
+    current: Persona,
+    buildNext: (previous: PersonaSnapshot) => PersonaSnapshot,
+    note?: string
+  ) {
+    const read = snapshotPersona(current)
+    if (!hasChanges(diffPersonaSnapshots(read, buildNext(read)))) {
+      return current
+    }
+
+    // Touching the row locks it until commit and returns its latest state, so a
+    // concurrent save can't slip in between the version recorded here and its diff
+    const latest = await tx.persona.update({
+      where: { id: current.id },
+      data: { updatedAt: new Date() },
+    })
+
+    const previous = snapshotPersona(latest)
+    const next = buildNext(previous)
+    const changes = diffPersonaSnapshots(previous, next)
+    if (!hasChanges(changes)) {
+      return latest
+    }
+
+    const version = latest.version + 1
+    await this.ensureBaselineVersion(tx, latest)
+    await tx.personaVersion.create({
+      data: {
+        personaId: latest.id,
+        version,
+        snapshot: JSON.stringify(next),
+        changes: JSON.stringify(changes),
+        note,
+      },
+    })
+
+    return tx.persona.update({
+      where: { id: latest.id },
+      data: { ...toPersonaData(next), version },
+    })
+  }
+
+  // Personas created before version history have no row for their current state
+  private async ensureBaselineVersion(client: Prisma.TransactionClient, persona: Persona) {
+    const existing = await client.personaVersion.findUnique({
+      where: { personaId_version: { personaId: persona.id, version: persona.version } },
+    })
+
+    if (!existing) {
+      await client.personaVersion.create({
+        data: {
+          personaId: persona.id,
+          version: persona.version,
+          snapshot: JSON.stringify(snapshotPersona(persona)),
+        },
+      })
+    }
+  }
+
+  private async findVersion(persona: Persona, version: number) {
+    if (version === persona.version) {
+      await this.ensureBaselineVersion(prisma, persona)
+    }
+
+    const record = await prisma.personaVersion.findUnique({
+      where: { personaId_version: { personaId: persona.id, version } },
+    })
+
+    if (!record) {
+      throw new Error('Persona version not found')
+    }
+
+    return record
+  }
+
+  // Searches only read the index, so exemplar changes are embedded when they're written
+  private syncEmbeddings(personaId: string) {
+    this.embeddingService
+      .syncPersona(personaId)
+      .catch((error) => console.error('Failed to sync persona embeddings', error))
+  }
+
+  private assertEmbeddingsEnabled() {
+    if (!this.embeddingService.enabled) {
+      throw new Error('Similarity search is disabled: set EMBEDDINGS_PROVIDER to enable it')
+    }
+  }
+
+  private async findOwnedPersona(personaId: string, userId: string) {
+    const persona = await prisma.persona.findFirst({
+      where: { id: personaId, userId },
+    })
+
+    if (!persona) {
+      throw new Error('Persona not found')
+    }
+
+    return persona
+  }
+}
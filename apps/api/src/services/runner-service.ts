@@ -0,0 +1,132 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma, RunnerToken } from '../lib/database'
+
+export const RUNNER_SCOPES = ['jobs:claim', 'jobs:complete'] as const
+
+export type RunnerScope = (typeof RUNNER_SCOPES)[number]
+
+export interface RunnerIdentity {
+  id: string
+  userId: string
+  name: string
+  scopes: RunnerScope[]
+}
+
+const TOKEN_PREFIX = 'rnr_'
+
+// Avoid a database write on every poll; last-seen only needs minute precision
+const LAST_SEEN_UPDATE_MS = 60 * 1000
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function parseScopes(value: string): RunnerScope[] {
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed)
+      ? parsed.filter((scope): scope is RunnerScope => (RUNNER_SCOPES as readonly string[]).includes(scope))
+      : []
+  } catch {
+    return []
+  }
+}
+
+function serializeRunnerToken(runner: RunnerToken) {
+  return {
+    id: runner.id,
+    name: runner.name,
+    tokenPrefix: runner.tokenPrefix,
+    scopes: parseScopes(runner.scopes),
+    lastSeenAt: runner.lastSeenAt,
+    revokedAt: runner.revokedAt,
+    createdAt: runner.createdAt,
+  }
+}
+
+export class RunnerService {
+  /**
+   * Register a runner for a user. The plaintext token is only returned here.
+   */
+  async createRunnerToken(userId: string, name: string, scopes: RunnerScope[] = [...RUNNER_SCOPES]) {
+    const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`
+
+    const runner = await prisma.runnerToken.create({
+      data: {
+        userId,
+        name,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+        scopes: JSON.stringify([...new Set(scopes)]),
+      },
+    })
+
+    return {
+      runner: serializeRunnerToken(runner),
+      token,
+    }
+  }
+
+  async listRunnerTokens(userId: string) {
+    const runners = await prisma.runnerToken.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return runners.map(serializeRunnerToken)
+  }
+
+  async revokeRunnerToken(userId: string, runnerId: string) {
+    const runner = await prisma.runnerToken.findFirst({
+      where: { id: runnerId, userId },
+    })
+
+    if (!runner) {
+      throw new Error('Runner not found')
+    }
+
+    if (runner.revokedAt) {
+      return serializeRunnerToken(runner)
+    }
+
+    const revoked = await prisma.runnerToken.update({
+      where: { id: runner.id },
+      data: { revokedAt: new Date() },
+    })
+
+    return serializeRunnerToken(revoked)
+  }
+
+  /**
+   * Resolve a presented token to its runner, recording when it was last seen.
+   * Returns null for unknown or revoked tokens.
+   */
+  async authenticateToken(token: string): Promise<RunnerIdentity | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) {
+      return null
+    }
+
+    const runner = await prisma.runnerToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    })
+
+    if (!runner || runner.revokedAt) {
+      return null
+    }
+
+    const now = new Date()
+    if (!runner.lastSeenAt || now.getTime() - runner.lastSeenAt.getTime() > LAST_SEEN_UPDATE_MS) {
+      await prisma.runnerToken.update({
+        where: { id: runner.id },
+        data: { lastSeenAt: now },
+      })
+    }
+
+    return {
+      id: runner.id,
+      userId: runner.userId,
+      name: runner.name,
+      scopes: parseScopes(runner.scopes),
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { parse } from 'csv-parse/sync'
+import { ContentUploadService } from '../src/services/content-upload-service'
+import { guessColumnMapping } from '../src/lib/column-mapping'
+import { ColumnMapping } from '../src/lib/types'
+
+const service = new ContentUploadService()
+const uploadDir = path.join(process.cwd(), 'uploads')
+const shares = fs.readFileSync(path.join(__dirname, 'fixtures', 'Shares.csv'))
+const written: string[] = []
+
+function writeUpload(name: string, content: Buffer | string) {
+  fs.mkdirSync(uploadDir, { recursive: true })
+  const filename = `test-${process.pid}-${name}`
+  fs.writeFileSync(path.join(uploadDir, filename), content)
+  written.push(filename)
+  return filename
+}
+
+// The mapping the upload form would send: the guess from the preview's sample values
+function guessedMapping(csv: Buffer) {
+  const rows: Record<string, string>[] = parse(csv, { columns: true, bom: true })
+  const headers = Object.keys(rows[0])
+  const samples = Object.fromEntries(headers.map((header) => [header, rows.map((row) => row[header]).filter(Boolean)]))
+  return guessColumnMapping(headers, samples) as ColumnMapping
+}
+
+after(() => {
+  for (const filename of written) fs.rmSync(path.join(uploadDir, filename), { force: true })
+})
+
+test('reads Shares.csv by its own layout even when a mapping is sent', async () => {
+  const mapping = guessedMapping(shares)
+  assert.equal(mapping.content, 'ShareCommentary')
+
+  const parsed = await service.parseUploadRows(writeUpload('Shares.csv', shares), 'twitter', mapping)
+  assert.equal(parsed.platform, 'linkedin')
+  assert.equal(parsed.mapping, undefined)
+
+  const posts = service.extractContent(parsed.rows, parsed.mapping)
+  assert.equal(posts.length, 2)
+  assert.equal(posts[0].content, 'Shipping is a habit.\nHere’s how we do it "weekly".')
+  assert.equal(posts[0].date?.toISOString(), '2024-01-15T14:03:22.000Z')
+  assert.equal(posts[0].metadata?.type, 'Post')
+  assert.equal(posts[1].metadata?.type, 'Share')
+})
+
+test('reads Shares.csv commentary with stray quotes', async () => {
+  const csv = [
+    'Date,ShareLink,ShareCommentary,SharedUrl,MediaUrl,Visibility',
+    '2024-03-01 08:00:00,https://www.linkedin.com/feed/update/urn:li:share:7170004,She said "ship it" and we did,,,MEMBER_NETWORK',
+  ].join('\n')
+
+  // Same header as the fixture, so the form would send the same mapping
+  const parsed = await service.parseUploadRows(writeUpload('stray-quotes.csv', csv), 'twitter', guessedMapping(shares))
+  const [post] = service.extractContent(parsed.rows, parsed.mapping)
+  assert.equal(post.content, 'She said "ship it" and we did')
+})
+
+test('skips the mapping step in the preview for Shares.csv', async () => {
+  const preview = await service.previewCSV('user-1', shares)
+  assert.equal(preview.knownExport, 'linkedin')
+  assert.deepEqual(preview.columns, [])
+})
+
+test('reads other CSVs through the confirmed mapping', async () => {
+  const csv = 'Post Body,When\nA post long enough to count as content,2024-05-01T10:00:00Z\n'
+  const mapping = { content: 'Post Body', date: 'When' } as ColumnMapping
+
+  const parsed = await service.parseUploadRows(writeUpload('mapped.csv', csv), 'linkedin', mapping)
+  assert.equal(parsed.platform, 'linkedin')
+  assert.deepEqual(parsed.mapping, mapping)
+  assert.equal(service.extractContent(parsed.rows, parsed.mapping)[0].content, 'A post long enough to count as content')
+})
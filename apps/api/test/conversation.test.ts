@@ -0,0 +1,102 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { findRepeatedPoints, formatConversation, parseConversation } from '../src/lib/conversation'
+
+test('parses a thread copied from X with its UI chrome', () => {
+  const messages = parseConversation([
+    'Jane Doe',
+    '@jane',
+    '·',
+    '2h',
+    'Shipping beats polishing.',
+    'Every time.',
+    '12',
+    '3',
+    '1.2K views',
+    'John Smith',
+    '@john',
+    '·',
+    '1h',
+    'Replying to @jane',
+    'Agreed, but the docs matter too.',
+    'Show more replies',
+  ].join('\n'))
+
+  assert.deepEqual(messages, [
+    { author: 'jane', timestamp: '2h', content: 'Shipping beats polishing.\nEvery time.' },
+    { author: 'john', timestamp: '1h', content: 'Agreed, but the docs matter too.' },
+  ])
+})
+
+test('parses inline "Name @handle · 2h" headers', () => {
+  const messages = parseConversation([
+    'Jane Doe @jane · 2h',
+    'We moved the launch to Friday.',
+    'John @john · Mar 3',
+    'Friday works for us.',
+  ].join('\n'))
+
+  assert.deepEqual(messages, [
+    { author: 'jane', timestamp: '2h', content: 'We moved the launch to Friday.' },
+    { author: 'john', timestamp: 'Mar 3', content: 'Friday works for us.' },
+  ])
+})
+
+test('parses "@handle:" and "Name (@handle):" lines', () => {
+  const messages = parseConversation([
+    '@jane: "Is the beta open yet?"',
+    'John Smith (@john): Next week, invites go out Monday.',
+  ].join('\n'))
+
+  assert.deepEqual(messages, [
+    { author: 'jane', timestamp: undefined, content: 'Is the beta open yet?' },
+    { author: 'john', timestamp: undefined, content: 'Next week, invites go out Monday.' },
+  ])
+})
+
+test('keeps "Update:" and "Note:" lines inside a post when the paste has handles', () => {
+  const messages = parseConversation([
+    'Jane Doe @jane · 2h',
+    'Shipped the new editor today.',
+    'Update: it also supports tables.',
+    'John @john · 1h',
+    'Nice work.',
+    'Note: tables need the latest version.',
+  ].join('\n'))
+
+  assert.deepEqual(messages.map((message) => message.author), ['jane', 'john'])
+  assert.equal(messages[0].content, 'Shipped the new editor today.\nUpdate: it also supports tables.')
+  assert.equal(messages[1].content, 'Nice work.\nNote: tables need the latest version.')
+  assert.equal(
+    formatConversation(messages, 1),
+    '1. @jane (2h): Shipped the new editor today. Update: it also supports tables.\n' +
+      '>> 2. @john (1h): Nice work. Note: tables need the latest version.'
+  )
+})
+
+test('reads "Name: text" lines as authors when the paste has no handles', () => {
+  const messages = parseConversation('Alice: Want to ship on Friday?\nBob: Only if the tests pass.')
+  assert.deepEqual(messages.map((message) => message.author), ['Alice', 'Bob'])
+})
+
+test('reads a "Name: text" opening line as an author next to handles', () => {
+  const messages = parseConversation('Alice: Who is on call?\n@bob: Me this week.\nUpdate: swapping with Carol Friday.')
+
+  assert.deepEqual(messages.map((message) => message.author), ['Alice', 'bob'])
+  assert.equal(messages[1].content, 'Me this week.\nUpdate: swapping with Carol Friday.')
+})
+
+test('returns text without author markers as one message', () => {
+  assert.deepEqual(parseConversation('just a post\n\nwith two paragraphs'), [
+    { author: '', timestamp: undefined, content: 'just a post\nwith two paragraphs' },
+  ])
+})
+
+test('flags a reply that repeats a message in the conversation', () => {
+  const messages = parseConversation('@jane: consistent posting schedules build audience trust over time')
+
+  const [violation] = findRepeatedPoints('Consistent posting schedules build audience trust over time, honestly.', messages)
+  assert.equal(violation.rule, 'repetition')
+  assert.equal(violation.message, 'Repeats the point @jane already made in message 1')
+  assert.deepEqual(findRepeatedPoints('Tables are a great addition to the editor.', messages), [])
+})
@@ -0,0 +1,75 @@
+window.YTD.tweets.part0 = [
+  {
+    "tweet" : {
+      "id_str" : "1765000000000000001",
+      "full_text" : "Shipping beats polishing. #buildinpublic",
+      "created_at" : "Wed Mar 04 23:50:37 +0000 2025",
+      "lang" : "en",
+      "favorite_count" : "12",
+      "retweet_count" : "3",
+      "retweeted" : false,
+      "entities" : {
+        "hashtags" : [ { "text" : "buildinpublic" } ],
+        "user_mentions" : [ ],
+        "urls" : [ ]
+      }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1765000000000000002",
+      "full_text" : "@jane Agreed, docs matter too.",
+      "created_at" : "Thu Mar 05 08:05:00 +0000 2025",
+      "lang" : "en",
+      "favorite_count" : "1",
+      "retweet_count" : "0",
+      "retweeted" : false,
+      "in_reply_to_status_id_str" : "1764999999999999999",
+      "in_reply_to_screen_name" : "jane",
+      "entities" : {
+        "hashtags" : [ ],
+        "user_mentions" : [ { "screen_name" : "jane" } ],
+        "urls" : [ ]
+      }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1765000000000000003",
+      "full_text" : "RT @jane: New editor ships Friday.",
+      "created_at" : "Thu Mar 05 09:00:00 +0000 2025",
+      "lang" : "en",
+      "favorite_count" : "0",
+      "retweet_count" : "5",
+      "retweeted" : false,
+      "entities" : {
+        "hashtags" : [ ],
+        "user_mentions" : [ { "screen_name" : "jane" } ],
+        "urls" : [ ]
+      }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1765000000000000004",
+      "full_text" : "This is the right call https://t.co/abc123",
+      "created_at" : "Fri Mar 06 17:30:00 +0000 2025",
+      "lang" : "en",
+      "favorite_count" : "7",
+      "retweet_count" : "1",
+      "retweeted" : false,
+      "entities" : {
+        "hashtags" : [ ],
+        "user_mentions" : [ ],
+        "urls" : [ { "url" : "https://t.co/abc123", "expanded_url" : "https://twitter.com/jane/status/1764999999999999999" } ]
+      }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1765000000000000005",
+      "full_text" : "",
+      "created_at" : "Fri Mar 06 18:00:00 +0000 2025"
+    }
+  }
+]
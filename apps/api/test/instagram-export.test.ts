@@ -0,0 +1,50 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { instagramPostsToRows, readInstagramExport } from '../src/lib/instagram-export'
+import { repairMojibake } from '../src/lib/text-cleanup'
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name))
+
+test('maps posts_1.json captions and media', () => {
+  const rows = readInstagramExport(fixture('posts_1.json'))
+
+  assert.equal(rows.length, 2)
+  assert.equal(rows[0].Type, 'Post')
+  assert.equal(rows[1].Type, 'Carousel')
+  // Carousels keep the caption on the post rather than the media
+  assert.equal(rows[1].Text, 'Studio day — new track soon 🎵')
+})
+
+test('converts creation timestamps to ISO dates', () => {
+  const rows = readInstagramExport(fixture('posts_1.json'))
+  assert.equal(rows[0]['Created At'], '2023-01-01T00:00:00.000Z')
+  assert.equal(rows[1]['Created At'], '2023-01-02T00:00:00.000Z')
+})
+
+test('repairs mojibake-encoded captions', () => {
+  const [row] = readInstagramExport(fixture('posts_1.json'))
+  assert.equal(row.Text, 'Sunday café run ☕️ 😀')
+})
+
+test('leaves correctly encoded text alone', () => {
+  assert.equal(repairMojibake('Crème brûlée, naïve, ÷ and 😀'), 'Crème brûlée, naïve, ÷ and 😀')
+  assert.equal(repairMojibake('itâ€™s'), 'it’s')
+})
+
+test('reads posts from the export ZIP', () => {
+  assert.deepEqual(readInstagramExport(fixture('instagram-export.zip')), readInstagramExport(fixture('posts_1.json')))
+})
+
+test('rejects HTML-format exports', () => {
+  assert.throws(
+    () => readInstagramExport(fixture('instagram-export-html.zip')),
+    /This Instagram export is in HTML format/
+  )
+})
+
+test('accepts content files that wrap the post list', () => {
+  const rows = instagramPostsToRows({ ig_reels_media: [{ media: [{ title: 'Reel', creation_timestamp: 1672531200 }] }] })
+  assert.equal(rows[0].Text, 'Reel')
+})
@@ -0,0 +1,41 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { parse } from 'csv-parse/sync'
+import { isLinkedInShares, linkedInSharesToRows, readLinkedInExport } from '../src/lib/linkedin-export'
+
+const shares = fs.readFileSync(path.join(__dirname, 'fixtures', 'Shares.csv'))
+
+test('maps Shares.csv columns onto upload columns', () => {
+  const rows = readLinkedInExport(shares)
+
+  assert.equal(rows.length, 3)
+  assert.deepEqual(rows[0], {
+    Text: 'Shipping is a habit.\nHere’s how we do it "weekly".',
+    'Created At': '2024-01-15T14:03:22Z',
+    URL: 'https://www.linkedin.com/feed/update/urn:li:share:7152001',
+    URLs: '',
+    Type: 'Post',
+  })
+  assert.equal(rows[2].Type, 'Share')
+  assert.equal(rows[2].URLs, 'https://example.com/hiring')
+})
+
+test('reads dates as UTC', () => {
+  const [row] = readLinkedInExport(shares)
+  assert.equal(new Date(row['Created At']).toISOString(), '2024-01-15T14:03:22.000Z')
+})
+
+test('keeps reshares without commentary as empty text', () => {
+  const rows = readLinkedInExport(shares)
+  assert.equal(rows[1].Text, '')
+  assert.equal(rows[1].URLs, 'https://example.com/article')
+})
+
+test('recognizes Shares.csv among parsed CSVs', () => {
+  const rows = parse(shares, { columns: true, bom: true })
+  assert.equal(isLinkedInShares(rows), true)
+  assert.equal(isLinkedInShares([{ Text: 'hello' }]), false)
+  assert.equal(linkedInSharesToRows(rows).length, 3)
+})
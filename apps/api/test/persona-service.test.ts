@@ -0,0 +1,55 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { prisma } from '../src/lib/database'
+import { PersonaService } from '../src/services/persona-service'
+import { parseVoiceprint, serializeVoiceprint } from '../src/lib/voiceprint'
+
+const createdAt = new Date('2024-01-01T00:00:00Z')
+
+const persona = {
+  id: 'persona-1',
+  userId: 'user-1',
+  name: 'Founder Notes',
+  description: 'Plain-spoken: no hype',
+  isDefault: true,
+  tone: JSON.stringify(['direct', 'warm']),
+  cadence: 'concise',
+  donts: JSON.stringify(['no: colons in hooks']),
+  hookPatterns: JSON.stringify(["Here's the thing"]),
+  ctaStyle: 'soft',
+  platforms: JSON.stringify({ twitter: { maxLength: 280 } }),
+  llm: JSON.stringify({}),
+  version: 2,
+  createdAt,
+  updatedAt: createdAt,
+}
+
+const exemplar = {
+  id: 'exemplar-1',
+  personaId: 'persona-1',
+  content: 'Shipped it.\nTwo lines, "quoted".',
+  platform: 'twitter',
+  source: 'manual',
+  engagementScore: 3,
+  postedAt: new Date('2024-02-01T09:00:00Z'),
+  createdAt,
+}
+
+// Stand-ins for the tables exportVoiceprint reads
+Object.assign(prisma, {
+  persona: { findMany: async () => [persona] },
+  personaExemplar: { findMany: async () => [exemplar] },
+})
+
+test('exported voiceprints parse back to the same personas in both formats', async () => {
+  const voiceprint = await new PersonaService().exportVoiceprint('user-1', { samplePosts: 5 })
+
+  assert.deepEqual(voiceprint.personas[0].tone, ['direct', 'warm'])
+  assert.deepEqual(voiceprint.personas[0].samplePosts, [
+    { content: exemplar.content, platform: 'twitter', postedAt: '2024-02-01T09:00:00.000Z' },
+  ])
+
+  for (const format of ['yaml', 'json'] as const) {
+    assert.deepEqual(parseVoiceprint(serializeVoiceprint(voiceprint, format)), voiceprint)
+  }
+})
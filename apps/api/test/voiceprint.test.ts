@@ -0,0 +1,76 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildVoiceprint, parseVoiceprint, serializeVoiceprint } from '../src/lib/voiceprint'
+import { VoiceprintPersona } from '../src/lib/types'
+
+const persona: VoiceprintPersona = {
+  name: 'Founder Notes',
+  description: 'Plain-spoken: no hype, "real" numbers',
+  tone: ['direct', 'warm'],
+  cadence: 'concise',
+  donts: ['no: colons in hooks', 'yes'],
+  hookPatterns: ["Here's the thing", '# not a comment'],
+  ctaStyle: 'question-based',
+  platforms: { twitter: { maxLength: 280 } },
+  llm: {},
+  samplePosts: [
+    { content: 'Line one\nLine two with "quotes"\n\n  indented line', platform: 'twitter', postedAt: '2024-05-01T10:00:00.000Z' },
+  ],
+}
+
+test('round-trips a voiceprint through YAML', () => {
+  const voiceprint = buildVoiceprint([persona])
+  const yaml = serializeVoiceprint(voiceprint, 'yaml')
+
+  assert.match(yaml, /^# Voiceprint v1:/)
+  assert.deepEqual(parseVoiceprint(yaml), voiceprint)
+})
+
+test('round-trips a voiceprint through JSON', () => {
+  const voiceprint = buildVoiceprint([persona])
+  assert.deepEqual(parseVoiceprint(serializeVoiceprint(voiceprint, 'json')), voiceprint)
+})
+
+test('reads hand-edited YAML with flow sequences and block scalars', () => {
+  const voiceprint = parseVoiceprint(`
+format: voiceprint
+version: 1
+personas:
+  - name: Hand Edited   # trailing comment
+    description: >
+      Folded onto
+      one line.
+    tone: [direct, warm]
+    cadence: conversational
+    donts: []
+    hookPatterns: ['Quick one:', "Hot take"]
+    ctaStyle: soft
+    platforms: {}
+    samplePosts:
+      - content: |
+          Kept as written
+          on two lines.
+        platform: linkedin
+`)
+
+  const [edited] = voiceprint.personas
+  assert.equal(edited.name, 'Hand Edited')
+  assert.equal(edited.description, 'Folded onto one line.\n')
+  assert.deepEqual(edited.tone, ['direct', 'warm'])
+  assert.deepEqual(edited.hookPatterns, ['Quick one:', 'Hot take'])
+  assert.equal(edited.samplePosts[0].content, 'Kept as written\non two lines.\n')
+})
+
+test('reports unreadable YAML on one line', () => {
+  assert.throws(
+    () => parseVoiceprint('format: voiceprint\npersonas: [unclosed'),
+    (error: Error) => error.message.startsWith('Invalid voiceprint: ') && !error.message.includes('\n')
+  )
+})
+
+test('reports schema problems with their path', () => {
+  assert.throws(
+    () => parseVoiceprint('format: voiceprint\nversion: 1\npersonas:\n  - name: No Tone\n    tone: []\n'),
+    /Invalid voiceprint: personas\.0\./
+  )
+})
@@ -0,0 +1,46 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { parseYtdScript, readXArchive, tweetsToRows } from '../src/lib/x-archive'
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name))
+
+function rows() {
+  return tweetsToRows(parseYtdScript(fixture('tweets.js').toString('utf8')), 'founder')
+}
+
+test('types tweets, replies, retweets and quotes', () => {
+  assert.deepEqual(rows().map((row) => row.Type), ['Tweet', 'Reply', 'Retweet', 'Quote'])
+})
+
+test('converts created_at to ISO dates', () => {
+  assert.equal(rows()[0]['Created At'], '2025-03-04T23:50:37+00:00')
+  assert.equal(new Date(rows()[1]['Created At']).toISOString(), '2025-03-05T08:05:00.000Z')
+})
+
+test('maps counts, entities and reply targets to the CSV columns', () => {
+  const [tweet, reply, , quote] = rows()
+
+  assert.equal(tweet['Favorite Count'], '12')
+  assert.equal(tweet.Hashtags, 'buildinpublic')
+  assert.equal(tweet['Tweet URL'], 'https://x.com/founder/status/1765000000000000001')
+  assert.equal(reply['In Reply To'], 'jane')
+  assert.equal(reply.Mentions, 'jane')
+  assert.equal(quote.URLs, 'https://twitter.com/jane/status/1764999999999999999')
+})
+
+test('rejects files that are not YTD scripts', () => {
+  assert.throws(() => parseYtdScript('[{"tweet":{}}]'), /Not an X archive data file/)
+  assert.throws(() => parseYtdScript('window.YTD.tweets.part0 = [{'), /not valid JSON/)
+})
+
+test('reads tweets and the username from the archive ZIP', () => {
+  assert.deepEqual(readXArchive(fixture('x-archive.zip')), rows())
+})
+
+test('reads a bare tweets.js without tweet URLs', () => {
+  const [row] = readXArchive(fixture('tweets.js'))
+  assert.equal(row.Text, 'Shipping beats polishing. #buildinpublic')
+  assert.equal(row['Tweet URL'], '')
+})
@@ -0,0 +1,38 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { listZipEntries, readZipEntries, readZipEntry } from '../src/lib/zip'
+
+const archive = fs.readFileSync(path.join(__dirname, 'fixtures', 'instagram-export.zip'))
+const posts = fs.readFileSync(path.join(__dirname, 'fixtures', 'posts_1.json'))
+
+function postsEntry() {
+  const entry = listZipEntries(archive).find((item) => item.name.endsWith('posts_1.json'))
+  assert.ok(entry)
+  return entry
+}
+
+test('extracts deflated entries', () => {
+  assert.deepEqual(readZipEntry(archive, postsEntry()), posts)
+})
+
+test('rejects entries whose declared size is over the limit', () => {
+  assert.throws(() => readZipEntry(archive, postsEntry(), 100), /too large to extract/)
+})
+
+test('caps inflation when the declared size is faked', () => {
+  const entry = { ...postsEntry(), size: 10 }
+  assert.throws(() => readZipEntry(archive, entry, 100), /too large to extract/)
+})
+
+test('rejects archives whose entries together declare more than the overall limit', () => {
+  const entries = listZipEntries(archive).filter((entry) => entry.size > 0)
+  assert.throws(() => readZipEntries(archive, entries, posts.length), /Archive is too large to extract .* in total/)
+})
+
+test('caps inflation at what is left of the overall limit when sizes are faked', () => {
+  const entry = { ...postsEntry(), size: 10 }
+  assert.throws(() => readZipEntries(archive, [entry, entry], posts.length + 100), /too large to extract/)
+  assert.deepEqual(readZipEntries(archive, [entry, entry], posts.length * 2), [posts, posts])
+})
@@ -6,10 +6,32 @@ import { useAuth } from '@/contexts/AuthContext'
 import { usePersonas } from '@/hooks/usePersonas'
 import { useUploads } from '@/hooks/useUploads'
 import { Persona, PersonaCadence, PersonaCTAStyle, PersonaPlatformConfig } from '@/types/persona'
-import { PersonaSuggestion } from '@/types/uploads'
+import {
+  ColumnMapping,
+  CSVPreview,
+  PersonaSuggestion,
+  UploadDetails,
+  UploadFilterReport,
+  UploadFilters,
+} from '@/types/uploads'
+import { ColumnMappingForm } from '@/components/ColumnMappingForm'
+import { UploadFiltersForm, defaultUploadFilters, describeFilterReport } from '@/components/UploadFiltersForm'
+import { PersonaVersionHistory } from '@/components/PersonaVersionHistory'
+import { PersonaExemplars } from '@/components/PersonaExemplars'
+import { VoiceprintTransfer, downloadVoiceprint } from '@/components/VoiceprintTransfer'
+import {
+  PlatformSettingsEditor,
+  PlatformSettingsFormState,
+  PlatformSettingsSummary,
+  emptyPlatformSettingsForm,
+  toPlatformSettings,
+  toPlatformSettingsForm,
+} from '@/components/PlatformSettingsEditor'
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
 
+const UPLOAD_EXTENSIONS = ['.csv', '.zip', '.js', '.json']
+
 const cadenceOptions: PersonaCadence[] = ['concise', 'detailed', 'conversational']
 const ctaOptions: PersonaCTAStyle[] = ['direct', 'soft', 'question-based']
 
@@ -57,10 +79,34 @@ const initialFormState: PersonaFormState = {
   ctaStyle: 'direct',
 }
 
+function toFormState(persona: Persona): PersonaFormState {
+  return {
+    name: persona.name,
+    description: persona.description ?? '',
+    tone: persona.tone.join(', '),
+    cadence: persona.cadence,
+    donts: (persona.donts ?? []).join(', '),
+    hookPatterns: (persona.hookPatterns ?? []).join(', '),
+    ctaStyle: persona.ctaStyle,
+  }
+}
+
+function splitList(value: string) {
+  return value.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
 export default function PersonasPage() {
   const { user, isLoading: authLoading } = useRequireAuth()
   const { token } = useAuth()
-  const { personas, isLoading: personasLoading, error, setPersonas, defaultPersonaId, userId } = usePersonas()
+  const {
+    personas,
+    isLoading: personasLoading,
+    error,
+    setPersonas,
+    defaultPersonaId,
+    userId,
+    refresh: refreshPersonas,
+  } = usePersonas()
   const {
     uploads,
     uploadDetails,
@@ -73,10 +119,16 @@ export default function PersonasPage() {
 
   const [activePersonaId, setActivePersonaId] = useState<string | null>(null)
   const [formState, setFormState] = useState<PersonaFormState>(initialFormState)
+  const [platformForm, setPlatformForm] = useState<PlatformSettingsFormState>(emptyPlatformSettingsForm)
+  const [editingPersonaId, setEditingPersonaId] = useState<string | null>(null)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [libraryMessage, setLibraryMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [formMessage, setFormMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [expandedUploadId, setExpandedUploadId] = useState<string | null>(null)
   const [suggestionMessage, setSuggestionMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [savingExemplarId, setSavingExemplarId] = useState<string | null>(null)
+  const [exemplarRevision, setExemplarRevision] = useState(0)
   const [creatingSuggestionKey, setCreatingSuggestionKey] = useState<string | null>(null)
   const [createdSuggestionMap, setCreatedSuggestionMap] = useState<Record<string, boolean>>({})
   const fileInputRef = useRef<HTMLInputElement | null>(null)
@@ -85,6 +137,9 @@ export default function PersonasPage() {
   const [uploadMessage, setUploadMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [isDragActive, setIsDragActive] = useState(false)
+  const [csvPreview, setCsvPreview] = useState<CSVPreview | null>(null)
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({})
+  const [uploadFilters, setUploadFilters] = useState<UploadFilters>(defaultUploadFilters)
 
   useEffect(() => {
     if (!activePersonaId && personas.length > 0) {
@@ -104,6 +159,14 @@ export default function PersonasPage() {
     [activePersonaId, personas]
   )
 
+  const editingPersona = useMemo(
+    () => personas.find((persona) => persona.id === editingPersonaId) ?? null,
+    [editingPersonaId, personas]
+  )
+
+  // Built-in personas are shown until the user saves their own; those can only be duplicated
+  const isOwnedPersona = Boolean(activePersona && user && activePersona.userId === user.id)
+
   const handleCardClick = (personaId: string) => {
     setActivePersonaId(personaId)
   }
@@ -113,12 +176,13 @@ export default function PersonasPage() {
   }
 
   const processSelectedFile = (file: File) => {
-    const MAX_UPLOAD_SIZE = 10 * 1024 * 1024
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    const MAX_UPLOAD_SIZE = 50 * 1024 * 1024
+    const fileName = file.name.toLowerCase()
+    if (!UPLOAD_EXTENSIONS.some((extension) => fileName.endsWith(extension))) {
       setUploadFile(null)
       setUploadMessage({
         type: 'error',
-        text: 'Please upload a CSV file exported from X or LinkedIn.',
+        text: 'Please upload a CSV, or your data export from X, LinkedIn or Instagram.',
       })
       return
     }
@@ -127,13 +191,21 @@ export default function PersonasPage() {
       setUploadFile(null)
       setUploadMessage({
         type: 'error',
-        text: 'That file is larger than 10MB. Trim it down and try again.',
+        text: 'That file is larger than 50MB. Trim it down and try again.',
       })
       return
     }
 
+    // The platform of a data export is known from its file; ZIPs are detected on upload
+    if (fileName.endsWith('.js')) {
+      setUploadPlatform('twitter')
+    } else if (fileName.endsWith('.json')) {
+      setUploadPlatform('instagram')
+    }
+
     setUploadFile(file)
     setUploadMessage(null)
+    setCsvPreview(null)
   }
 
   const handleFileInputChange = (event: ChangeEvent<HTMLInputElement>) => {
@@ -163,9 +235,12 @@ export default function PersonasPage() {
     setIsDragActive(false)
   }
 
+  const isCsvUpload = uploadFile?.name.toLowerCase().endsWith('.csv') ?? false
+
   const handleRemoveUploadFile = () => {
     setUploadFile(null)
     setUploadMessage(null)
+    setCsvPreview(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -189,7 +264,16 @@ export default function PersonasPage() {
     if (!uploadFile) {
       setUploadMessage({
         type: 'error',
-        text: 'Choose a CSV file before uploading.',
+        text: 'Choose a file before uploading.',
+      })
+      return
+    }
+
+    const isCsv = uploadFile.name.toLowerCase().endsWith('.csv')
+    if (isCsv && csvPreview && !columnMapping.content) {
+      setUploadMessage({
+        type: 'error',
+        text: 'Choose the column that holds the post text.',
       })
       return
     }
@@ -198,9 +282,40 @@ export default function PersonasPage() {
       setIsUploading(true)
       setUploadMessage(null)
 
+      // CSVs go in two steps: read the columns, then upload with the confirmed mapping
+      if (isCsv && !csvPreview) {
+        const previewData = new FormData()
+        previewData.append('file', uploadFile)
+
+        const previewResponse = await fetch(`${API_BASE}/api/uploads/csv/preview`, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+          body: previewData,
+        })
+        const preview = await previewResponse.json()
+
+        if (!previewResponse.ok) {
+          throw new Error(preview?.error || 'Unable to read the CSV right now.')
+        }
+
+        // Exports with a known layout, like LinkedIn's Shares.csv, upload without a mapping
+        if (!(preview as CSVPreview).knownExport) {
+          setCsvPreview(preview as CSVPreview)
+          setColumnMapping((preview as CSVPreview).mapping)
+          return
+        }
+      }
+
+      // Fields go before the file so the API sees them when it reads the upload
       const formData = new FormData()
-      formData.append('file', uploadFile)
       formData.append('platform', uploadPlatform)
+      formData.append('filters', JSON.stringify(uploadFilters))
+      if (isCsv && csvPreview) {
+        formData.append('mapping', JSON.stringify(columnMapping))
+      }
+      formData.append('file', uploadFile)
 
       const response = await fetch(`${API_BASE}/api/uploads/csv`, {
         method: 'POST',
@@ -218,9 +333,12 @@ export default function PersonasPage() {
 
       setUploadMessage({
         type: 'success',
-        text: 'Upload received. We will analyze it and refresh the suggestions shortly.',
+        text: data.filterReport
+          ? `Upload analyzed. ${describeFilterReport(data.filterReport as UploadFilterReport)}`
+          : 'Upload received. We will analyze it and refresh the suggestions shortly.',
       })
       setUploadFile(null)
+      setCsvPreview(null)
       if (fileInputRef.current) {
         fileInputRef.current.value = ''
       }
@@ -343,7 +461,32 @@ export default function PersonasPage() {
     }
   }
 
-  const handlePersonaCreate = async (event: FormEvent<HTMLFormElement>) => {
+  const personaRequest = async (path: string, init: RequestInit = {}) => {
+    const headers: Record<string, string> = {}
+    if (init.body) {
+      headers['Content-Type'] = 'application/json'
+    }
+    if (token) {
+      headers.Authorization = `Bearer ${token}`
+    }
+
+    const response = await fetch(`${API_BASE}${path}`, { ...init, headers })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data?.error || data?.message || 'Persona request failed')
+    }
+
+    return data
+  }
+
+  const resetPersonaForm = () => {
+    setEditingPersonaId(null)
+    setFormState(initialFormState)
+    setPlatformForm(emptyPlatformSettingsForm)
+  }
+
+  const handlePersonaSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     if (!userId) {
       setFormMessage({ type: 'error', text: 'You need to be logged in to create personas.' })
@@ -355,14 +498,14 @@ export default function PersonasPage() {
 
     try {
       const payload = {
-        userId,
         name: formState.name.trim(),
         description: formState.description.trim(),
-        tone: formState.tone.split(',').map((item) => item.trim()).filter(Boolean),
+        tone: splitList(formState.tone),
         cadence: formState.cadence,
-        donts: formState.donts.split(',').map((item) => item.trim()).filter(Boolean),
-        hookPatterns: formState.hookPatterns.split(',').map((item) => item.trim()).filter(Boolean),
+        donts: splitList(formState.donts),
+        hookPatterns: splitList(formState.hookPatterns),
         ctaStyle: formState.ctaStyle,
+        platforms: toPlatformSettings(platformForm),
       }
 
       if (!payload.name) {
@@ -371,57 +514,166 @@ export default function PersonasPage() {
         return
       }
 
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      }
+      if (editingPersonaId) {
+        const updated: Persona = await personaRequest(`/api/personas/${editingPersonaId}`, {
+          method: 'PATCH',
+          body: JSON.stringify(payload),
+        })
 
-      if (token) {
-        headers.Authorization = `Bearer ${token}`
+        setPersonas((prev) => prev.map((persona) => (persona.id === updated.id ? updated : persona)))
+        setActivePersonaId(updated.id)
+        resetPersonaForm()
+        setFormMessage({ type: 'success', text: `Saved changes to ${updated.name}.` })
+        return
       }
 
-      const response = await fetch(`${API_BASE}/api/personas`, {
+      const created: Persona = await personaRequest('/api/personas', {
         method: 'POST',
-        headers,
-        body: JSON.stringify(payload),
+        body: JSON.stringify({ ...payload, userId }),
       })
 
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data?.error || 'Unable to create persona')
-      }
-
-      const newPersona: Persona = {
-        id: data.id,
-        userId,
-        name: data.name,
-        description: data.description,
-        isDefault: false,
-        tone: data.tone,
-        cadence: data.cadence,
-        donts: data.donts,
-        hookPatterns: data.hookPatterns,
-        ctaStyle: data.ctaStyle,
-        platforms: data.platforms,
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt,
-      }
-
-      setPersonas((prev) => [newPersona, ...prev])
-      setActivePersonaId(newPersona.id)
-      setFormState(initialFormState)
+      // The first saved persona replaces the built-in ones and becomes the default
+      await refreshPersonas()
+      setActivePersonaId(created.id)
+      resetPersonaForm()
       setFormMessage({ type: 'success', text: 'Persona drafted successfully.' })
     } catch (err) {
-      console.error('Failed to create persona', err)
+      console.error('Failed to save persona', err)
       setFormMessage({
         type: 'error',
-        text: err instanceof Error ? err.message : 'Unable to create persona. Please try again.',
+        text: err instanceof Error ? err.message : 'Unable to save persona. Please try again.',
       })
     } finally {
       setIsSaving(false)
     }
   }
 
+  const handleEditPersona = (persona: Persona) => {
+    setEditingPersonaId(persona.id)
+    setFormState(toFormState(persona))
+    setPlatformForm(toPlatformSettingsForm(persona.platforms))
+    setFormMessage(null)
+  }
+
+  const handlePersonaRestored = (restored: Persona) => {
+    setPersonas((prev) => prev.map((persona) => (persona.id === restored.id ? restored : persona)))
+    if (editingPersonaId === restored.id) {
+      handleEditPersona(restored)
+    }
+    setLibraryMessage({ type: 'success', text: `Restored ${restored.name} as version ${restored.version}.` })
+  }
+
+  // Keep an uploaded post on the active persona as a few-shot example
+  const handleSaveExemplar = async (post: NonNullable<UploadDetails['analyzedPosts']>[number]) => {
+    if (!activePersona) return
+
+    setSavingExemplarId(post.id)
+    setSuggestionMessage(null)
+
+    try {
+      await personaRequest(`/api/personas/${activePersona.id}/exemplars`, {
+        method: 'POST',
+        body: JSON.stringify({
+          content: post.content,
+          platform: post.platform,
+          engagementScore: post.engagementPercentile ?? 0,
+          ...(post.originalDate ? { postedAt: post.originalDate } : {}),
+        }),
+      })
+      setExemplarRevision((revision) => revision + 1)
+      setSuggestionMessage({ type: 'success', text: `Saved as an exemplar for ${activePersona.name}.` })
+    } catch (err) {
+      setSuggestionMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Unable to save this exemplar.',
+      })
+    } finally {
+      setSavingExemplarId(null)
+    }
+  }
+
+  const runPersonaAction = async (
+    action: string,
+    persona: Persona,
+    perform: () => Promise<string | null>,
+    successText: string
+  ) => {
+    setPendingAction(`${action}:${persona.id}`)
+    setLibraryMessage(null)
+
+    try {
+      const nextActiveId = await perform()
+      await refreshPersonas()
+      setActivePersonaId(nextActiveId)
+      setLibraryMessage({ type: 'success', text: successText })
+    } catch (err) {
+      console.error(`Failed to ${action} persona`, err)
+      setLibraryMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : `Unable to ${action} persona.`,
+      })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleDuplicatePersona = (persona: Persona) =>
+    runPersonaAction(
+      'duplicate',
+      persona,
+      async () => {
+        const copy: Persona = await personaRequest(`/api/personas/${persona.id}/duplicate`, {
+          method: 'POST',
+          body: JSON.stringify({}),
+        })
+        return copy.id
+      },
+      `Copied ${persona.name} into your library.`
+    )
+
+  const handleSetDefaultPersona = (persona: Persona) =>
+    runPersonaAction(
+      'update',
+      persona,
+      async () => {
+        await personaRequest(`/api/personas/${persona.id}/default`, { method: 'POST' })
+        return persona.id
+      },
+      `${persona.name} is now your default persona.`
+    )
+
+  const handleExportPersona = async (persona: Persona) => {
+    try {
+      setLibraryMessage(null)
+      await downloadVoiceprint(token, { personaId: persona.id, format: 'yaml' })
+    } catch (err) {
+      setLibraryMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : `Unable to export ${persona.name}.`,
+      })
+    }
+  }
+
+  const handleDeletePersona = (persona: Persona) => {
+    if (!window.confirm(`Delete ${persona.name}? Posts generated with it are kept.`)) {
+      return
+    }
+
+    if (editingPersonaId === persona.id) {
+      resetPersonaForm()
+    }
+
+    return runPersonaAction(
+      'delete',
+      persona,
+      async () => {
+        const result = await personaRequest(`/api/personas/${persona.id}`, { method: 'DELETE' })
+        return result.defaultPersonaId ?? null
+      },
+      `Deleted ${persona.name}.`
+    )
+  }
+
   if (authLoading || !user) {
     return (
       <div className="py-24 text-center text-sm text-gray-500">
@@ -473,9 +725,9 @@ export default function PersonasPage() {
 
         <form className="card space-y-5" onSubmit={handleUploadSubmit}>
           <div className="space-y-2">
-            <h3 className="text-lg font-semibold text-gray-900">Upload a CSV of your posts</h3>
+            <h3 className="text-lg font-semibold text-gray-900">Upload your posts</h3>
             <p className="text-sm text-gray-600">
-              Drag in exports from X or LinkedIn and we will surface tone analysis with ready-to-save persona suggestions.
+              Drag in a CSV or your data export from X, LinkedIn or Instagram, and we will surface tone analysis with ready-to-save persona suggestions.
             </p>
           </div>
 
@@ -494,7 +746,7 @@ export default function PersonasPage() {
               id="upload-csv"
               ref={fileInputRef}
               type="file"
-              accept=".csv,text/csv"
+              accept=".csv,.zip,.js,.json,text/csv,application/zip,application/json"
               className="hidden"
               onChange={handleFileInputChange}
               disabled={isUploading}
@@ -532,8 +784,8 @@ export default function PersonasPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" d="M12 16V4m0 12-3-3m3 3 3-3m-9 7h12" />
                   </svg>
                 </span>
-                <p className="text-sm font-medium text-gray-900">Drop CSV here or click to browse</p>
-                <p className="text-xs text-gray-500">We accept exports up to 10MB from X or LinkedIn.</p>
+                <p className="text-sm font-medium text-gray-900">Drop a file here or click to browse</p>
+                <p className="text-xs text-gray-500">CSVs, or the X, LinkedIn or Instagram export ZIP, up to 50MB.</p>
               </div>
             )}
           </label>
@@ -556,17 +808,28 @@ export default function PersonasPage() {
               </select>
             </div>
             <div className="flex flex-col items-stretch gap-2 sm:flex-row sm:items-center sm:justify-end">
-              <span className="text-xs text-gray-500">CSV limit 10MB • We keep only the text content.</span>
+              <span className="text-xs text-gray-500">Limit 50MB • We keep only the text content.</span>
               <button
                 type="submit"
                 className="btn-primary text-sm disabled:cursor-not-allowed disabled:opacity-60"
                 disabled={isUploading || !uploadFile}
               >
-                {isUploading ? 'Uploading...' : 'Upload CSV'}
+                {isUploading ? 'Uploading...' : isCsvUpload && !csvPreview ? 'Continue' : 'Upload'}
               </button>
             </div>
           </div>
 
+          <UploadFiltersForm filters={uploadFilters} onChange={setUploadFilters} disabled={isUploading} />
+
+          {csvPreview && (
+            <ColumnMappingForm
+              preview={csvPreview}
+              mapping={columnMapping}
+              onChange={setColumnMapping}
+              disabled={isUploading}
+            />
+          )}
+
           {uploadMessage && (
             <div
               className={`rounded-lg border px-4 py-2 text-sm ${
@@ -700,6 +963,10 @@ export default function PersonasPage() {
                             </div>
                           )}
 
+                          {details.filterReport && (
+                            <p className="text-xs text-gray-500">{describeFilterReport(details.filterReport)}</p>
+                          )}
+
                           {details.analysis?.toneKeywords?.length ? (
                             <div className="space-y-2">
                               <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">
@@ -819,10 +1086,30 @@ export default function PersonasPage() {
                                   <div key={post.id} className="rounded-lg border border-gray-100 bg-white px-4 py-3">
                                     <p className="line-clamp-4 text-sm text-gray-600">{post.content}</p>
                                     <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-400">
-                                      {typeof post.engagementScore === 'number' && (
-                                        <span>Score: {post.engagementScore.toFixed(1)}</span>
-                                      )}
+                                      {post.engagementScore ? (
+                                        <span title="Engagement percentile within this upload">
+                                          Score: {Math.round(post.engagementPercentile ?? 0)}/100
+                                        </span>
+                                      ) : null}
+                                      {post.views ? (
+                                        <span>
+                                          {post.views.toLocaleString()} views
+                                          {post.engagementRate != null &&
+                                            ` • ${(post.engagementRate * 100).toFixed(1)}% engagement`}
+                                        </span>
+                                      ) : null}
                                       {post.originalDate && <span>{formatUploadDate(post.originalDate)}</span>}
+                                      {isOwnedPersona && activePersona && (
+                                        <button
+                                          type="button"
+                                          onClick={() => handleSaveExemplar(post)}
+                                          className="ml-auto font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-60"
+                                          disabled={savingExemplarId !== null}
+                                          title={`Save as an exemplar for ${activePersona.name}`}
+                                        >
+                                          {savingExemplarId === post.id ? 'Saving...' : 'Save as exemplar'}
+                                        </button>
+                                      )}
                                     </div>
                                   </div>
                                 ))}
@@ -849,6 +1136,8 @@ export default function PersonasPage() {
             )}
           </div>
 
+          <VoiceprintTransfer token={token} onImported={refreshPersonas} />
+
           {personasLoading ? (
             <div className="space-y-3">
               {[...Array(3)].map((_, index) => (
@@ -894,6 +1183,18 @@ export default function PersonasPage() {
             </div>
           )}
 
+          {libraryMessage && (
+            <div
+              className={`rounded-lg border px-4 py-3 text-sm ${
+                libraryMessage.type === 'success'
+                  ? 'border-green-200 bg-green-50 text-green-700'
+                  : 'border-red-200 bg-red-50 text-red-700'
+              }`}
+            >
+              {libraryMessage.text}
+            </div>
+          )}
+
           {error && (
             <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
               {error}
@@ -942,6 +1243,7 @@ export default function PersonasPage() {
                     </div>
                   </div>
                 )}
+                <PlatformSettingsSummary platforms={activePersona.platforms} />
                 <div className="rounded-lg border border-dashed border-gray-200 bg-gray-50 px-4 py-3 text-xs text-gray-600">
                   <div>
                     <span className="font-medium text-gray-700">Cadence:</span>{' '}
@@ -952,6 +1254,68 @@ export default function PersonasPage() {
                     <span className="capitalize">{activePersona.ctaStyle.replace('-', ' ')}</span>
                   </div>
                 </div>
+                <div className="flex flex-wrap gap-2 border-t border-gray-100 pt-4">
+                  {isOwnedPersona && (
+                    <button
+                      type="button"
+                      onClick={() => handleEditPersona(activePersona)}
+                      className="btn-secondary px-3 py-1.5 text-xs"
+                      disabled={pendingAction !== null}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDuplicatePersona(activePersona)}
+                    className="btn-secondary px-3 py-1.5 text-xs"
+                    disabled={pendingAction !== null}
+                  >
+                    {pendingAction === `duplicate:${activePersona.id}`
+                      ? 'Copying...'
+                      : isOwnedPersona
+                      ? 'Duplicate'
+                      : 'Copy to my library'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleExportPersona(activePersona)}
+                    className="btn-secondary px-3 py-1.5 text-xs"
+                    disabled={pendingAction !== null}
+                  >
+                    Export
+                  </button>
+                  {isOwnedPersona && !activePersona.isDefault && (
+                    <button
+                      type="button"
+                      onClick={() => handleSetDefaultPersona(activePersona)}
+                      className="btn-secondary px-3 py-1.5 text-xs"
+                      disabled={pendingAction !== null}
+                    >
+                      {pendingAction === `update:${activePersona.id}` ? 'Saving...' : 'Make default'}
+                    </button>
+                  )}
+                  {isOwnedPersona && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeletePersona(activePersona)}
+                      className="ml-auto rounded-lg px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                      disabled={pendingAction !== null}
+                    >
+                      {pendingAction === `delete:${activePersona.id}` ? 'Deleting...' : 'Delete'}
+                    </button>
+                  )}
+                </div>
+                {isOwnedPersona && (
+                  <div className="border-t border-gray-100 pt-4">
+                    <PersonaExemplars persona={activePersona} token={token} refreshKey={exemplarRevision} />
+                  </div>
+                )}
+                {isOwnedPersona && (
+                  <div className="border-t border-gray-100 pt-4">
+                    <PersonaVersionHistory persona={activePersona} token={token} onRestored={handlePersonaRestored} />
+                  </div>
+                )}
               </div>
             ) : (
               <p className="text-sm text-gray-500">Select a persona on the left to view details.</p>
@@ -959,12 +1323,16 @@ export default function PersonasPage() {
           </div>
 
           <div className="card space-y-4">
-            <h3 className="text-lg font-semibold text-gray-900">Draft a new persona</h3>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingPersona ? `Edit ${editingPersona.name}` : 'Draft a new persona'}
+            </h3>
             <p className="text-sm text-gray-600">
-              Capture a new voice for upcoming launches, community initiatives, or cross-channel experiments.
+              {editingPersona
+                ? 'Changes apply to everything you generate with this persona from now on.'
+                : 'Capture a new voice for upcoming launches, community initiatives, or cross-channel experiments.'}
             </p>
 
-            <form className="space-y-4" onSubmit={handlePersonaCreate}>
+            <form className="space-y-4" onSubmit={handlePersonaSubmit}>
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-700" htmlFor="persona-name">
                   Persona name
@@ -1059,6 +1427,7 @@ export default function PersonasPage() {
                   className="input"
                 />
               </div>
+              <PlatformSettingsEditor value={platformForm} onChange={setPlatformForm} />
 
               {formMessage && (
                 <div
@@ -1072,13 +1441,28 @@ export default function PersonasPage() {
                 </div>
               )}
 
-              <button
-                type="submit"
-                className="btn-primary disabled:cursor-not-allowed disabled:opacity-60"
-                disabled={isSaving}
-              >
-                {isSaving ? 'Saving...' : 'Save persona draft'}
-              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  type="submit"
+                  className="btn-primary disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={isSaving}
+                >
+                  {isSaving ? 'Saving...' : editingPersonaId ? 'Save changes' : 'Save persona draft'}
+                </button>
+                {editingPersonaId && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      resetPersonaForm()
+                      setFormMessage(null)
+                    }}
+                    className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
             </form>
           </div>
         </div>
@@ -0,0 +1,37 @@
+'use client'
+
+import { useRequireAuth } from '@/hooks/useRequireAuth'
+import { RepurposeStudio } from '@/components/RepurposeStudio'
+
+export default function RepurposePage() {
+  const { user, isLoading } = useRequireAuth()
+
+  if (isLoading || !user) {
+    return (
+      <div className="py-24 text-center text-sm text-gray-500">
+        Loading Repurpose...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-10">
+      <section className="space-y-4">
+        <span className="inline-flex items-center rounded-full border border-indigo-100 bg-indigo-50 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-600">
+          Repurpose
+        </span>
+        <div className="space-y-4">
+          <h1 className="text-4xl font-semibold text-gray-900">One idea, every feed.</h1>
+          <p className="text-lg text-gray-600">
+            Turn a single idea into an X thread, a LinkedIn long-form post and an Instagram caption, each written for how
+            that platform reads and checked against its limits.
+          </p>
+        </div>
+      </section>
+
+      <section className="card border-transparent bg-white/95 shadow-lg">
+        <RepurposeStudio />
+      </section>
+    </div>
+  )
+}
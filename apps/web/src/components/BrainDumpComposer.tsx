@@ -1,21 +1,47 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
+import { useJobPolling } from '@/hooks/useJobPolling'
+import { useGenerationStream } from '@/hooks/useGenerationStream'
 import { PersonaSelector } from './PersonaSelector'
 import { ContentVariants } from './ContentVariants'
-import { ContentVariant, GenerationResult } from '@/types/composer'
+import { ContentVariant, GenerationResult, ThreadNumbering } from '@/types/composer'
+import { Persona } from '@/types/persona'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+const PLATFORM_CHAR_LIMITS = { twitter: 280, linkedin: 3000, instagram: 2200 }
 
 export function BrainDumpComposer() {
   const [input, setInput] = useState('')
   const [selectedPersona, setSelectedPersona] = useState('')
+  const [personaDetails, setPersonaDetails] = useState<Persona | null>(null)
   const [selectedPlatform, setSelectedPlatform] = useState<'twitter' | 'linkedin' | 'instagram'>('twitter')
   const [variants, setVariants] = useState(3)
   const [includeHashtags, setIncludeHashtags] = useState(false)
   const [characterLimit, setCharacterLimit] = useState(280)
+  const [threadMode, setThreadMode] = useState(false)
+  const [threadTweets, setThreadTweets] = useState(5)
+  const [threadNumbering, setThreadNumbering] = useState<ThreadNumbering>('fraction')
   const [isGenerating, setIsGenerating] = useState(false)
   const [result, setResult] = useState<GenerationResult | null>(null)
   const { token } = useAuth()
+  const { waitForJob } = useJobPolling()
+  const stream = useGenerationStream()
+  const { cancel: cancelStream } = stream
+
+  // Stop the server-side generation if the composer unmounts mid-stream
+  useEffect(() => cancelStream, [cancelStream])
+
+  // Start from the persona's settings for the platform; the fields below can still override them
+  useEffect(() => {
+    const settings = personaDetails?.platforms?.[selectedPlatform]
+    setCharacterLimit(settings?.maxLength ?? PLATFORM_CHAR_LIMITS[selectedPlatform])
+    setIncludeHashtags(settings?.includeHashtags ?? false)
+  }, [personaDetails, selectedPlatform])
+
+  // Threads are an X-only format
+  const isThread = threadMode && selectedPlatform === 'twitter'
 
   const handleGenerate = async () => {
     if (!input.trim() || !selectedPersona) {
@@ -23,39 +49,32 @@ export function BrainDumpComposer() {
     }
 
     setIsGenerating(true)
-    setResult(null)
+    // Variants stream in while this placeholder result is showing
+    setResult({ success: true, status: 'RUNNING' })
 
     try {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      }
-
-      if (token) {
-        headers.Authorization = `Bearer ${token}`
-      }
-
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/composer/brain-dump`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          input,
-          personaId: selectedPersona,
-          platform: selectedPlatform,
-          options: {
-            variants,
-            includeHashtags,
-            maxLength: characterLimit,
-          },
-        }),
+      const data = await stream.generate({
+        input,
+        personaId: selectedPersona,
+        platform: selectedPlatform,
+        options: {
+          variants,
+          includeHashtags,
+          maxLength: characterLimit,
+          ...(isThread ? { thread: { tweets: threadTweets, numbering: threadNumbering } } : {}),
+        },
       })
+      setResult(data)
 
-      const data = await response.json()
-      if (!response.ok) {
-        throw new Error(data?.error || 'Failed to generate content')
+      if (data.status === 'QUEUED' && data.jobId) {
+        setResult(await waitForJob(data.jobId))
       }
-      setResult(data)
 
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return
+      }
+
       console.error('Generation failed:', error)
       setResult({
         success: false,
@@ -67,6 +86,8 @@ export function BrainDumpComposer() {
   }
 
   const handleClear = () => {
+    cancelStream()
+    stream.reset()
     setInput('')
     setResult(null)
   }
@@ -83,7 +104,7 @@ export function BrainDumpComposer() {
         headers.Authorization = `Bearer ${token}`
       }
 
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'}/api/composer/brain-dump`, {
+      const response = await fetch(`${API_BASE}/api/composer/brain-dump`, {
         method: 'POST',
         headers,
         body: JSON.stringify({
@@ -98,11 +119,15 @@ export function BrainDumpComposer() {
         }),
       })
 
-      const data = await response.json()
+      let data = await response.json()
       if (!response.ok) {
         throw new Error(data?.error || 'Failed to rework variant')
       }
 
+      if (data.status === 'QUEUED' && data.jobId) {
+        data = await waitForJob(data.jobId)
+      }
+
       // Replace only the specific variant that was reworked
       if (data.success && data.variants && data.variants.length > 0 && result) {
         const reworkedVariant = data.variants[0]
@@ -163,6 +188,7 @@ Examples:
               <PersonaSelector 
                 selectedPersona={selectedPersona}
                 onPersonaChange={setSelectedPersona}
+                onPersonaLoaded={setPersonaDetails}
               />
             </div>
 
@@ -174,11 +200,7 @@ Examples:
                 <select
                   value={selectedPlatform}
                   onChange={(e) => {
-                    const platform = e.target.value as typeof selectedPlatform
-                    setSelectedPlatform(platform)
-                    // Auto-update character limit based on platform
-                    const defaults = { twitter: 280, linkedin: 3000, instagram: 2200 }
-                    setCharacterLimit(defaults[platform])
+                    setSelectedPlatform(e.target.value as typeof selectedPlatform)
                   }}
                   className="input"
                 >
@@ -204,7 +226,7 @@ Examples:
 
               <div>
                 <label htmlFor="char-limit" className="block text-sm font-medium text-gray-700 mb-2">
-                  Character Limit
+                  {isThread ? 'Character Limit (per tweet)' : 'Character Limit'}
                 </label>
                 <input
                   type="number"
@@ -221,6 +243,58 @@ Examples:
                 </p>
               </div>
 
+              {selectedPlatform === 'twitter' && (
+                <div className="space-y-3">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="thread-mode"
+                      checked={threadMode}
+                      onChange={(e) => setThreadMode(e.target.checked)}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="thread-mode" className="ml-2 block text-sm text-gray-700">
+                      Write a thread
+                    </label>
+                  </div>
+
+                  {threadMode && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label htmlFor="thread-tweets" className="block text-xs font-medium text-gray-600 mb-1">
+                          Tweets
+                        </label>
+                        <input
+                          type="number"
+                          id="thread-tweets"
+                          min="2"
+                          max="15"
+                          value={threadTweets}
+                          onChange={(e) => setThreadTweets(Math.min(15, Math.max(2, parseInt(e.target.value) || 2)))}
+                          className="input w-full"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="thread-numbering" className="block text-xs font-medium text-gray-600 mb-1">
+                          Numbering
+                        </label>
+                        <select
+                          id="thread-numbering"
+                          value={threadNumbering}
+                          onChange={(e) => setThreadNumbering(e.target.value as ThreadNumbering)}
+                          className="input w-full"
+                        >
+                          <option value="fraction">1/5</option>
+                          <option value="slash">1/</option>
+                          <option value="emoji">🧵 on first tweet</option>
+                          <option value="none">None</option>
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="flex items-center">
                 <input
                   type="checkbox"
@@ -260,7 +334,7 @@ Examples:
                   <span>Generating...</span>
                 </span>
               ) : (
-                `Generate ${variants} Variants`
+                `Generate ${variants} ${isThread ? 'Threads' : 'Variants'}`
               )}
             </button>
           </div>
@@ -270,7 +344,10 @@ Examples:
       {/* Results */}
       {result && (
         <ContentVariants
-          result={result}
+          result={
+            isGenerating && result.status === 'RUNNING' ? { ...result, variants: stream.variants } : result
+          }
+          drafts={isGenerating ? stream.drafts : undefined}
           platform={selectedPlatform}
           onRework={handleRework}
         />
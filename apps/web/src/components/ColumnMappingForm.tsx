@@ -0,0 +1,85 @@
+'use client'
+
+import { ColumnMapping, ColumnMappingField, CSVPreview } from '@/types/uploads'
+
+const FIELDS: Array<{ field: ColumnMappingField; label: string }> = [
+  { field: 'content', label: 'Post text' },
+  { field: 'date', label: 'Date' },
+  { field: 'likes', label: 'Likes' },
+  { field: 'retweets', label: 'Reposts' },
+  { field: 'replies', label: 'Replies' },
+  { field: 'quotes', label: 'Quotes' },
+  { field: 'views', label: 'Views' },
+  { field: 'bookmarks', label: 'Bookmarks' },
+  { field: 'url', label: 'Post URL' },
+  { field: 'type', label: 'Post type' },
+]
+
+interface ColumnMappingFormProps {
+  preview: CSVPreview
+  mapping: ColumnMapping
+  onChange: (mapping: ColumnMapping) => void
+  disabled?: boolean
+}
+
+/**
+ * Second upload step for CSVs: confirm or change which column holds each field.
+ */
+export function ColumnMappingForm({ preview, mapping, onChange, disabled }: ColumnMappingFormProps) {
+  const samplesFor = (column?: string) =>
+    preview.columns.find((item) => item.name === column)?.samples ?? []
+
+  const handleChange = (field: ColumnMappingField, column: string) => {
+    const next = { ...mapping }
+    if (column) {
+      next[field] = column
+    } else {
+      delete next[field]
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-gray-200 bg-white p-4">
+      <div className="space-y-1">
+        <h4 className="text-sm font-semibold text-gray-900">Match your columns</h4>
+        <p className="text-xs text-gray-500">
+          {preview.savedMapping
+            ? 'Using the mapping you confirmed for a file with the same columns.'
+            : 'We guessed which column holds what. Adjust anything that looks off; we will remember it for files with the same columns.'}
+        </p>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {FIELDS.map(({ field, label }) => {
+          const samples = samplesFor(mapping[field])
+          return (
+            <div key={field} className="grid gap-2 py-2 sm:grid-cols-[8rem,minmax(0,14rem),minmax(0,1fr)] sm:items-center">
+              <label className="text-xs font-semibold uppercase tracking-wide text-gray-500" htmlFor={`mapping-${field}`}>
+                {label}
+                {field === 'content' && <span className="text-red-500"> *</span>}
+              </label>
+              <select
+                id={`mapping-${field}`}
+                value={mapping[field] ?? ''}
+                onChange={(event) => handleChange(field, event.target.value)}
+                className="input text-sm"
+                disabled={disabled}
+              >
+                <option value="">{field === 'content' ? 'Choose a column' : 'Not in this file'}</option>
+                {preview.columns.map((column) => (
+                  <option key={column.name} value={column.name}>
+                    {column.name}
+                  </option>
+                ))}
+              </select>
+              <p className="truncate text-xs text-gray-500" title={samples.join(' • ')}>
+                {samples.length > 0 ? samples.join(' • ') : mapping[field] ? 'No values in the first rows' : ''}
+              </p>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,13 @@
 'use client'
 
 import { useState } from 'react'
-import { ContentVariant, GenerationResult } from '@/types/composer'
+import { AlgoAnalysis, ContentVariant, GenerationResult, ThreadTweet, VariantDraft } from '@/types/composer'
 
 interface ContentVariantsProps {
   result: GenerationResult
   platform: string
+  // In-progress variants from a streaming generation
+  drafts?: VariantDraft[]
   onRework?: (variantId: string, originalContent: string, charLimit: number) => void
 }
 
@@ -28,7 +30,90 @@ const hookBadgeColors: Record<string, string> = {
   insight: 'bg-purple-100 text-purple-800',
 }
 
-export function ContentVariants({ result, platform, onRework }: ContentVariantsProps) {
+const threadRoleLabels: Record<ThreadTweet['role'], string> = {
+  hook: 'Hook',
+  body: '',
+  cta: 'CTA',
+}
+
+function ThreadPreview({ tweets, characterLimit }: { tweets: ThreadTweet[]; characterLimit: number }) {
+  return (
+    <ol className="relative space-y-3 border-l-2 border-indigo-100 pl-4">
+      {tweets.map((tweet) => (
+        <li key={tweet.index} className="rounded-lg border border-gray-100 bg-gray-50 p-3">
+          <div className="mb-1 flex items-center justify-between text-[11px] font-medium text-gray-400">
+            <span>
+              Tweet {tweet.index}
+              {threadRoleLabels[tweet.role] && (
+                <span className="ml-2 rounded-full bg-indigo-50 px-2 py-0.5 text-indigo-600">
+                  {threadRoleLabels[tweet.role]}
+                </span>
+              )}
+            </span>
+            <span className={tweet.length > characterLimit ? 'text-red-500' : undefined}>
+              {tweet.length}/{characterLimit}
+            </span>
+          </div>
+          <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-900">{tweet.text}</p>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+const algoBandColors: Record<AlgoAnalysis['band'], string> = {
+  green: 'border-green-200 bg-green-50 text-green-800',
+  yellow: 'border-amber-200 bg-amber-50 text-amber-800',
+  red: 'border-red-200 bg-red-50 text-red-800',
+}
+
+function AlgoPanel({
+  analysis,
+  copiedKey,
+  onCopy,
+  keyPrefix,
+}: {
+  analysis: Omit<AlgoAnalysis, 'content'>
+  copiedKey: string | null
+  onCopy: (text: string, key: string) => void
+  keyPrefix: string
+}) {
+  return (
+    <details className={`rounded-lg border p-3 text-xs ${algoBandColors[analysis.band]}`}>
+      <summary className="cursor-pointer font-medium">
+        Reach check: boost {analysis.boostScore} · risk {analysis.riskScore}
+        {analysis.suggestions.length > 0 && ` · ${analysis.suggestions.length} suggestion(s)`}
+      </summary>
+      <p className="mt-2 text-[11px] opacity-80">
+        Readability {analysis.factors.readability} · Length fit {analysis.factors.lengthFit} · Hashtags{' '}
+        {analysis.factors.hashtagCount}
+      </p>
+      {analysis.suggestions.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {analysis.suggestions.map((suggestion, index) => {
+            const key = `${keyPrefix}-algo-${index}`
+            return (
+              <li key={key} className="flex items-start justify-between gap-3">
+                <span>
+                  <span className="font-semibold capitalize">{suggestion.impact}: </span>
+                  {suggestion.description}
+                </span>
+                <button
+                  onClick={() => onCopy(suggestion.edit, key)}
+                  className="shrink-0 rounded-md border border-current px-2 py-0.5 font-medium"
+                >
+                  {copiedKey === key ? 'Copied' : 'Copy edit'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </details>
+  )
+}
+
+export function ContentVariants({ result, platform, drafts = [], onRework }: ContentVariantsProps) {
   const [copiedVariant, setCopiedVariant] = useState<string | null>(null)
   const [reworking, setReworking] = useState<string | null>(null)
 
@@ -62,7 +147,10 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
     )
   }
 
-  if (!result.variants || result.variants.length === 0) {
+  const variants = result.variants ?? []
+  const pendingDrafts = drafts.filter((draft) => !variants.some((variant) => variant.id === draft.id))
+
+  if (variants.length === 0 && pendingDrafts.length === 0) {
     return (
       <div className="card text-center">
         <h3 className="text-lg font-semibold text-gray-900">Generating your variants</h3>
@@ -84,12 +172,13 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
           <span className="rounded-full bg-indigo-50 px-3 py-1 text-xs font-medium text-indigo-600">{platformLabel}</span>
         </div>
         <span className="text-sm text-gray-500">
-          {result.variants.length} variant{result.variants.length !== 1 ? 's' : ''} generated
+          {variants.length} variant{variants.length !== 1 ? 's' : ''} generated
+          {pendingDrafts.length > 0 && `, ${pendingDrafts.length} in progress`}
         </span>
       </div>
 
       <div className="grid gap-6 lg:grid-cols-2">
-        {result.variants.map((variant, index) => {
+        {variants.map((variant, index) => {
           const hookBadgeClass = variant.metadata.hookType
             ? hookBadgeColors[variant.metadata.hookType] ?? 'bg-gray-100 text-gray-700'
             : null
@@ -106,6 +195,16 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
                       {variant.metadata.hookType}
                     </span>
                   )}
+                  {variant.metadata.compliance && (
+                    <span
+                      className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                        variant.metadata.compliance.passed ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                      }`}
+                      title="Voice compliance score against the persona's rules"
+                    >
+                      Voice {variant.metadata.compliance.score}
+                    </span>
+                  )}
                 </div>
                 <button
                   onClick={() => copyToClipboard(variant.content, variant.id)}
@@ -145,9 +244,13 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
               </div>
 
               <div className="space-y-4">
-                <div className="rounded-lg border border-gray-100 bg-gray-50 p-4">
-                  <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-900">{variant.content}</p>
-                </div>
+                {variant.thread?.length ? (
+                  <ThreadPreview tweets={variant.thread} characterLimit={platformInfo.twitter.characterLimit} />
+                ) : (
+                  <div className="rounded-lg border border-gray-100 bg-gray-50 p-4">
+                    <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-900">{variant.content}</p>
+                  </div>
+                )}
 
                 {variant.metadata.wasTruncated && (
                   <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-amber-800">
@@ -173,6 +276,39 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
                   </div>
                 )}
 
+                {variant.metadata.duplicate && (
+                  <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+                    <p className="font-semibold">
+                      {Math.round(variant.metadata.duplicate.similarity * 100)}% similar to a post you{' '}
+                      {variant.metadata.duplicate.source === 'upload' ? 'uploaded' : 'already published'}
+                    </p>
+                    <p className="mt-1 line-clamp-3 text-amber-700">{variant.metadata.duplicate.content}</p>
+                  </div>
+                )}
+
+                {variant.metadata.compliance && variant.metadata.compliance.violations.length > 0 && (
+                  <ul className="space-y-1 rounded-lg border border-gray-100 bg-white p-3 text-xs">
+                    {variant.metadata.compliance.violations.map((violation, violationIndex) => (
+                      <li
+                        key={`${variant.id}-violation-${violationIndex}`}
+                        className={violation.severity === 'error' ? 'text-red-700' : 'text-amber-700'}
+                      >
+                        {violation.message}
+                        {violation.source === 'judge' && <span className="ml-1 text-gray-400">(reviewer)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {variant.metadata.algo && (
+                  <AlgoPanel
+                    analysis={variant.metadata.algo}
+                    copiedKey={copiedVariant}
+                    onCopy={copyToClipboard}
+                    keyPrefix={variant.id}
+                  />
+                )}
+
                 {variant.hashtags.length > 0 && (
                   <div className="flex flex-wrap gap-2 text-xs font-medium text-indigo-600">
                     {variant.hashtags.map((hashtag, index) => (
@@ -184,11 +320,15 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
                 )}
 
                 <div className="flex items-center justify-between border-t pt-3 text-xs text-gray-500">
-                  <span>{variant.metadata.length} characters</span>
+                  <span>
+                    {variant.thread?.length
+                      ? `${variant.thread.length} tweets`
+                      : `${variant.metadata.length} characters`}
+                  </span>
                   {variant.metadata.sentiment && <span className="capitalize">{variant.metadata.sentiment}</span>}
                 </div>
 
-                {variant.hook && variant.cta && (
+                {!variant.thread && variant.hook && variant.cta && (
                   <div className="rounded-lg border border-gray-100 bg-white p-3 text-xs text-gray-600">
                     <p>
                       <span className="font-semibold text-gray-700">Hook: </span>
@@ -204,6 +344,34 @@ export function ContentVariants({ result, platform, onRework }: ContentVariantsP
             </div>
           )
         })}
+
+        {pendingDrafts.map((draft) => (
+          <div key={`draft-${draft.id}`} className="card h-full border border-dashed border-indigo-200 shadow-sm">
+            <div className="mb-4 flex items-center gap-2">
+              <span className="rounded-full bg-indigo-50 px-3 py-1 text-xs font-semibold text-indigo-600">
+                Writing {draft.id.replace('variant_', 'variant ')}
+              </span>
+              {draft.attempt > 1 && (
+                <span className="rounded-full bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700">
+                  Attempt {draft.attempt}
+                </span>
+              )}
+            </div>
+            <div className="rounded-lg border border-gray-100 bg-gray-50 p-4">
+              <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-700">
+                {draft.text}
+                <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-indigo-400 align-middle" />
+              </p>
+            </div>
+            {draft.notices.length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs text-amber-700">
+                {draft.notices.map((notice, index) => (
+                  <li key={`${draft.id}-notice-${index}`}>{notice}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
       </div>
     </div>
   )
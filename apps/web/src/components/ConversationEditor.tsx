@@ -0,0 +1,85 @@
+'use client'
+
+import { ConversationMessage } from '@/types/composer'
+
+interface ConversationEditorProps {
+  messages: ConversationMessage[]
+  replyToIndex: number
+  onChange: (messages: ConversationMessage[], replyToIndex: number) => void
+}
+
+export function ConversationEditor({ messages, replyToIndex, onChange }: ConversationEditorProps) {
+  const updateMessage = (index: number, patch: Partial<ConversationMessage>) => {
+    onChange(
+      messages.map((message, current) => (current === index ? { ...message, ...patch } : message)),
+      replyToIndex
+    )
+  }
+
+  const removeMessage = (index: number) => {
+    const next = messages.filter((_, current) => current !== index)
+    // Keep pointing at the same message, or the last one if it was removed
+    const target = index < replyToIndex ? replyToIndex - 1 : Math.min(replyToIndex, next.length - 1)
+    onChange(next, Math.max(0, target))
+  }
+
+  const addMessage = () => {
+    onChange([...messages, { author: '', content: '' }], messages.length)
+  }
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-3">
+        {messages.map((message, index) => {
+          const isTarget = index === replyToIndex
+
+          return (
+            <li
+              key={index}
+              className={`rounded-lg border px-4 py-3 ${
+                isTarget ? 'border-indigo-300 bg-indigo-50/60' : 'border-gray-200 bg-white'
+              }`}
+            >
+              <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-xs font-semibold text-gray-400">{index + 1}</span>
+                <input
+                  value={message.author}
+                  onChange={(event) => updateMessage(index, { author: event.target.value.replace(/^@/, '') })}
+                  className="input h-8 w-40 py-1 text-sm"
+                  placeholder="@handle"
+                />
+                {message.timestamp && <span className="text-xs text-gray-500">{message.timestamp}</span>}
+                <label className="ml-auto flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="radio"
+                    name="reply-target"
+                    checked={isTarget}
+                    onChange={() => onChange(messages, index)}
+                    className="h-3 w-3 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Reply to this
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeMessage(index)}
+                  className="text-xs text-gray-400 hover:text-red-600"
+                >
+                  Remove
+                </button>
+              </div>
+              <textarea
+                value={message.content}
+                onChange={(event) => updateMessage(index, { content: event.target.value })}
+                rows={2}
+                className="textarea text-sm"
+              />
+            </li>
+          )
+        })}
+      </ol>
+      <button type="button" onClick={addMessage} className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+        + Add message
+      </button>
+    </div>
+  )
+}
@@ -21,6 +21,7 @@ const memberNav: NavItem[] = [
   { label: 'Persona Engine', href: '/personas' },
   { label: 'Insight Radar', href: '/insights' },
   { label: 'Reply Studio', href: '/replies' },
+  { label: 'Repurpose', href: '/repurpose' },
 ]
 
 export function Navigation() {
@@ -0,0 +1,164 @@
+'use client'
+
+import { FormEvent, useCallback, useEffect, useState } from 'react'
+import { Persona, PersonaExemplar } from '@/types/persona'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
+const SOURCE_LABELS: Record<PersonaExemplar['source'], string> = {
+  upload: 'From upload',
+  manual: 'Added by hand',
+  voiceprint: 'Imported',
+}
+
+interface PersonaExemplarsProps {
+  persona: Persona
+  token: string | null
+  // Bump to reload after exemplars are added elsewhere on the page
+  refreshKey?: number
+}
+
+export function PersonaExemplars({ persona, token, refreshKey = 0 }: PersonaExemplarsProps) {
+  const [exemplars, setExemplars] = useState<PersonaExemplar[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [draftPlatform, setDraftPlatform] = useState<PersonaExemplar['platform']>('twitter')
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const request = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const headers: Record<string, string> = {}
+      if (init.body) headers['Content-Type'] = 'application/json'
+      if (token) headers.Authorization = `Bearer ${token}`
+
+      const response = await fetch(`${API_BASE}/api/personas/${persona.id}/exemplars${path}`, { ...init, headers })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || 'Exemplar request failed')
+      }
+      return data
+    },
+    [persona.id, token]
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    request('')
+      .then((data: PersonaExemplar[]) => {
+        if (!cancelled) setExemplars(data)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load exemplars.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [request, refreshKey])
+
+  const handleAdd = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!draft.trim()) return
+
+    try {
+      setIsSaving(true)
+      setError(null)
+      const exemplar: PersonaExemplar = await request('', {
+        method: 'POST',
+        body: JSON.stringify({ content: draft.trim(), platform: draftPlatform }),
+      })
+      setExemplars((prev) => [...prev, exemplar])
+      setDraft('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to add this exemplar.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (exemplarId: string) => {
+    try {
+      setRemovingId(exemplarId)
+      setError(null)
+      await request(`/${exemplarId}`, { method: 'DELETE' })
+      setExemplars((prev) => prev.filter((exemplar) => exemplar.id !== exemplarId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to remove this exemplar.')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">Exemplar posts</span>
+        <span className="text-xs text-gray-400">{exemplars.length} saved</span>
+      </div>
+      <p className="text-xs text-gray-500">
+        The posts most relevant to each brain dump are shown to the model as examples of this persona&apos;s voice.
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {isLoading && exemplars.length === 0 ? (
+        <div className="h-12 animate-pulse rounded-lg bg-gray-100" />
+      ) : exemplars.length === 0 ? (
+        <p className="text-xs text-gray-400">No exemplars yet. Add a post below or save one from an upload.</p>
+      ) : (
+        <ul className="max-h-72 space-y-2 overflow-y-auto">
+          {exemplars.map((exemplar) => (
+            <li key={exemplar.id} className="rounded-lg border border-gray-100 px-3 py-2">
+              <p className="line-clamp-3 whitespace-pre-line text-xs text-gray-600">{exemplar.content}</p>
+              <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                <span className="capitalize">{exemplar.platform}</span>
+                <span>• {SOURCE_LABELS[exemplar.source] ?? exemplar.source}</span>
+                {exemplar.engagementScore > 0 && <span>• Score {exemplar.engagementScore.toFixed(1)}</span>}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(exemplar.id)}
+                  className="ml-auto font-medium text-red-500 hover:text-red-600 disabled:opacity-60"
+                  disabled={removingId !== null}
+                >
+                  {removingId === exemplar.id ? 'Removing...' : 'Remove'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          className="input min-h-[72px] text-xs"
+          placeholder="Paste a post that sounds exactly like this persona"
+        />
+        <div className="flex items-center gap-2">
+          <select
+            value={draftPlatform}
+            onChange={(event) => setDraftPlatform(event.target.value as PersonaExemplar['platform'])}
+            className="input h-8 w-auto py-1 text-xs"
+            aria-label="Exemplar platform"
+          >
+            <option value="twitter">X / Twitter</option>
+            <option value="linkedin">LinkedIn</option>
+            <option value="instagram">Instagram</option>
+          </select>
+          <button type="submit" className="btn-secondary px-3 py-1.5 text-xs" disabled={isSaving || !draft.trim()}>
+            {isSaving ? 'Adding...' : 'Add exemplar'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -7,9 +7,11 @@ import { Persona } from '@/types/persona'
 interface PersonaSelectorProps {
   selectedPersona: string
   onPersonaChange: (personaId: string) => void
+  // Receives the full persona once it has loaded, e.g. to apply its platform settings
+  onPersonaLoaded?: (persona: Persona | null) => void
 }
 
-export function PersonaSelector({ selectedPersona, onPersonaChange }: PersonaSelectorProps) {
+export function PersonaSelector({ selectedPersona, onPersonaChange, onPersonaLoaded }: PersonaSelectorProps) {
   const { personas, isLoading, defaultPersonaId } = usePersonas()
   const [selectedPersonaDetails, setSelectedPersonaDetails] = useState<Persona | null>(null)
 
@@ -23,8 +25,9 @@ export function PersonaSelector({ selectedPersona, onPersonaChange }: PersonaSel
     if (selectedPersona) {
       const persona = personas.find((p) => p.id === selectedPersona)
       setSelectedPersonaDetails(persona || null)
+      onPersonaLoaded?.(persona || null)
     }
-  }, [personas, selectedPersona])
+  }, [onPersonaLoaded, personas, selectedPersona])
 
   if (isLoading && personas.length === 0) {
     return (
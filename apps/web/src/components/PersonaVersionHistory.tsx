@@ -0,0 +1,214 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Persona, PersonaChanges, PersonaVersionSummary } from '@/types/persona'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
+const LIST_FIELDS: Array<{ key: 'tone' | 'donts' | 'hookPatterns'; label: string }> = [
+  { key: 'tone', label: 'Tone' },
+  { key: 'donts', label: 'Avoid' },
+  { key: 'hookPatterns', label: 'Hooks' },
+]
+
+const VALUE_FIELDS: Array<{ key: 'name' | 'description' | 'cadence' | 'ctaStyle'; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'cadence', label: 'Cadence' },
+  { key: 'ctaStyle', label: 'CTA style' },
+]
+
+function formatVersionDate(value: string) {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return value
+  return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }).format(date)
+}
+
+export function PersonaChangeList({ changes }: { changes: PersonaChanges }) {
+  const rows: JSX.Element[] = []
+
+  for (const { key, label } of LIST_FIELDS) {
+    const change = changes[key]
+    if (!change) continue
+    rows.push(
+      <li key={key} className="flex flex-wrap items-center gap-1">
+        <span className="font-medium text-gray-700">{label}:</span>
+        {change.added.map((item) => (
+          <span key={`+${item}`} className="rounded bg-green-50 px-1.5 py-0.5 text-green-700">
+            +{item}
+          </span>
+        ))}
+        {change.removed.map((item) => (
+          <span key={`-${item}`} className="rounded bg-red-50 px-1.5 py-0.5 text-red-700 line-through">
+            {item}
+          </span>
+        ))}
+      </li>
+    )
+  }
+
+  for (const { key, label } of VALUE_FIELDS) {
+    const change = changes[key]
+    if (!change) continue
+    rows.push(
+      <li key={key}>
+        <span className="font-medium text-gray-700">{label}:</span>{' '}
+        <span className="text-red-700 line-through">{change.from || 'none'}</span>{' '}
+        <span className="text-green-700">{change.to || 'none'}</span>
+      </li>
+    )
+  }
+
+  if (changes.platforms) rows.push(<li key="platforms">Platform settings changed</li>)
+  if (changes.llm) rows.push(<li key="llm">Model settings changed</li>)
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-gray-400">No changes.</p>
+  }
+
+  return <ul className="space-y-1 text-xs text-gray-600">{rows}</ul>
+}
+
+interface PersonaVersionHistoryProps {
+  persona: Persona
+  token: string | null
+  onRestored: (persona: Persona) => void
+}
+
+export function PersonaVersionHistory({ persona, token, onRestored }: PersonaVersionHistoryProps) {
+  const [versions, setVersions] = useState<PersonaVersionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<{ from: number; to: number; changes: PersonaChanges } | null>(null)
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null)
+
+  const request = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const response = await fetch(`${API_BASE}/api/personas/${persona.id}${path}`, {
+        ...init,
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error || 'Persona history request failed')
+      }
+      return data
+    },
+    [persona.id, token]
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    setComparison(null)
+
+    request('/versions')
+      .then((data: PersonaVersionSummary[]) => {
+        if (!cancelled) setVersions(data)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load version history.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+    // Reload whenever the persona is saved and its version moves
+  }, [request, persona.version])
+
+  const handleCompare = async (version: number) => {
+    try {
+      setError(null)
+      setComparison(await request(`/versions/diff?from=${version}`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to compare versions.')
+    }
+  }
+
+  const handleRestore = async (version: number) => {
+    if (!window.confirm(`Restore version ${version}? Your current settings stay in the history.`)) {
+      return
+    }
+
+    try {
+      setRestoringVersion(version)
+      setError(null)
+      onRestored(await request(`/versions/${version}/restore`, { method: 'POST' }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to restore this version.')
+    } finally {
+      setRestoringVersion(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">Version history</span>
+        {persona.version && <span className="text-xs text-gray-400">Current: v{persona.version}</span>}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {comparison && (
+        <div className="rounded-lg border border-indigo-100 bg-indigo-50/60 px-3 py-2">
+          <div className="mb-1 flex items-center justify-between text-xs font-semibold text-indigo-700">
+            <span>
+              v{comparison.from} → v{comparison.to}
+            </span>
+            <button type="button" onClick={() => setComparison(null)} className="text-indigo-500 hover:text-indigo-700">
+              Close
+            </button>
+          </div>
+          <PersonaChangeList changes={comparison.changes} />
+        </div>
+      )}
+
+      {isLoading && versions.length === 0 ? (
+        <div className="h-12 animate-pulse rounded-lg bg-gray-100" />
+      ) : (
+        <ol className="max-h-72 space-y-2 overflow-y-auto">
+          {versions.map((version) => (
+            <li key={version.version} className="rounded-lg border border-gray-100 px-3 py-2">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="font-semibold text-gray-900">v{version.version}</span>
+                <span className="text-gray-400">{formatVersionDate(version.createdAt)}</span>
+                {version.current ? (
+                  <span className="ml-auto rounded-full bg-indigo-50 px-2 py-0.5 font-medium text-indigo-600">Current</span>
+                ) : (
+                  <span className="ml-auto flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleCompare(version.version)}
+                      className="font-medium text-gray-500 hover:text-gray-700"
+                    >
+                      Compare
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(version.version)}
+                      className="font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-60"
+                      disabled={restoringVersion !== null}
+                    >
+                      {restoringVersion === version.version ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </span>
+                )}
+              </div>
+              {version.note && <p className="mt-1 text-xs text-gray-500">{version.note}</p>}
+              {Object.keys(version.changes).length > 0 && (
+                <div className="mt-1">
+                  <PersonaChangeList changes={version.changes} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
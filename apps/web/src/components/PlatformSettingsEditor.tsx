@@ -0,0 +1,238 @@
+'use client'
+
+import { PersonaPlatformConfig } from '@/types/persona'
+
+type Toggle = 'inherit' | 'on' | 'off'
+
+export interface PlatformSettingsFormValue {
+  maxLength: string
+  maxTokens: string
+  hashtags: Toggle
+  emojis: Toggle
+  hookPatterns: string
+  ctaStyle: '' | NonNullable<PersonaPlatformConfig['ctaStyle']>
+  language: string
+}
+
+export type PlatformSettingsFormState = Record<string, PlatformSettingsFormValue>
+
+const PLATFORMS = [
+  { value: 'twitter', label: 'X (Twitter)', defaultLength: 280 },
+  { value: 'linkedin', label: 'LinkedIn', defaultLength: 3000 },
+  { value: 'instagram', label: 'Instagram', defaultLength: 2200 },
+]
+
+const emptyValue: PlatformSettingsFormValue = {
+  maxLength: '',
+  maxTokens: '',
+  hashtags: 'inherit',
+  emojis: 'inherit',
+  hookPatterns: '',
+  ctaStyle: '',
+  language: '',
+}
+
+export const emptyPlatformSettingsForm: PlatformSettingsFormState = Object.fromEntries(
+  PLATFORMS.map((platform) => [platform.value, emptyValue])
+)
+
+function fromToggle(value: Toggle): boolean | undefined {
+  return value === 'inherit' ? undefined : value === 'on'
+}
+
+/**
+ * The persona `platforms` payload; fields left on "persona default" are omitted.
+ */
+export function toPlatformSettings(form: PlatformSettingsFormState): Record<string, PersonaPlatformConfig> {
+  const result: Record<string, PersonaPlatformConfig> = {}
+
+  for (const [platform, value] of Object.entries(form)) {
+    const maxLength = parseInt(value.maxLength, 10)
+    const maxTokens = parseInt(value.maxTokens, 10)
+    const hookPatterns = value.hookPatterns.split(',').map((item) => item.trim()).filter(Boolean)
+    const settings: PersonaPlatformConfig = {
+      ...(maxLength > 0 ? { maxLength } : {}),
+      ...(maxTokens > 0 ? { maxTokens } : {}),
+      ...(fromToggle(value.hashtags) !== undefined ? { includeHashtags: fromToggle(value.hashtags) } : {}),
+      ...(fromToggle(value.emojis) !== undefined ? { includeEmojis: fromToggle(value.emojis) } : {}),
+      ...(hookPatterns.length ? { hookPatterns } : {}),
+      ...(value.ctaStyle ? { ctaStyle: value.ctaStyle } : {}),
+      ...(value.language.trim() ? { language: value.language.trim() } : {}),
+    }
+
+    if (Object.keys(settings).length > 0) {
+      result[platform] = settings
+    }
+  }
+
+  return result
+}
+
+function toToggle(value: boolean | undefined): Toggle {
+  return value === undefined ? 'inherit' : value ? 'on' : 'off'
+}
+
+/**
+ * Form state for editing a persona's saved `platforms` settings.
+ */
+export function toPlatformSettingsForm(platforms: Record<string, PersonaPlatformConfig> = {}): PlatformSettingsFormState {
+  const form: PlatformSettingsFormState = { ...emptyPlatformSettingsForm }
+
+  for (const [platform, settings] of Object.entries(platforms)) {
+    form[platform] = {
+      maxLength: settings.maxLength ? String(settings.maxLength) : '',
+      maxTokens: settings.maxTokens ? String(settings.maxTokens) : '',
+      hashtags: toToggle(settings.includeHashtags),
+      emojis: toToggle(settings.includeEmojis),
+      hookPatterns: settings.hookPatterns?.join(', ') ?? '',
+      ctaStyle: settings.ctaStyle ?? '',
+      language: settings.language ?? '',
+    }
+  }
+
+  return form
+}
+
+interface PlatformSettingsEditorProps {
+  value: PlatformSettingsFormState
+  onChange: (value: PlatformSettingsFormState) => void
+}
+
+export function PlatformSettingsEditor({ value, onChange }: PlatformSettingsEditorProps) {
+  const update = (platform: string, patch: Partial<PlatformSettingsFormValue>) => {
+    onChange({ ...value, [platform]: { ...(value[platform] ?? emptyValue), ...patch } })
+  }
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium text-gray-700">Platform settings</span>
+      <p className="text-xs text-gray-500">
+        Leave a field empty to use the persona or platform default. Options chosen in the composer still win.
+      </p>
+      {PLATFORMS.map((platform) => {
+        const settings = value[platform.value] ?? emptyValue
+
+        return (
+          <details key={platform.value} className="rounded-lg border border-gray-200 px-3 py-2 text-sm">
+            <summary className="cursor-pointer font-medium text-gray-700">{platform.label}</summary>
+            <div className="mt-3 grid gap-3 md:grid-cols-2">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-600">Max characters</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={settings.maxLength}
+                  onChange={(event) => update(platform.value, { maxLength: event.target.value })}
+                  className="input"
+                  placeholder={platform.defaultLength.toString()}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-600">Max tokens</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={settings.maxTokens}
+                  onChange={(event) => update(platform.value, { maxTokens: event.target.value })}
+                  className="input"
+                  placeholder="Platform default"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-600">Hashtags</span>
+                <select
+                  value={settings.hashtags}
+                  onChange={(event) => update(platform.value, { hashtags: event.target.value as Toggle })}
+                  className="input"
+                >
+                  <option value="inherit">Default (off)</option>
+                  <option value="on">Include</option>
+                  <option value="off">Never</option>
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-600">Emojis</span>
+                <select
+                  value={settings.emojis}
+                  onChange={(event) => update(platform.value, { emojis: event.target.value as Toggle })}
+                  className="input"
+                >
+                  <option value="inherit">Default (off)</option>
+                  <option value="on">Allow</option>
+                  <option value="off">Never</option>
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-600">CTA style</span>
+                <select
+                  value={settings.ctaStyle}
+                  onChange={(event) =>
+                    update(platform.value, { ctaStyle: event.target.value as PlatformSettingsFormValue['ctaStyle'] })
+                  }
+                  className="input"
+                >
+                  <option value="">Persona default</option>
+                  <option value="direct">Direct</option>
+                  <option value="soft">Soft</option>
+                  <option value="question-based">Question-based</option>
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-600">Posting language</span>
+                <input
+                  value={settings.language}
+                  onChange={(event) => update(platform.value, { language: event.target.value })}
+                  className="input"
+                  placeholder="e.g. English, German"
+                />
+              </label>
+              <label className="space-y-1 md:col-span-2">
+                <span className="text-xs text-gray-600">Hook patterns (comma separated)</span>
+                <input
+                  value={settings.hookPatterns}
+                  onChange={(event) => update(platform.value, { hookPatterns: event.target.value })}
+                  className="input"
+                  placeholder="Persona hook patterns"
+                />
+              </label>
+            </div>
+          </details>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Read-only list of the settings a persona overrides per platform.
+ */
+export function PlatformSettingsSummary({ platforms }: { platforms?: Record<string, PersonaPlatformConfig> }) {
+  const entries = PLATFORMS.filter((platform) => platforms?.[platform.value] && Object.keys(platforms[platform.value]).length)
+  if (!platforms || entries.length === 0) return null
+
+  return (
+    <div>
+      <span className="font-medium text-gray-700">Platform settings:</span>
+      <ul className="mt-2 space-y-1 text-xs">
+        {entries.map((platform) => {
+          const settings = platforms[platform.value]
+          const parts = [
+            settings.maxLength ? `${settings.maxLength} chars` : null,
+            settings.maxTokens ? `${settings.maxTokens} tokens` : null,
+            settings.includeHashtags === undefined ? null : settings.includeHashtags ? 'hashtags' : 'no hashtags',
+            settings.includeEmojis === undefined ? null : settings.includeEmojis ? 'emojis' : 'no emojis',
+            settings.ctaStyle ? `${settings.ctaStyle.replace('-', ' ')} CTA` : null,
+            settings.language ?? null,
+            settings.hookPatterns?.length ? `hooks: ${settings.hookPatterns.join(', ')}` : null,
+          ].filter(Boolean)
+
+          return (
+            <li key={platform.value}>
+              <span className="font-medium">{platform.label}:</span> {parts.join(' · ')}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -2,14 +2,25 @@
 
 import { useEffect, useMemo, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
+import { useJobPolling } from '@/hooks/useJobPolling'
 import { ContentVariants } from './ContentVariants'
+import { ConversationEditor } from './ConversationEditor'
 import { usePersonas } from '@/hooks/usePersonas'
-import { ContentVariant, GenerationResult } from '@/types/composer'
+import { ContentVariant, ConversationMessage, GenerationResult } from '@/types/composer'
 
 type ReplyLength = 'short' | 'medium' | 'long'
+type ReplyGoal = 'engage' | 'add_value' | 'question' | 'support' | 'correct'
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
 
+const REPLY_GOALS: Array<{ value: ReplyGoal; label: string }> = [
+  { value: 'engage', label: 'Engage - keep the conversation going' },
+  { value: 'add_value', label: 'Add value - share an insight or example' },
+  { value: 'question', label: 'Question - ask something thoughtful' },
+  { value: 'support', label: 'Support - back up their point' },
+  { value: 'correct', label: 'Correct - respectfully push back' },
+]
+
 interface ReplyStudioResult extends GenerationResult {
   variants?: ContentVariant[]
 }
@@ -20,12 +31,17 @@ export function ReplyStudio() {
   const [replyLength, setReplyLength] = useState<ReplyLength>('short')
   const [replyCount, setReplyCount] = useState(3)
   const [conversationContext, setConversationContext] = useState('')
-  const [goal, setGoal] = useState('')
+  const [author, setAuthor] = useState('')
+  const [messages, setMessages] = useState<ConversationMessage[]>([])
+  const [replyToIndex, setReplyToIndex] = useState(0)
+  const [isParsing, setIsParsing] = useState(false)
+  const [goal, setGoal] = useState<ReplyGoal>('engage')
   const [isGenerating, setIsGenerating] = useState(false)
   const [includeHashtags, setIncludeHashtags] = useState(false)
   const [result, setResult] = useState<ReplyStudioResult | null>(null)
   const [error, setError] = useState<string | null>(null)
   const { token } = useAuth()
+  const { waitForJob } = useJobPolling()
 
   useEffect(() => {
     if (!selectedPersonaId && defaultPersonaId) {
@@ -41,18 +57,87 @@ export function ReplyStudio() {
   const characterLimit = useMemo(() => {
     switch (replyLength) {
       case 'short':
-        return 180
+        return 140
       case 'medium':
-        return 280
+        return 220
       case 'long':
-        return 420
+        return 280
       default:
         return 280
     }
   }, [replyLength])
 
+  const jsonHeaders = (): HeadersInit => ({
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  })
+
+  const hasThread = messages.length > 0
+  const canGenerate = hasThread ? messages.some((message) => message.content.trim()) : conversationContext.trim().length > 0
+
+  // Split a pasted X thread into messages so the target and history can be checked before generating
+  const parseThread = async (text: string) => {
+    if (!text.trim()) return
+
+    setIsParsing(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`${API_BASE}/api/replies/parse-thread`, {
+        method: 'POST',
+        headers: jsonHeaders(),
+        body: JSON.stringify({ text }),
+      })
+      const data: { messages?: ConversationMessage[]; replyToIndex?: number; error?: string } = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to parse the thread')
+      }
+
+      const parsed = data.messages ?? []
+      // A single post without an author stays in the simple form
+      if (parsed.length > 1 || parsed[0]?.author) {
+        setMessages(parsed)
+        setReplyToIndex(data.replyToIndex ?? parsed.length - 1)
+      }
+    } catch (err) {
+      console.error('Thread parsing failed', err)
+      setError(err instanceof Error ? err.message : 'Unable to parse the thread.')
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const buildReplyContext = () => {
+    if (!hasThread) {
+      return {
+        originalPost: {
+          content: conversationContext.trim(),
+          author: author.trim().replace(/^@/, '') || 'the author',
+          platform: 'twitter',
+        },
+      }
+    }
+
+    // Drop empty messages without losing track of the reply target
+    const thread: ConversationMessage[] = []
+    let targetIndex = -1
+    messages.forEach((message, index) => {
+      const content = message.content.trim()
+      if (!content) return
+      if (index === replyToIndex) targetIndex = thread.length
+      thread.push({ ...message, author: message.author.trim(), content })
+    })
+
+    return {
+      thread,
+      replyToIndex: targetIndex >= 0 ? targetIndex : thread.length - 1,
+      platform: 'twitter',
+    }
+  }
+
   const handleGenerate = async () => {
-    if (!conversationContext.trim() || !selectedPersonaId) {
+    if (!canGenerate || !selectedPersonaId) {
       setError('Add conversation context and choose a persona to generate replies.')
       return
     }
@@ -62,41 +147,18 @@ export function ReplyStudio() {
     setError(null)
 
     try {
-      const personaSummary = selectedPersona
-        ? `${selectedPersona.name} persona with tone ${selectedPersona.tone.join(', ')}`
-        : 'the selected persona'
-
-      const prompt = [
-        `You are ${personaSummary}. Craft ${replyCount} authentic replies to the conversation below.`,
-        'Each reply should feel human, on-brand, and aligned with the persona cadence and CTA style.',
-        goal ? `Primary goal: ${goal}.` : null,
-        `Keep replies ${replyLength} in length and respect platform limits.`,
-        includeHashtags ? 'Add one subtle hashtag when it feels natural.' : 'Do not force hashtags.',
-        '',
-        'Conversation:',
-        conversationContext.trim(),
-      ]
-        .filter(Boolean)
-        .join('\n')
-
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      }
-
-      if (token) {
-        headers.Authorization = `Bearer ${token}`
-      }
-
-      const response = await fetch(`${API_BASE}/api/composer/compose`, {
+      const response = await fetch(`${API_BASE}/api/replies/generate`, {
         method: 'POST',
-        headers,
+        headers: jsonHeaders(),
         body: JSON.stringify({
-          input: prompt,
           personaId: selectedPersonaId,
-          platform: 'twitter',
+          context: {
+            ...buildReplyContext(),
+            replyGoal: goal,
+            maxLength: characterLimit,
+          },
           options: {
             variants: replyCount,
-            maxLength: characterLimit,
             includeHashtags,
           },
         }),
@@ -108,6 +170,16 @@ export function ReplyStudio() {
         throw new Error(data?.error || 'Reply generation failed')
       }
 
+      if (data.status === 'QUEUED' && data.jobId) {
+        setResult(data)
+        const finished = await waitForJob(data.jobId)
+        if (!finished.success) {
+          throw new Error(finished.error || 'Reply generation failed')
+        }
+        setResult(finished)
+        return
+      }
+
       const normalized: ReplyStudioResult =
         typeof data?.success === 'boolean' ? data : { ...data, success: true }
 
@@ -132,20 +204,62 @@ export function ReplyStudio() {
       <div className="grid gap-6 lg:grid-cols-[1.5fr,1fr]">
         <div className="card space-y-6">
           <div className="space-y-4">
-            <div>
-              <label className="mb-2 block text-sm font-medium text-gray-700">Conversation context</label>
-              <textarea
-                value={conversationContext}
-                onChange={(event) => setConversationContext(event.target.value)}
-                rows={6}
-                className="textarea h-36"
-                placeholder={`Paste the post you want to respond to...
+            {hasThread ? (
+              <div>
+                <div className="mb-2 flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700">Conversation</label>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setMessages([])
+                      setReplyToIndex(0)
+                    }}
+                    className="text-xs font-medium text-gray-500 hover:text-gray-700"
+                  >
+                    Paste a different post
+                  </button>
+                </div>
+                <ConversationEditor
+                  messages={messages}
+                  replyToIndex={replyToIndex}
+                  onChange={(nextMessages, nextIndex) => {
+                    setMessages(nextMessages)
+                    setReplyToIndex(nextIndex)
+                  }}
+                />
+              </div>
+            ) : (
+              <div>
+                <div className="mb-2 flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700">Conversation context</label>
+                  <button
+                    type="button"
+                    onClick={() => parseThread(conversationContext)}
+                    disabled={isParsing || !conversationContext.trim()}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                  >
+                    {isParsing ? 'Splitting...' : 'Split into messages'}
+                  </button>
+                </div>
+                <textarea
+                  value={conversationContext}
+                  onChange={(event) => setConversationContext(event.target.value)}
+                  onPaste={(event) => {
+                    const field = event.currentTarget
+                    const pasted = event.clipboardData.getData('text')
+                    const next = field.value.slice(0, field.selectionStart) + pasted + field.value.slice(field.selectionEnd)
+                    void parseThread(next)
+                  }}
+                  rows={6}
+                  className="textarea h-36"
+                  placeholder={`Paste the post or X thread you want to respond to...
 
 Example:
 Creator: "We launched our beta and 4,000 people joined in 48 hours."
 Your reply should add value, extend the conversation, or open a loop.`}
-              />
-            </div>
+                />
+              </div>
+            )}
 
             <div>
               <label className="mb-2 block text-sm font-medium text-gray-700">Persona</label>
@@ -174,9 +288,9 @@ Your reply should add value, extend the conversation, or open a loop.`}
                   onChange={(event) => setReplyLength(event.target.value as ReplyLength)}
                   className="input"
                 >
-                  <option value="short">Short (under 180 characters)</option>
-                  <option value="medium">Medium (under 280 characters)</option>
-                  <option value="long">Long (under 420 characters)</option>
+                  <option value="short">Short (under 140 characters)</option>
+                  <option value="medium">Medium (under 220 characters)</option>
+                  <option value="long">Long (under 280 characters)</option>
                 </select>
               </div>
               <div>
@@ -195,14 +309,32 @@ Your reply should add value, extend the conversation, or open a loop.`}
               </div>
             </div>
 
-            <div>
-              <label className="mb-2 block text-sm font-medium text-gray-700">Optional goal</label>
-              <input
-                value={goal}
-                onChange={(event) => setGoal(event.target.value)}
-                className="input"
-                placeholder="E.g. encourage a DM, highlight social proof, invite collaboration"
-              />
+            <div className="grid gap-4 md:grid-cols-2">
+              {!hasThread && (
+                <div>
+                  <label className="mb-2 block text-sm font-medium text-gray-700">Author</label>
+                  <input
+                    value={author}
+                    onChange={(event) => setAuthor(event.target.value)}
+                    className="input"
+                    placeholder="@handle of the original poster"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="mb-2 block text-sm font-medium text-gray-700">Reply goal</label>
+                <select
+                  value={goal}
+                  onChange={(event) => setGoal(event.target.value as ReplyGoal)}
+                  className="input"
+                >
+                  {REPLY_GOALS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className="flex items-center justify-between rounded-lg border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-600">
@@ -235,7 +367,9 @@ Your reply should add value, extend the conversation, or open a loop.`}
               disabled={isGenerating}
               onClick={() => {
                 setConversationContext('')
-                setGoal('')
+                setAuthor('')
+                setMessages([])
+                setReplyToIndex(0)
                 setResult(null)
                 setError(null)
               }}
@@ -245,7 +379,7 @@ Your reply should add value, extend the conversation, or open a loop.`}
             <button
               type="button"
               className="btn-primary disabled:cursor-not-allowed disabled:opacity-50"
-              disabled={isGenerating || !conversationContext.trim()}
+              disabled={isGenerating || !canGenerate}
               onClick={handleGenerate}
             >
               {isGenerating ? 'Generating replies...' : `Generate ${replyCount} replies`}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useJobPolling } from '@/hooks/useJobPolling'
+import { PersonaSelector } from './PersonaSelector'
+import { ContentVariants } from './ContentVariants'
+import { Platform, RepurposeGroup, RepurposeResult } from '@/types/composer'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
+const PLATFORMS: Array<{ value: Platform; label: string; format: string }> = [
+  { value: 'twitter', label: 'X (Twitter)', format: 'Thread' },
+  { value: 'linkedin', label: 'LinkedIn', format: 'Long-form post' },
+  { value: 'instagram', label: 'Instagram', format: 'Caption + 3-5 hashtags' },
+]
+
+export function RepurposeStudio() {
+  const [input, setInput] = useState('')
+  const [selectedPersona, setSelectedPersona] = useState('')
+  const [platforms, setPlatforms] = useState<Platform[]>(['twitter', 'linkedin', 'instagram'])
+  const [variants, setVariants] = useState(1)
+  const [threadTweets, setThreadTweets] = useState(5)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [result, setResult] = useState<RepurposeResult | null>(null)
+  const { token } = useAuth()
+  const { waitForJob } = useJobPolling()
+
+  const togglePlatform = (platform: Platform) => {
+    setPlatforms((current) =>
+      current.includes(platform) ? current.filter((value) => value !== platform) : [...current, platform]
+    )
+  }
+
+  const handleGenerate = async () => {
+    if (!input.trim() || !selectedPersona || platforms.length === 0) {
+      return
+    }
+
+    setIsGenerating(true)
+    setResult(null)
+
+    try {
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+      }
+
+      if (token) {
+        headers.Authorization = `Bearer ${token}`
+      }
+
+      const response = await fetch(`${API_BASE}/api/composer/repurpose`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          input,
+          personaId: selectedPersona,
+          platforms,
+          options: {
+            variants,
+            thread: { tweets: threadTweets },
+          },
+        }),
+      })
+
+      const data: RepurposeResult = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Repurposing failed')
+      }
+
+      setResult(data)
+
+      // Queued platforms finish independently; fill each in as its runner job completes
+      const queued = Object.entries(data.platforms ?? {}).filter(
+        ([, group]) => group?.status === 'QUEUED' && group.jobId
+      ) as Array<[Platform, RepurposeGroup]>
+
+      await Promise.all(
+        queued.map(async ([platform, group]) => {
+          const finished = await waitForJob(group.jobId!)
+          setResult((current) =>
+            current
+              ? { ...current, platforms: { ...current.platforms, [platform]: { ...group, ...finished } } }
+              : current
+          )
+        })
+      )
+    } catch (error) {
+      console.error('Repurposing failed:', error)
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to repurpose content. Please try again.',
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-semibold text-gray-900">Repurpose</h2>
+        <p className="text-sm text-gray-600">
+          Write the idea once and get a native version for every platform in a single run.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1.5fr,1fr]">
+        <div className="card space-y-4">
+          <div>
+            <label className="mb-2 block text-sm font-medium text-gray-700">Source idea or draft</label>
+            <textarea
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              rows={8}
+              className="textarea"
+              placeholder="Paste a post that worked, or jot down the idea you want on every platform..."
+            />
+          </div>
+
+          <PersonaSelector selectedPersona={selectedPersona} onPersonaChange={setSelectedPersona} />
+        </div>
+
+        <div className="card space-y-4">
+          <div>
+            <span className="mb-2 block text-sm font-medium text-gray-700">Platforms</span>
+            <div className="space-y-2">
+              {PLATFORMS.map((platform) => (
+                <label key={platform.value} className="flex items-center justify-between text-sm text-gray-700">
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={platforms.includes(platform.value)}
+                      onChange={() => togglePlatform(platform.value)}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {platform.label}
+                  </span>
+                  <span className="text-xs text-gray-500">{platform.format}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-2 block text-sm font-medium text-gray-700">Variants per platform: {variants}</label>
+            <input
+              type="range"
+              min="1"
+              max="3"
+              value={variants}
+              onChange={(event) => setVariants(parseInt(event.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          {platforms.includes('twitter') && (
+            <div>
+              <label htmlFor="repurpose-tweets" className="mb-2 block text-sm font-medium text-gray-700">
+                Tweets in the X thread
+              </label>
+              <input
+                type="number"
+                id="repurpose-tweets"
+                min="2"
+                max="15"
+                value={threadTweets}
+                onChange={(event) => setThreadTweets(parseInt(event.target.value))}
+                className="input w-full"
+              />
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={isGenerating || !input.trim() || !selectedPersona || platforms.length === 0}
+            className="btn-primary w-full disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isGenerating ? 'Repurposing...' : `Repurpose for ${platforms.length} platform${platforms.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+
+      {result?.error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{result.error}</div>
+      )}
+
+      {PLATFORMS.map(({ value, label, format }) => {
+        const group = result?.platforms?.[value]
+        if (!group) return null
+
+        return (
+          <section key={value} className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {label} <span className="text-sm font-normal text-gray-500">· {format}</span>
+            </h3>
+            <ContentVariants result={group} platform={value} />
+          </section>
+        )
+      })}
+    </div>
+  )
+}
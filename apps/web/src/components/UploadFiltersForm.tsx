@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import { UploadFilterReason, UploadFilterReport, UploadFilters } from '@/types/uploads'
+
+export const defaultUploadFilters: UploadFilters = {
+  excludeReplies: true,
+  excludeRetweets: true,
+  excludeQuotes: true,
+  excludeOtherAuthors: true,
+  stripMentionsAndLinks: true,
+  minLength: 0,
+  languages: [],
+}
+
+const TOGGLES: Array<{ key: keyof UploadFilters; label: string }> = [
+  { key: 'excludeReplies', label: 'Skip replies' },
+  { key: 'excludeRetweets', label: 'Skip reposts' },
+  { key: 'excludeQuotes', label: 'Skip quote posts' },
+  { key: 'excludeOtherAuthors', label: 'Only my posts' },
+  { key: 'stripMentionsAndLinks', label: 'Strip leading @mentions and t.co links' },
+]
+
+const REASON_LABELS: Record<UploadFilterReason, string> = {
+  retweets: 'reposts',
+  replies: 'replies',
+  quotes: 'quote posts',
+  otherAuthors: 'by other authors',
+  language: 'in other languages',
+  tooShort: 'too short',
+}
+
+/**
+ * One line describing what the upload filters kept and dropped.
+ */
+export function describeFilterReport(report: UploadFilterReport) {
+  const dropped = (Object.keys(REASON_LABELS) as UploadFilterReason[])
+    .filter((reason) => report.dropped[reason] > 0)
+    .map((reason) => `${report.dropped[reason]} ${REASON_LABELS[reason]}`)
+
+  const kept = `Kept ${report.kept} of ${report.total} posts`
+  return dropped.length > 0 ? `${kept}; dropped ${dropped.join(', ')}.` : `${kept}.`
+}
+
+interface UploadFiltersFormProps {
+  filters: UploadFilters
+  onChange: (filters: UploadFilters) => void
+  disabled?: boolean
+}
+
+export function UploadFiltersForm({ filters, onChange, disabled }: UploadFiltersFormProps) {
+  const [languageText, setLanguageText] = useState(filters.languages.join(', '))
+  const update = (changes: Partial<UploadFilters>) => onChange({ ...filters, ...changes })
+
+  const handleLanguagesChange = (value: string) => {
+    setLanguageText(value)
+    update({
+      languages: value
+        .split(',')
+        .map((language) => language.trim())
+        .filter(Boolean),
+    })
+  }
+
+  return (
+    <details className="rounded-xl border border-gray-200 bg-white p-4">
+      <summary className="cursor-pointer text-sm font-semibold text-gray-900">Filters</summary>
+      <div className="mt-3 space-y-3">
+        <div className="grid gap-2 sm:grid-cols-2">
+          {TOGGLES.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={Boolean(filters[key])}
+                onChange={(event) => update({ [key]: event.target.checked })}
+                className="h-4 w-4"
+                disabled={disabled}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+            <span>My username</span>
+            <input
+              type="text"
+              value={filters.authorUsername ?? ''}
+              onChange={(event) => update({ authorUsername: event.target.value.trim() || undefined })}
+              placeholder="Most common author"
+              className="input text-sm normal-case"
+              disabled={disabled || !filters.excludeOtherAuthors}
+            />
+          </label>
+          <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+            <span>Minimum length</span>
+            <input
+              type="number"
+              min={0}
+              max={1000}
+              value={filters.minLength}
+              onChange={(event) => update({ minLength: Math.min(1000, Math.max(0, Number(event.target.value) || 0)) })}
+              className="input text-sm"
+              disabled={disabled}
+            />
+          </label>
+          <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+            <span>Languages</span>
+            <input
+              type="text"
+              value={languageText}
+              onChange={(event) => handleLanguagesChange(event.target.value)}
+              placeholder="All, or e.g. en, de"
+              className="input text-sm normal-case"
+              disabled={disabled}
+            />
+          </label>
+        </div>
+      </div>
+    </details>
+  )
+}
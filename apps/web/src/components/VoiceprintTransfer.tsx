@@ -0,0 +1,213 @@
+'use client'
+
+import { ChangeEvent, useRef, useState } from 'react'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
+export type VoiceprintFormat = 'json' | 'yaml'
+
+type ConflictMode = 'merge' | 'replace' | 'skip'
+
+interface ImportResult {
+  success: boolean
+  conflicts: Array<{ name: string; personaId: string }>
+  personas: Array<{ name: string; action: 'created' | 'merged' | 'replaced' | 'skipped'; samplePosts: number }>
+  error?: string
+}
+
+/**
+ * Download a voiceprint file; pass a persona ID to export just that persona.
+ */
+export async function downloadVoiceprint(
+  token: string | null,
+  options: { personaId?: string; format: VoiceprintFormat; samples?: number }
+) {
+  const path = options.personaId ? `/api/personas/${options.personaId}/export` : '/api/personas/export'
+  const url = new URL(path, API_BASE)
+  url.searchParams.set('format', options.format)
+  url.searchParams.set('samples', String(options.samples ?? 0))
+
+  const response = await fetch(url.toString(), {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || 'Unable to export personas')
+  }
+
+  const filename =
+    response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `personas.voiceprint.${options.format}`
+  const link = document.createElement('a')
+  link.href = URL.createObjectURL(await response.blob())
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(link.href)
+}
+
+function summarize(result: ImportResult) {
+  const counts = result.personas.reduce<Record<string, number>>((acc, persona) => {
+    acc[persona.action] = (acc[persona.action] ?? 0) + 1
+    return acc
+  }, {})
+  const samples = result.personas.reduce((total, persona) => total + persona.samplePosts, 0)
+
+  const parts = Object.entries(counts).map(([action, count]) => `${count} ${action}`)
+  if (samples > 0) parts.push(`${samples} exemplar${samples === 1 ? '' : 's'} added`)
+  return `Import finished: ${parts.join(', ')}.`
+}
+
+interface VoiceprintTransferProps {
+  token: string | null
+  onImported: () => void | Promise<void>
+}
+
+export function VoiceprintTransfer({ token, onImported }: VoiceprintTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [format, setFormat] = useState<VoiceprintFormat>('yaml')
+  const [includeSamples, setIncludeSamples] = useState(false)
+  const [pendingFile, setPendingFile] = useState<{ name: string; content: string } | null>(null)
+  const [conflicts, setConflicts] = useState<ImportResult['conflicts']>([])
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleExport = async () => {
+    try {
+      setIsBusy(true)
+      setMessage(null)
+      await downloadVoiceprint(token, { format, samples: includeSamples ? 5 : 0 })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unable to export personas.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const runImport = async (content: string, onConflict: 'report' | ConflictMode) => {
+    setIsBusy(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`${API_BASE}/api/personas/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ content, onConflict }),
+      })
+      const data = (await response.json()) as ImportResult
+
+      if (response.status === 409) {
+        setConflicts(data.conflicts)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(data?.error || 'Unable to import this file.')
+      }
+
+      setPendingFile(null)
+      setConflicts([])
+      setMessage({ type: 'success', text: summarize(data) })
+      await onImported()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unable to import this file.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const content = await file.text()
+    setPendingFile({ name: file.name, content })
+    setConflicts([])
+    await runImport(content, 'report')
+  }
+
+  const handleResolve = (mode: ConflictMode) => {
+    if (pendingFile) {
+      runImport(pendingFile.content, mode)
+    }
+  }
+
+  const handleCancel = () => {
+    setPendingFile(null)
+    setConflicts([])
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-100 bg-gray-50 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium text-gray-700">Voiceprint files</span>
+        <select
+          value={format}
+          onChange={(event) => setFormat(event.target.value as VoiceprintFormat)}
+          className="input h-8 w-auto py-1 text-xs"
+          aria-label="Export format"
+        >
+          <option value="yaml">YAML</option>
+          <option value="json">JSON</option>
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={includeSamples}
+            onChange={(event) => setIncludeSamples(event.target.checked)}
+            className="h-3 w-3"
+          />
+          Include exemplars
+        </label>
+        <button type="button" onClick={handleExport} className="btn-secondary px-3 py-1.5 text-xs" disabled={isBusy}>
+          Export all
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="btn-secondary px-3 py-1.5 text-xs"
+          disabled={isBusy}
+        >
+          Import file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml,application/json,application/yaml"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {conflicts.length > 0 && pendingFile && (
+        <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          <p>
+            {pendingFile.name} has {conflicts.length === 1 ? 'a persona' : 'personas'} with the same name as yours:{' '}
+            <span className="font-medium">{conflicts.map((conflict) => conflict.name).join(', ')}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => handleResolve('merge')} className="font-medium hover:underline" disabled={isBusy}>
+              Merge into mine
+            </button>
+            <button type="button" onClick={() => handleResolve('replace')} className="font-medium hover:underline" disabled={isBusy}>
+              Replace mine
+            </button>
+            <button type="button" onClick={() => handleResolve('skip')} className="font-medium hover:underline" disabled={isBusy}>
+              Skip those
+            </button>
+            <button type="button" onClick={handleCancel} className="ml-auto text-amber-600 hover:underline" disabled={isBusy}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  )
+}
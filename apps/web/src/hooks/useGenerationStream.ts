@@ -0,0 +1,162 @@
+'use client'
+
+import { useCallback, useRef, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  ContentVariant,
+  GenerationResult,
+  GenerationStreamEvent,
+  ThreadNumbering,
+  VariantDraft,
+} from '@/types/composer'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
+export interface BrainDumpRequestBody {
+  input: string
+  personaId: string
+  platform: 'twitter' | 'linkedin' | 'instagram'
+  options?: {
+    variants?: number
+    maxLength?: number
+    maxTokens?: number
+    includeHashtags?: boolean
+    includeEmojis?: boolean
+    thread?: {
+      tweets?: number
+      numbering?: ThreadNumbering
+    }
+  }
+}
+
+/**
+ * Parses `event:`/`data:` blocks from an SSE response body.
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<GenerationStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      const data = block
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n')
+
+      if (!data) continue
+
+      try {
+        yield JSON.parse(data) as GenerationStreamEvent
+      } catch {
+        // Ignore malformed events rather than aborting the whole stream
+      }
+    }
+  }
+}
+
+export function useGenerationStream() {
+  const { token } = useAuth()
+  const [drafts, setDrafts] = useState<VariantDraft[]>([])
+  const [variants, setVariants] = useState<ContentVariant[]>([])
+  const abortRef = useRef<AbortController | null>(null)
+
+  const reset = useCallback(() => {
+    setDrafts([])
+    setVariants([])
+  }, [])
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+    abortRef.current = null
+  }, [])
+
+  const generate = useCallback(
+    async (body: BrainDumpRequestBody): Promise<GenerationResult> => {
+      abortRef.current?.abort()
+      const controller = new AbortController()
+      abortRef.current = controller
+      reset()
+
+      const response = await fetch(`${API_BASE}/api/composer/brain-dump/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to generate content')
+      }
+
+      for await (const event of readServerSentEvents(response.body)) {
+        switch (event.type) {
+          case 'token':
+            setDrafts((current) => {
+              const existing = current.find((draft) => draft.id === event.variantId)
+              if (!existing) {
+                return [...current, { id: event.variantId, text: event.delta, attempt: event.attempt, notices: [] }]
+              }
+
+              return current.map((draft) =>
+                draft.id !== event.variantId
+                  ? draft
+                  : draft.attempt === event.attempt
+                    ? { ...draft, text: draft.text + event.delta }
+                    : { ...draft, text: event.delta, attempt: event.attempt }
+              )
+            })
+            break
+          case 'attempt':
+            setDrafts((current) =>
+              current.map((draft) =>
+                draft.id === event.variantId ? { ...draft, notices: [...draft.notices, event.message] } : draft
+              )
+            )
+            break
+          case 'variant':
+            // Variants are generated in parallel and can finish out of order
+            setVariants((current) =>
+              [...current.filter((variant) => variant.id !== event.variant.id), event.variant].sort((a, b) =>
+                a.id.localeCompare(b.id, undefined, { numeric: true })
+              )
+            )
+            setDrafts((current) => current.filter((draft) => draft.id !== event.variant.id))
+            break
+          case 'done': {
+            const { type: _type, ...result } = event
+            setDrafts([])
+            if (result.variants) {
+              setVariants(result.variants)
+            }
+            return result
+          }
+          case 'error':
+            setDrafts([])
+            return { success: false, error: event.error }
+        }
+      }
+
+      return { success: false, error: 'Generation stream ended unexpectedly' }
+    },
+    [token, reset]
+  )
+
+  return { generate, cancel, reset, drafts, variants }
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { GenerationResult } from '@/types/composer'
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+const JOB_POLL_INTERVAL_MS = 2000
+const JOB_POLL_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * Runner-mode requests come back QUEUED; `waitForJob` polls the job until a runner finishes it.
+ */
+export function useJobPolling() {
+  const { token } = useAuth()
+
+  const waitForJob = useCallback(
+    async (jobId: string): Promise<GenerationResult> => {
+      const deadline = Date.now() + JOB_POLL_TIMEOUT_MS
+
+      while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+
+        const response = await fetch(`${API_BASE}/api/composer/job/${jobId}`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        })
+        const job = await response.json()
+
+        if (!response.ok) {
+          throw new Error(job?.error || 'Failed to check generation status')
+        }
+
+        if (job.status === 'COMPLETED') {
+          return { success: true, jobId, status: job.status, variants: job.result?.variants ?? [] }
+        }
+
+        if (job.status === 'FAILED' || job.status === 'CANCELLED') {
+          return { success: false, jobId, status: job.status, error: job.error || 'Generation failed' }
+        }
+      }
+
+      return { success: false, jobId, error: 'Timed out waiting for the runner to finish this job.' }
+    },
+    [token]
+  )
+
+  return { waitForJob }
+}
@@ -1,3 +1,20 @@
+export type ThreadNumbering = 'slash' | 'fraction' | 'emoji' | 'none'
+
+// One message of a conversation being replied to, oldest first
+export interface ConversationMessage {
+  author: string
+  content: string
+  timestamp?: string
+}
+
+export interface ThreadTweet {
+  index: number
+  role: 'hook' | 'body' | 'cta'
+  text: string
+  length: number
+  tokenLength: number
+}
+
 export interface ContentVariant {
   id: string
   content: string
@@ -5,6 +22,7 @@ export interface ContentVariant {
   body: string
   cta?: string
   hashtags: string[]
+  thread?: ThreadTweet[]
   metadata: {
     length: number
     sentiment?: string
@@ -13,12 +31,103 @@ export interface ContentVariant {
     originalLength?: number
     overLimit?: number
     originalContent?: string
+    compliance?: ComplianceReport
+    readability?: number
+    algo?: Omit<AlgoAnalysis, 'content'>
+    // Set when the draft closely repeats something the persona already posted
+    duplicate?: {
+      similarity: number
+      content: string
+      source: 'post' | 'upload'
+      postedAt?: string
+    }
+  }
+}
+
+export interface AlgoSuggestion {
+  type: string
+  description: string
+  impact: 'low' | 'medium' | 'high'
+  // The full draft with this suggestion applied
+  edit: string
+}
+
+export interface AlgoAnalysis {
+  content: string
+  riskScore: number
+  boostScore: number
+  band: 'green' | 'yellow' | 'red'
+  suggestions: AlgoSuggestion[]
+  factors: {
+    linkDensity: number
+    hashtagCount: number
+    hashtagDensity: number
+    length: number
+    lengthFit: number
+    sentiment: string
+    readability: number
   }
 }
 
+export interface ComplianceViolation {
+  rule: string
+  source: 'rule' | 'judge'
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface ComplianceReport {
+  score: number
+  passed: boolean
+  violations: ComplianceViolation[]
+}
+
 export interface GenerationResult {
   success: boolean
   jobId?: string
+  status?: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
   variants?: ContentVariant[]
   error?: string
 }
+
+export type Platform = 'twitter' | 'linkedin' | 'instagram'
+
+// One platform's share of a POST /api/composer/repurpose result
+export interface RepurposeGroup extends GenerationResult {
+  format: 'thread' | 'long_form' | 'caption'
+  maxLength: number
+}
+
+export interface RepurposeResult {
+  success: boolean
+  source?: { input: string; postId?: string; platform?: string }
+  platforms?: Partial<Record<Platform, RepurposeGroup>>
+  error?: string
+}
+
+// Events emitted by POST /api/composer/brain-dump/stream
+export type GenerationStreamEvent =
+  | { type: 'start'; variants: number; provider: string; model: string }
+  | { type: 'token'; variantId: string; attempt: number; delta: string }
+  | {
+      type: 'attempt'
+      variantId: string
+      attempt: number
+      maxAttempts: number
+      length: number
+      tokenLength: number
+      charLimit: number
+      tokenLimit: number
+      message: string
+    }
+  | { type: 'variant'; variant: ContentVariant }
+  | ({ type: 'done' } & GenerationResult)
+  | { type: 'error'; error: string }
+
+// A variant still being written by the model
+export interface VariantDraft {
+  id: string
+  text: string
+  attempt: number
+  notices: string[]
+}
@@ -1,8 +1,23 @@
 export type PersonaCadence = 'concise' | 'detailed' | 'conversational' | string
 export type PersonaCTAStyle = 'direct' | 'soft' | 'question-based' | string
 
+// Per-platform persona settings; options set on a request take precedence
 export interface PersonaPlatformConfig {
   maxLength?: number
+  maxTokens?: number
+  includeHashtags?: boolean
+  includeEmojis?: boolean
+  hookPatterns?: string[]
+  ctaStyle?: 'direct' | 'soft' | 'question-based'
+  language?: string
+}
+
+export interface PersonaLlmSettings {
+  provider?: 'ollama' | 'openai-compatible' | 'fake'
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  topP?: number
 }
 
 export interface Persona {
@@ -17,6 +32,53 @@ export interface Persona {
   hookPatterns?: string[]
   ctaStyle: PersonaCTAStyle
   platforms?: Record<string, PersonaPlatformConfig>
+  llm?: PersonaLlmSettings
+  version?: number
   createdAt?: string
   updatedAt?: string
 }
+
+export interface PersonaListChange {
+  added: string[]
+  removed: string[]
+}
+
+export interface PersonaValueChange<T = unknown> {
+  from: T
+  to: T
+}
+
+// What changed between two persona versions
+export interface PersonaChanges {
+  name?: PersonaValueChange<string>
+  description?: PersonaValueChange<string | null>
+  tone?: PersonaListChange
+  cadence?: PersonaValueChange<string>
+  donts?: PersonaListChange
+  hookPatterns?: PersonaListChange
+  ctaStyle?: PersonaValueChange<string>
+  platforms?: PersonaValueChange<Record<string, PersonaPlatformConfig>>
+  llm?: PersonaValueChange<PersonaLlmSettings>
+}
+
+export interface PersonaVersionSummary {
+  version: number
+  current: boolean
+  note?: string | null
+  changes: PersonaChanges
+  createdAt: string
+}
+
+export type PersonaExemplarSource = 'upload' | 'manual' | 'voiceprint'
+
+// A post kept on a persona and shown to the model as a few-shot example
+export interface PersonaExemplar {
+  id: string
+  personaId: string
+  content: string
+  platform: 'twitter' | 'linkedin' | 'instagram'
+  source: PersonaExemplarSource
+  engagementScore: number
+  postedAt?: string | null
+  createdAt: string
+}
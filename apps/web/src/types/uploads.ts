@@ -24,6 +24,7 @@ export interface UploadSummary {
 }
 
 export interface UploadDetails extends UploadSummary {
+  filterReport?: UploadFilterReport | null
   analysis?: {
     avgLength?: number
     toneKeywords?: string[]
@@ -39,5 +40,56 @@ export interface UploadDetails extends UploadSummary {
     platform: string
     originalDate?: string
     engagementScore?: number
+    engagementRate?: number | null
+    engagementPercentile?: number
+    likes?: number
+    retweets?: number
+    replies?: number
+    quotes?: number
+    bookmarks?: number
+    views?: number | null
   }>
 }
+
+export type ColumnMappingField =
+  | 'content'
+  | 'date'
+  | 'likes'
+  | 'retweets'
+  | 'replies'
+  | 'quotes'
+  | 'views'
+  | 'bookmarks'
+  | 'url'
+  | 'type'
+
+export type ColumnMapping = Partial<Record<ColumnMappingField, string>>
+
+export interface CSVPreview {
+  columns: Array<{ name: string; samples: string[] }>
+  mapping: ColumnMapping
+  signature: string
+  savedMapping: boolean
+  knownExport: 'linkedin' | null
+}
+
+export interface UploadFilters {
+  excludeReplies: boolean
+  excludeRetweets: boolean
+  excludeQuotes: boolean
+  excludeOtherAuthors: boolean
+  authorUsername?: string
+  stripMentionsAndLinks: boolean
+  minLength: number
+  languages: string[]
+}
+
+export type UploadFilterReason = 'retweets' | 'replies' | 'quotes' | 'otherAuthors' | 'language' | 'tooShort'
+
+export interface UploadFilterReport {
+  total: number
+  kept: number
+  dropped: Record<UploadFilterReason, number>
+  author?: string
+  filters: UploadFilters
+}
@@ -0,0 +1,91 @@
+import { RunnerConfig } from './config'
+
+export interface RunnerJobPrompt {
+  variantId: string
+  prompt: string
+  system?: string
+}
+
+export interface RunnerJob {
+  id: string
+  type: string
+  priority: number
+  attempts: number
+  maxRetries: number
+  leaseExpiresAt: string | null
+  model?: string
+  options: {
+    temperature?: number
+    maxTokens?: number
+    topP?: number
+    stop?: string[]
+  }
+  prompts: RunnerJobPrompt[]
+}
+
+export interface JobResult {
+  jobId: string
+  success: boolean
+  responses?: string[]
+  error?: string
+  metadata?: {
+    model?: string
+    processingTime?: number
+    tokenCount?: number
+  }
+}
+
+/**
+ * Thin wrapper around the API's `/api/llm/jobs/*` runner endpoints.
+ */
+export class ApiClient {
+  constructor(private readonly config: RunnerConfig) {}
+
+  async fetchPendingJobs(limit: number, signal?: AbortSignal): Promise<RunnerJob[]> {
+    const params = new URLSearchParams({
+      limit: String(limit),
+      types: this.config.jobTypes.join(','),
+      waitMs: String(this.config.pollWaitMs),
+    })
+
+    return this.request<RunnerJob[]>('GET', `/api/llm/jobs/pending?${params}`, undefined, signal)
+  }
+
+  async heartbeat(jobId: string): Promise<void> {
+    await this.request('POST', `/api/llm/jobs/${encodeURIComponent(jobId)}/heartbeat`)
+  }
+
+  async release(jobId: string): Promise<void> {
+    await this.request('POST', `/api/llm/jobs/${encodeURIComponent(jobId)}/release`)
+  }
+
+  async submitResult(result: JobResult): Promise<void> {
+    await this.request('POST', '/api/llm/jobs/result', result)
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(`${this.config.apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new ApiError(response.status, `${method} ${path} failed with ${response.status}: ${detail}`)
+    }
+
+    return (await response.json()) as T
+  }
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
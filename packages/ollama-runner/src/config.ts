@@ -0,0 +1,49 @@
+export interface RunnerConfig {
+  apiUrl: string
+  token: string
+  ollamaBaseUrl: string
+  defaultModel: string
+  concurrency: number
+  pollWaitMs: number
+  heartbeatMs: number
+  jobTypes: string[]
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number(value) : NaN
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * Builds the runner config from the environment, with CLI flags taking precedence.
+ */
+export function loadConfig(overrides: Partial<RunnerConfig> = {}): RunnerConfig {
+  const env = process.env
+
+  const config: RunnerConfig = {
+    apiUrl: (env.RUNNER_API_URL || 'http://localhost:8001').replace(/\/+$/, ''),
+    token: env.RUNNER_TOKEN || '',
+    ollamaBaseUrl: (env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, ''),
+    defaultModel: env.OLLAMA_MODEL || 'gemma3:12b',
+    concurrency: Math.max(1, Math.floor(readNumber(env.RUNNER_CONCURRENCY, 1))),
+    pollWaitMs: readNumber(env.RUNNER_POLL_WAIT_MS, 25000),
+    heartbeatMs: Math.max(1000, readNumber(env.RUNNER_HEARTBEAT_MS, 30000)),
+    jobTypes: (env.RUNNER_JOB_TYPES || 'BRAIN_DUMP,REPLY_GENERATION')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+  }
+
+  const target = config as unknown as Record<string, unknown>
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      target[key] = value
+    }
+  }
+
+  if (!config.token) {
+    throw new Error('RUNNER_TOKEN is required (or pass --token). Register a runner with POST /api/runners to get one.')
+  }
+
+  return config
+}
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+import { loadConfig, RunnerConfig } from './config'
+import { OllamaRunner } from './runner'
+
+const USAGE = `Usage: ollama-runner [options]
+
+Options:
+  --api-url <url>        API base URL (RUNNER_API_URL)
+  --token <token>        Runner token (RUNNER_TOKEN)
+  --ollama-url <url>     Local Ollama URL (OLLAMA_BASE_URL)
+  --model <name>         Model used when a job doesn't name one (OLLAMA_MODEL)
+  --concurrency <n>      Jobs processed in parallel (RUNNER_CONCURRENCY)
+  --poll-wait <ms>       Long-poll wait per request (RUNNER_POLL_WAIT_MS)
+  --heartbeat <ms>       Lease heartbeat interval (RUNNER_HEARTBEAT_MS)
+  -h, --help             Show this help
+`
+
+function parseArgs(argv: string[]): Partial<RunnerConfig> {
+  const overrides: Partial<RunnerConfig> = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = argv[i + 1]
+
+    switch (flag) {
+      case '-h':
+      case '--help':
+        console.log(USAGE)
+        process.exit(0)
+      case '--api-url':
+        overrides.apiUrl = value?.replace(/\/+$/, '')
+        i++
+        break
+      case '--token':
+        overrides.token = value
+        i++
+        break
+      case '--ollama-url':
+        overrides.ollamaBaseUrl = value?.replace(/\/+$/, '')
+        i++
+        break
+      case '--model':
+        overrides.defaultModel = value
+        i++
+        break
+      case '--concurrency':
+        overrides.concurrency = Math.max(1, Math.floor(Number(value)) || 1)
+        i++
+        break
+      case '--poll-wait':
+        overrides.pollWaitMs = Number(value)
+        i++
+        break
+      case '--heartbeat':
+        overrides.heartbeatMs = Number(value)
+        i++
+        break
+      default:
+        throw new Error(`Unknown option: ${flag}\n\n${USAGE}`)
+    }
+  }
+
+  return overrides
+}
+
+async function main() {
+  const config = loadConfig(parseArgs(process.argv.slice(2)))
+  const runner = new OllamaRunner(config)
+
+  let stopping = false
+  const shutdown = async (signal: string) => {
+    if (stopping) {
+      console.log('Forcing exit')
+      process.exit(1)
+    }
+
+    stopping = true
+    console.log(`\n${signal} received, shutting down...`)
+    await runner.stop()
+    process.exit(0)
+  }
+
+  process.on('SIGINT', () => void shutdown('SIGINT'))
+  process.on('SIGTERM', () => void shutdown('SIGTERM'))
+
+  await runner.start()
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,67 @@
+import { RunnerJob, RunnerJobPrompt } from './api-client'
+
+export interface OllamaGeneration {
+  text: string
+  model: string
+  tokenCount: number
+}
+
+/**
+ * Minimal client for a local Ollama server's `/api/chat` endpoint.
+ */
+export class OllamaClient {
+  constructor(private readonly baseUrl: string, private readonly defaultModel: string) {}
+
+  async generate(
+    prompt: RunnerJobPrompt,
+    model: string | undefined,
+    options: RunnerJob['options'],
+    signal?: AbortSignal
+  ): Promise<OllamaGeneration> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: model || this.defaultModel,
+        messages: [
+          ...(prompt.system ? [{ role: 'system', content: prompt.system }] : []),
+          { role: 'user', content: prompt.prompt },
+        ],
+        stream: false,
+        options: {
+          ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+          ...(options.maxTokens !== undefined ? { num_predict: options.maxTokens } : {}),
+          ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+          ...(options.stop?.length ? { stop: options.stop } : {}),
+        },
+      }),
+      signal,
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new Error(`Ollama request failed with ${response.status}: ${detail}`)
+    }
+
+    const result = (await response.json()) as {
+      message?: { content?: string }
+      model?: string
+      eval_count?: number
+    }
+
+    return {
+      text: result.message?.content ?? '',
+      model: result.model || model || this.defaultModel,
+      tokenCount: result.eval_count ?? 0,
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`)
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+}
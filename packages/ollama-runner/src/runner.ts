@@ -0,0 +1,180 @@
+import { ApiClient, ApiError, RunnerJob } from './api-client'
+import { RunnerConfig } from './config'
+import { OllamaClient } from './ollama-client'
+
+const ERROR_BACKOFF_MS = 5000
+
+interface ActiveJob {
+  job: RunnerJob
+  controller: AbortController
+  done: Promise<void>
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Long-polls the API for queued generation jobs, runs their prompts against a
+ * local Ollama and reports results. Up to `concurrency` jobs run at once.
+ */
+export class OllamaRunner {
+  private readonly api: ApiClient
+  private readonly ollama: OllamaClient
+  private readonly active = new Map<string, ActiveJob>()
+  private running = false
+  private pollController?: AbortController
+  private loop?: Promise<void>
+
+  constructor(private readonly config: RunnerConfig) {
+    this.api = new ApiClient(config)
+    this.ollama = new OllamaClient(config.ollamaBaseUrl, config.defaultModel)
+  }
+
+  async start() {
+    if (this.running) return
+
+    if (!(await this.ollama.isAvailable())) {
+      console.warn(`⚠️ Ollama is not reachable at ${this.config.ollamaBaseUrl}, jobs will fail until it is up`)
+    }
+
+    this.running = true
+    console.log(
+      `🚀 Runner polling ${this.config.apiUrl} (concurrency ${this.config.concurrency})`
+    )
+
+    this.loop = this.pollLoop()
+    await this.loop
+  }
+
+  /**
+   * Stops polling, aborts in-flight generations and hands their jobs back to
+   * the queue so another runner can pick them up.
+   */
+  async stop() {
+    if (!this.running) return
+
+    this.running = false
+    this.pollController?.abort()
+
+    const inFlight = [...this.active.values()]
+    if (inFlight.length) {
+      console.log(`🛑 Releasing ${inFlight.length} claimed job(s)...`)
+    }
+
+    for (const entry of inFlight) {
+      entry.controller.abort()
+    }
+
+    await Promise.allSettled(inFlight.map((entry) => entry.done))
+    await this.loop?.catch(() => undefined)
+  }
+
+  private async pollLoop() {
+    while (this.running) {
+      const freeSlots = this.config.concurrency - this.active.size
+      if (freeSlots <= 0) {
+        await Promise.race([...this.active.values()].map((entry) => entry.done))
+        continue
+      }
+
+      this.pollController = new AbortController()
+
+      try {
+        const jobs = await this.api.fetchPendingJobs(freeSlots, this.pollController.signal)
+        for (const job of jobs) {
+          this.track(job)
+        }
+      } catch (error) {
+        if (!this.running) break
+
+        if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+          console.error('❌ Runner token was rejected (revoked or missing scope), stopping:', describeError(error))
+          this.running = false
+          break
+        }
+
+        console.error('❌ Failed to fetch jobs:', describeError(error))
+        await sleep(ERROR_BACKOFF_MS)
+      }
+    }
+  }
+
+  private track(job: RunnerJob) {
+    const controller = new AbortController()
+    const entry: ActiveJob = {
+      job,
+      controller,
+      done: this.processJob(job, controller.signal).finally(() => {
+        this.active.delete(job.id)
+      }),
+    }
+
+    this.active.set(job.id, entry)
+  }
+
+  private async processJob(job: RunnerJob, signal: AbortSignal) {
+    const startTime = Date.now()
+    console.log(`🔄 Job ${job.id} (${job.type}, ${job.prompts.length} prompt(s), attempt ${job.attempts})`)
+
+    const heartbeat = setInterval(() => {
+      this.api.heartbeat(job.id).catch((error) => {
+        console.warn(`⚠️ Heartbeat failed for ${job.id}:`, describeError(error))
+      })
+    }, this.config.heartbeatMs)
+
+    try {
+      const responses: string[] = []
+      let tokenCount = 0
+      let model = job.model
+
+      for (const prompt of job.prompts) {
+        const result = await this.ollama.generate(prompt, job.model, job.options, signal)
+        responses.push(result.text)
+        tokenCount += result.tokenCount
+        model = result.model
+      }
+
+      await this.api.submitResult({
+        jobId: job.id,
+        success: true,
+        responses,
+        metadata: {
+          model,
+          processingTime: Date.now() - startTime,
+          tokenCount,
+        },
+      })
+
+      console.log(`✅ Job ${job.id} completed in ${Date.now() - startTime}ms`)
+    } catch (error) {
+      if (signal.aborted) {
+        await this.api.release(job.id).catch((releaseError) => {
+          console.warn(`⚠️ Could not release ${job.id}:`, describeError(releaseError))
+        })
+        return
+      }
+
+      if (error instanceof ApiError && error.status === 409) {
+        console.warn(`⚠️ Lost lease on ${job.id}, dropping result`)
+        return
+      }
+
+      console.error(`❌ Job ${job.id} failed:`, describeError(error))
+      await this.api
+        .submitResult({
+          jobId: job.id,
+          success: false,
+          error: describeError(error),
+          metadata: { processingTime: Date.now() - startTime },
+        })
+        .catch((submitError) => {
+          console.error(`❌ Could not report failure for ${job.id}:`, describeError(submitError))
+        })
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}